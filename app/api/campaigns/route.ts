@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { CAMPAIGN_PRESETS, campaignWindow } from "@/src/generator/campaigns";
+
+/**
+ * GET /api/campaigns
+ * Generation presets with the date window each would cover right now
+ */
+export async function GET() {
+  return NextResponse.json({
+    presets: CAMPAIGN_PRESETS.map((preset) => ({ ...preset, window: campaignWindow(preset.name) })),
+  });
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { pickVariant } from "@/src/generator/variants";
+import { ErrorCode } from "@/src/types";
+
+/**
+ * POST /api/drafts/:id/pick
+ * Pick this draft over the rest of its variant group and record the
+ * preference. Returns the updated group.
+ */
+export async function POST(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const result = pickVariant(params.id);
+  if (!result.success) {
+    return NextResponse.json(
+      { error: result.error.message, code: result.error.code },
+      { status: result.error.code === ErrorCode.DRAFT_NOT_FOUND ? 404 : 500 }
+    );
+  }
+  return NextResponse.json({ drafts: result.data });
+}
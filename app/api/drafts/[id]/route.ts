@@ -1,41 +1,119 @@
 import { NextResponse } from "next/server";
 import * as fs from "fs";
 import * as path from "path";
+import { config } from "@/src/lib/config";
+import { weightedLength, lintDraft, lintRulesFromGuidelines } from "@/src/lib/tweet-text";
+import { factCheckDraft } from "@/src/generator/fact-check";
+import { draftInput, draftRunKey } from "@/src/generator/draft-runs";
+import { loadHistory, flagDuplicates, draftText } from "@/src/generator/history";
+import { originalSide, recordPreferences, rememberOriginal, toPreferenceSide } from "@/src/generator/preferences";
+import { createSimilarityIndex } from "@/src/lib/similarity";
+import { getDraftProfile } from "@/src/voice/profiles";
+import { profileFingerprint, scoreVoiceDistance } from "@/src/voice/fingerprint";
 import type { TweetDraftsOutput } from "@/src/types";
 
-const DRAFTS_DIR = path.join(process.cwd(), "src", "data", "drafts");
-
+/**
+ * PATCH /api/drafts/:id
+ * Save an edit (`content`, or `posts` for a thread) and re-run the checks.
+ * The generated and edited text is recorded as a preference pair; `source:
+ * "revision"` marks an accepted AI revision rather than a hand edit.
+ */
 export async function PATCH(
   request: Request,
   { params }: { params: { id: string } }
 ) {
   try {
     const { id } = params;
-    const { content } = (await request.json()) as { content: string };
+    const { content, posts, source = "edit" } = (await request.json()) as {
+      content?: string;
+      posts?: string[];
+      source?: "edit" | "revision";
+    };
 
-    if (!content) {
+    if (!content && !posts) {
       return NextResponse.json(
-        { error: "Content is required" },
+        { error: "Content or posts are required" },
         { status: 400 }
       );
     }
 
+    if (posts) {
+      if (!Array.isArray(posts) || posts.length === 0) {
+        return NextResponse.json(
+          { error: "A thread needs at least one post" },
+          { status: 400 }
+        );
+      }
+      const invalidIndex = posts.findIndex(
+        (p) => typeof p !== "string" || !p.trim() || weightedLength(p) > config.voice.tweetMaxLength
+      );
+      if (invalidIndex !== -1) {
+        return NextResponse.json(
+          { error: `Post ${invalidIndex + 1} is empty or over ${config.voice.tweetMaxLength} characters` },
+          { status: 400 }
+        );
+      }
+    }
+
     // Find draft across all files
     const files = fs
-      .readdirSync(DRAFTS_DIR)
+      .readdirSync(config.output.draftsDir)
       .filter((f) => f.endsWith(".json"));
 
     for (const file of files) {
-      const filePath = path.join(DRAFTS_DIR, file);
+      const filePath = path.join(config.output.draftsDir, file);
       const fileContent = fs.readFileSync(filePath, "utf-8");
       const data = JSON.parse(fileContent) as TweetDraftsOutput;
 
       const draftIndex = data.drafts.findIndex((d) => d.id === id);
       if (draftIndex !== -1) {
-        // Update the draft
-        data.drafts[draftIndex].content = content;
+        // Update the draft (threads keep content in sync with the hook post)
+        const draft = data.drafts[draftIndex];
+        // Drafts from before the generated text was kept: this is it, unless edited already
+        rememberOriginal(draft);
+        const before = toPreferenceSide(draft);
+        if (posts) {
+          draft.posts = posts;
+          draft.content = posts[0];
+        } else if (content) {
+          draft.content = content;
+        }
+        const profile = getDraftProfile(draft.profileId);
+        draft.lint = lintDraft(draft, lintRulesFromGuidelines(profile.guidelines, config.voice.tweetMaxLength));
+        const fingerprint = profileFingerprint(profile);
+        if (fingerprint) {
+          draft.voiceDistance = scoreVoiceDistance(draft, fingerprint);
+        } else {
+          delete draft.voiceDistance;
+        }
+        // Against what this draft's own run (daily, brief, campaign, replies) was written from
+        const input = draftInput(data, draft);
+        if (input) {
+          draft.factCheck = factCheckDraft(draft, input);
+        }
+        // Compare against the history before this draft's day, and that day's other runs
+        const history = loadHistory(new Date(`${data.date}T12:00:00Z`), undefined, profile, draftRunKey(draft));
+        flagDuplicates([draft], createSimilarityIndex(history));
         fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
 
+        // Keep what the model wrote and what we ended up with, for profile refinement
+        const after = toPreferenceSide(draft);
+        if (draftText(before) !== draftText(after)) {
+          const recorded = recordPreferences([
+            {
+              timestamp: new Date().toISOString(),
+              source: source === "revision" ? "revision" : "edit",
+              chosen: after,
+              rejected: originalSide(draft),
+              promptVersion: draft.promptVersion ?? data.promptVersion,
+              ...(draft.profileId && { profileId: draft.profileId }),
+            },
+          ]);
+          if (!recorded.success) {
+            console.warn("Could not record edit preference:", recorded.error.message);
+          }
+        }
+
         return NextResponse.json({ draft: data.drafts[draftIndex] });
       }
     }
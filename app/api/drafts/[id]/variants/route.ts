@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { generateVariants } from "@/src/generator/variants";
+import { getLLMProvider } from "@/src/llm/provider";
+import { ErrorCode } from "@/src/types";
+
+/**
+ * POST /api/drafts/:id/variants
+ * Write `count` A/B variants of a stored draft and save them next to it.
+ * Returns the whole variant group, original first.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { count } = (await request.json().catch(() => ({}))) as { count?: number };
+    if (count !== undefined && (!Number.isFinite(count) || count < 1)) {
+      return NextResponse.json({ error: "count must be a positive number" }, { status: 400 });
+    }
+
+    const result = await generateVariants(params.id, count, getLLMProvider(undefined, "/api/drafts/variants"));
+    if (!result.success) {
+      const status = result.error.code === ErrorCode.BUDGET_EXCEEDED
+        ? 402
+        : result.error.code === ErrorCode.DRAFT_NOT_FOUND
+        ? 404
+        : 500;
+      return NextResponse.json({ error: result.error.message, code: result.error.code }, { status });
+    }
+
+    return NextResponse.json(result.data);
+  } catch (error) {
+    console.error("Error generating variants:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to generate variants" },
+      { status: 500 }
+    );
+  }
+}
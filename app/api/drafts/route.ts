@@ -5,16 +5,30 @@ import { generateTweets, saveDrafts } from "@/src/generator/tweet-generator";
 import { scrapeTwitter } from "@/src/scrapers/twitter";
 import { scrapeNews } from "@/src/scrapers/news";
 import { scrapeOnchainData } from "@/src/scrapers/onchain";
-import type { TweetDraftsOutput, GenerationInput } from "@/src/types";
-
-const DRAFTS_DIR = path.join(process.cwd(), "src", "data", "drafts");
+import { config, parseStages } from "@/src/lib/config";
+import { getLLMProvider } from "@/src/llm/provider";
+import { checkBudget } from "@/src/llm/usage";
+import { buildCampaignInput, campaignWindow, getCampaignPreset, includesToday } from "@/src/generator/campaigns";
+import { fetchBriefArticles, mergeBriefInput, validateBrief } from "@/src/generator/brief";
+import { getVoiceProfile } from "@/src/voice/profiles";
+import { ErrorCode } from "@/src/types";
+import type {
+  CampaignPresetName,
+  CustomBrief,
+  TweetDraftsOutput,
+  GenerationInput,
+  GenerationMode,
+  GenerationProgressEvent,
+  PipelineStage,
+  VoiceProfile,
+} from "@/src/types";
 
 export async function GET() {
   try {
     // Try to read from filesystem first
-    if (fs.existsSync(DRAFTS_DIR)) {
+    if (fs.existsSync(config.output.draftsDir)) {
       const files = fs
-        .readdirSync(DRAFTS_DIR)
+        .readdirSync(config.output.draftsDir)
         .filter((f) => f.endsWith(".json"))
         .sort()
         .reverse();
@@ -24,7 +38,7 @@ export async function GET() {
         const dates: string[] = [];
 
         for (const file of files) {
-          const filePath = path.join(DRAFTS_DIR, file);
+          const filePath = path.join(config.output.draftsDir, file);
           const content = fs.readFileSync(filePath, "utf-8");
           const data = JSON.parse(content) as TweetDraftsOutput;
           allDrafts.push(data);
@@ -51,111 +65,314 @@ export async function GET() {
   }
 }
 
+type GenerateRequestBody = GenerationInput & {
+  scrapeFirst?: boolean;
+  mode?: GenerationMode;
+  stages?: PipelineStage[];
+  preset?: CampaignPresetName;
+  brief?: CustomBrief;
+  profileId?: string;
+};
+
+type ProgressEmitter = (event: GenerationProgressEvent) => void;
+
+/**
+ * POST /api/drafts
+ * Scrape (unless data is provided) and generate drafts; `preset` picks a
+ * campaign (weekly recap, monthly report) over stored history, and `brief`
+ * focuses the drafts on given text / URLs (scraping only with
+ * `scrapeFirst: true`). `profileId` picks the voice profile. With
+ * `Accept: text/event-stream` the response is an SSE stream of
+ * GenerationProgressEvents ending in "done" or "error"; otherwise JSON.
+ */
 export async function POST(request: Request) {
   try {
-    const body = (await request.json()) as GenerationInput & { scrapeFirst?: boolean };
-    let input: GenerationInput = body;
+    const { mode, stages, preset, brief: rawBrief, profileId, ...body } = (await request.json()) as GenerateRequestBody;
 
-    // Scrape fresh data if requested or no data provided
-    const shouldScrape = body.scrapeFirst !== false && (!body.news?.length && !body.tweets?.length && !body.onchainData);
+    if (mode !== undefined && mode !== "single" && mode !== "thread") {
+      return NextResponse.json(
+        { error: `Invalid mode "${mode}". Use "single" or "thread".` },
+        { status: 400 }
+      );
+    }
+    if (preset !== undefined) {
+      const found = getCampaignPreset(preset);
+      if (!found.success) {
+        return NextResponse.json({ error: found.error.message }, { status: 400 });
+      }
+    }
+    const profile = getVoiceProfile(profileId);
+    if (!profile.success) {
+      return NextResponse.json({ error: profile.error.message, code: profile.error.code }, { status: 400 });
+    }
+    let brief: CustomBrief | undefined;
+    if (rawBrief !== undefined) {
+      if (preset !== undefined && preset !== "daily") {
+        return NextResponse.json({ error: "A brief can't be combined with a recap preset" }, { status: 400 });
+      }
+      const validated = validateBrief(rawBrief);
+      if (!validated.success) {
+        return NextResponse.json({ error: validated.error.message }, { status: 400 });
+      }
+      brief = validated.data;
+    }
 
-    if (shouldScrape) {
-      console.log("Scraping fresh data from all sources...");
+    // Don't spend scraper calls on a run the budget would block anyway
+    const budget = checkBudget();
+    if (!budget.success) {
+      return NextResponse.json(
+        { error: budget.error.message, code: budget.error.code },
+        { status: 402 }
+      );
+    }
 
-      const scrapedInput: GenerationInput = {};
-      const scrapeErrors: string[] = [];
+    const run = (emit: ProgressEmitter) => runGeneration({ ...body, mode, stages, preset, brief }, profile.data, emit);
 
-      // Scrape Twitter
-      try {
-        const twitterResult = await scrapeTwitter();
-        if (twitterResult.success && twitterResult.data.length > 0) {
-          scrapedInput.tweets = twitterResult.data;
-          console.log(`Scraped ${twitterResult.data.length} tweets`);
-        } else if (!twitterResult.success) {
-          scrapeErrors.push(`Twitter: ${twitterResult.error.message}`);
-        }
-      } catch (e) {
-        scrapeErrors.push(`Twitter: ${e instanceof Error ? e.message : "Unknown error"}`);
-      }
+    if (request.headers.get("accept")?.includes("text/event-stream")) {
+      return streamProgress(run);
+    }
 
-      // Scrape News
-      try {
-        const newsResult = await scrapeNews();
-        if (newsResult.success && newsResult.data.length > 0) {
-          scrapedInput.news = newsResult.data;
-          console.log(`Scraped ${newsResult.data.length} news articles`);
-        } else if (!newsResult.success) {
-          scrapeErrors.push(`News: ${newsResult.error.message}`);
+    const result = await run(() => {});
+    return NextResponse.json(result.body, { status: result.status });
+  } catch (error) {
+    console.error("Error generating drafts:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to generate drafts" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Run generation, writing each progress event to an SSE stream. The run
+ * finishes and saves its drafts even if the client goes away mid-run.
+ */
+function streamProgress(run: (emit: ProgressEmitter) => Promise<GenerationRunResult>): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const emit: ProgressEmitter = (event) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          // The client disconnected before cancel() was called
+          closed = true;
         }
-      } catch (e) {
-        scrapeErrors.push(`News: ${e instanceof Error ? e.message : "Unknown error"}`);
-      }
+      };
 
-      // Scrape On-chain data
       try {
-        const onchainResult = await scrapeOnchainData();
-        if (onchainResult.success) {
-          scrapedInput.onchainData = onchainResult.data;
-          console.log("Scraped on-chain data:", scrapedInput.onchainData);
-        } else {
-          scrapeErrors.push(`On-chain: ${onchainResult.error.message}`);
+        const result = await run(emit);
+        if (result.status !== 200) {
+          const { error, code } = result.body as { error: string; code?: ErrorCode };
+          emit({ type: "error", message: error, code });
+        }
+      } catch (error) {
+        console.error("Error generating drafts:", error);
+        emit({ type: "error", message: error instanceof Error ? error.message : "Failed to generate drafts" });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
         }
-      } catch (e) {
-        scrapeErrors.push(`On-chain: ${e instanceof Error ? e.message : "Unknown error"}`);
       }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
 
-      // Log any scrape errors but continue
-      if (scrapeErrors.length > 0) {
-        console.warn("Some scrapers failed:", scrapeErrors);
-      }
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
 
-      // Use scraped data
-      input = scrapedInput;
-    }
+interface GenerationRunResult {
+  status: number;
+  body: Record<string, unknown>;
+}
 
-    // Check if we have any data to work with
-    const hasData = input.news?.length || input.tweets?.length || input.onchainData;
-    if (!hasData) {
-      return NextResponse.json(
-        {
-          error: "No data available to generate tweets. Make sure Twitter API key is configured and try again.",
-          scrapeErrors: []
-        },
-        { status: 400 }
-      );
-    }
+/**
+ * Scrape if needed, generate, and save. Emits progress along the way and
+ * "done" on success; the caller turns non-200 results into errors.
+ */
+async function runGeneration(
+  { mode, stages, preset = "daily", brief, ...body }: GenerateRequestBody,
+  profile: VoiceProfile,
+  emit: ProgressEmitter
+): Promise<GenerationRunResult> {
+  let fresh: GenerationInput = body;
 
-    // Generate tweets
-    const result = await generateTweets(input);
+  // Scrape fresh data if requested or no data provided. A report on a closed
+  // month only needs what was stored at the time; a brief's scraped context
+  // is opt-in.
+  const shouldScrape = (brief ? body.scrapeFirst === true : body.scrapeFirst !== false)
+    && (!body.news?.length && !body.tweets?.length && !body.onchainData)
+    && includesToday(campaignWindow(preset));
 
-    if (!result.success) {
-      return NextResponse.json(
-        { error: result.error.message, code: result.error.code },
-        { status: 500 }
-      );
-    }
+  if (shouldScrape) {
+    console.log("Scraping fresh data from all sources...");
+    fresh = await scrapeAll(emit);
+  }
 
-    // Try to save drafts (may fail on read-only filesystems like Vercel)
-    try {
-      const saveResult = saveDrafts(result.data.drafts, input);
-      if (!saveResult.success) {
-        console.warn("Could not save drafts to filesystem:", saveResult.error.message);
-      }
-    } catch (saveError) {
-      console.warn("Filesystem save failed (expected on Vercel):", saveError);
+  let briefErrors: string[] = [];
+  if (brief?.urls?.length) {
+    emit({ type: "scrape:start", source: "brief" });
+    const fetched = await fetchBriefArticles(brief);
+    briefErrors = fetched.errors;
+    emit({
+      type: "scrape:done",
+      source: "brief",
+      count: fetched.articles.length,
+      ...(briefErrors.length > 0 && { error: briefErrors.join("; ") }),
+    });
+    fresh = mergeBriefInput(fetched.articles, fresh);
+  }
+
+  const { input, campaign } = buildCampaignInput(preset, fresh);
+
+  // Check if we have any data to work with; a brief's own text is enough
+  const hasData = input.news?.length || input.tweets?.length || input.onchainData || brief?.text;
+  if (!hasData) {
+    return {
+      status: 400,
+      body: {
+        error: campaign
+          ? `No stored data for ${campaign.window.label}. Recaps are built from earlier daily runs.`
+          : brief
+          ? `None of the brief's URLs could be fetched: ${briefErrors.join("; ")}`
+          : "No data available to generate tweets. Make sure Twitter API key is configured and try again.",
+        scrapeErrors: briefErrors,
+      },
+    };
+  }
+
+  // Generate tweets
+  const result = await generateTweets(input, getLLMProvider(undefined, "/api/drafts"), {
+    mode,
+    stages: Array.isArray(stages) ? parseStages(stages.join(",")) : undefined,
+    onProgress: emit,
+    campaign,
+    brief,
+    profile,
+  });
+
+  if (!result.success) {
+    return {
+      status: result.error.code === ErrorCode.BUDGET_EXCEEDED ? 402 : 500,
+      body: { error: result.error.message, code: result.error.code },
+    };
+  }
+
+  // Try to save drafts (may fail on read-only filesystems like Vercel)
+  try {
+    const saveResult = saveDrafts(result.data.drafts, input, result.data.promptVersion, brief);
+    if (!saveResult.success) {
+      console.warn("Could not save drafts to filesystem:", saveResult.error.message);
     }
+  } catch (saveError) {
+    console.warn("Filesystem save failed (expected on Vercel):", saveError);
+  }
 
-    return NextResponse.json({
+  emit({ type: "done", output: result.data, input, ...(brief && { brief }) });
+
+  return {
+    status: 200,
+    body: {
       drafts: result.data.drafts,
       tokensUsed: result.data.tokensUsed,
       modelUsed: result.data.modelUsed,
+      promptVersion: result.data.promptVersion,
       input, // Include the scraped input data for source display
+      ...(brief && { brief }),
+    },
+  };
+}
+
+/**
+ * Run every scraper, reporting each one's start and result. Failures are
+ * reported and skipped so one dead source doesn't block generation.
+ */
+async function scrapeAll(emit: ProgressEmitter): Promise<GenerationInput> {
+  const scrapedInput: GenerationInput = {};
+  const scrapeErrors: string[] = [];
+
+  // Scrape Twitter
+  emit({ type: "scrape:start", source: "twitter" });
+  try {
+    const twitterResult = await scrapeTwitter();
+    if (twitterResult.success && twitterResult.data.length > 0) {
+      scrapedInput.tweets = twitterResult.data;
+      console.log(`Scraped ${twitterResult.data.length} tweets`);
+    } else if (!twitterResult.success) {
+      scrapeErrors.push(`Twitter: ${twitterResult.error.message}`);
+    }
+    emit({
+      type: "scrape:done",
+      source: "twitter",
+      count: scrapedInput.tweets?.length || 0,
+      ...(!twitterResult.success && { error: twitterResult.error.message }),
     });
-  } catch (error) {
-    console.error("Error generating drafts:", error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : "Failed to generate drafts" },
-      { status: 500 }
-    );
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Unknown error";
+    scrapeErrors.push(`Twitter: ${message}`);
+    emit({ type: "scrape:done", source: "twitter", count: 0, error: message });
+  }
+
+  // Scrape News
+  emit({ type: "scrape:start", source: "news" });
+  try {
+    const newsResult = await scrapeNews();
+    if (newsResult.success && newsResult.data.length > 0) {
+      scrapedInput.news = newsResult.data;
+      console.log(`Scraped ${newsResult.data.length} news articles`);
+    } else if (!newsResult.success) {
+      scrapeErrors.push(`News: ${newsResult.error.message}`);
+    }
+    emit({
+      type: "scrape:done",
+      source: "news",
+      count: scrapedInput.news?.length || 0,
+      ...(!newsResult.success && { error: newsResult.error.message }),
+    });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Unknown error";
+    scrapeErrors.push(`News: ${message}`);
+    emit({ type: "scrape:done", source: "news", count: 0, error: message });
+  }
+
+  // Scrape On-chain data
+  emit({ type: "scrape:start", source: "onchain" });
+  try {
+    const onchainResult = await scrapeOnchainData();
+    if (onchainResult.success) {
+      scrapedInput.onchainData = onchainResult.data;
+      console.log("Scraped on-chain data:", scrapedInput.onchainData);
+    } else {
+      scrapeErrors.push(`On-chain: ${onchainResult.error.message}`);
+    }
+    emit({
+      type: "scrape:done",
+      source: "onchain",
+      count: onchainResult.success ? 1 : 0,
+      ...(!onchainResult.success && { error: onchainResult.error.message }),
+    });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Unknown error";
+    scrapeErrors.push(`On-chain: ${message}`);
+    emit({ type: "scrape:done", source: "onchain", count: 0, error: message });
   }
+
+  // Log any scrape errors but continue
+  if (scrapeErrors.length > 0) {
+    console.warn("Some scrapers failed:", scrapeErrors);
+  }
+
+  return scrapedInput;
 }
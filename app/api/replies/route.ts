@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { saveDrafts } from "@/src/generator/tweet-generator";
+import { suggestReplies } from "@/src/generator/replies";
+import { scrapeTwitter } from "@/src/scrapers/twitter";
+import { getLLMProvider } from "@/src/llm/provider";
+import { getVoiceProfile } from "@/src/voice/profiles";
+import { ErrorCode } from "@/src/types";
+import type { TwitterPost } from "@/src/types";
+
+/**
+ * POST /api/replies
+ * Draft a reply and a quote-tweet for the top-ranked tweets. Uses `tweets`
+ * from the body when given, otherwise scrapes Twitter first. `profileId`
+ * picks the voice profile to reply as.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => ({}))) as { tweets?: TwitterPost[]; profileId?: string };
+    const profile = getVoiceProfile(body.profileId);
+    if (!profile.success) {
+      return NextResponse.json({ error: profile.error.message, code: profile.error.code }, { status: 400 });
+    }
+    let tweets = body.tweets || [];
+
+    if (tweets.length === 0) {
+      const scraped = await scrapeTwitter();
+      if (!scraped.success) {
+        return NextResponse.json(
+          { error: `Could not fetch tweets to reply to: ${scraped.error.message}`, code: scraped.error.code },
+          { status: 502 }
+        );
+      }
+      tweets = scraped.data;
+    }
+
+    const result = await suggestReplies(
+      tweets,
+      getLLMProvider(undefined, "/api/replies"),
+      undefined,
+      profile.data
+    );
+    if (!result.success) {
+      const status = result.error.code === ErrorCode.BUDGET_EXCEEDED
+        ? 402
+        : result.error.code === ErrorCode.NO_DATA_AVAILABLE
+        ? 400
+        : 500;
+      return NextResponse.json({ error: result.error.message, code: result.error.code }, { status });
+    }
+
+    // Try to save (may fail on read-only filesystems like Vercel)
+    const saveResult = saveDrafts(result.data.drafts, { tweets });
+    if (!saveResult.success) {
+      console.warn("Could not save reply suggestions to filesystem:", saveResult.error.message);
+    }
+
+    return NextResponse.json({
+      drafts: result.data.drafts,
+      tokensUsed: result.data.tokensUsed,
+      modelUsed: result.data.modelUsed,
+      promptVersion: result.data.promptVersion,
+    });
+  } catch (error) {
+    console.error("Error suggesting replies:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to suggest replies" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,21 @@
 import { NextResponse } from "next/server";
-import Anthropic from "@anthropic-ai/sdk";
 import { config } from "@/src/lib/config";
-
-const anthropic = new Anthropic();
+import { getLLMProvider } from "@/src/llm/provider";
+import { renderPrompt } from "@/src/lib/prompt-templates";
+import { getVoiceProfile } from "@/src/voice/profiles";
+import { ErrorCode } from "@/src/types";
 
 interface ReviseRequest {
   draftId: string;
   feedback: string;
   originalContent: string;
+  /** Voice profile to revise in; omit for the default */
+  profileId?: string;
 }
 
 export async function POST(request: Request) {
   try {
-    const { feedback, originalContent } = (await request.json()) as ReviseRequest;
+    const { feedback, originalContent, profileId } = (await request.json()) as ReviseRequest;
 
     if (!feedback || !originalContent) {
       return NextResponse.json(
@@ -21,38 +24,45 @@ export async function POST(request: Request) {
       );
     }
 
-    const revisionPrompt = `You are revising a tweet draft.
-
-Original tweet:
-"${originalContent}"
-
-User feedback:
-${feedback}
-
-Requirements:
-- Max ${config.voice.tweetMaxLength} characters
-- Maintain the voice profile of @${config.voice.twitterHandle}
-- Address the user's feedback specifically
+    const profile = getVoiceProfile(profileId);
+    if (!profile.success) {
+      return NextResponse.json(
+        { error: profile.error.message, code: profile.error.code },
+        { status: 400 }
+      );
+    }
 
-Return ONLY the revised tweet text, no explanation.`;
+    const revisionPrompt = renderPrompt("revise", {
+      originalContent,
+      feedback,
+      maxLength: config.voice.tweetMaxLength,
+      handle: profile.data.handle,
+    });
+    if (!revisionPrompt.success) {
+      return NextResponse.json(
+        { error: revisionPrompt.error.message, code: revisionPrompt.error.code },
+        { status: 500 }
+      );
+    }
 
-    const response = await anthropic.messages.create({
+    const response = await getLLMProvider(undefined, "/api/revise").complete({
+      feature: "revise",
       model: config.ai.model,
-      max_tokens: 500,
-      messages: [{ role: "user", content: revisionPrompt }],
+      maxTokens: 500,
+      messages: [{ role: "user", content: revisionPrompt.data }],
     });
 
-    const textBlock = response.content.find((block) => block.type === "text");
-    if (!textBlock || textBlock.type !== "text") {
+    if (!response.success) {
       return NextResponse.json(
-        { error: "No text response from AI" },
-        { status: 500 }
+        { error: response.error.message, code: response.error.code },
+        { status: response.error.code === ErrorCode.BUDGET_EXCEEDED ? 402 : 500 }
       );
     }
 
     return NextResponse.json({
-      revisedContent: textBlock.text.trim(),
-      tokensUsed: response.usage.input_tokens + response.usage.output_tokens,
+      revisedContent: response.data.text.trim(),
+      promptVersion: config.prompts.version,
+      tokensUsed: response.data.usage.inputTokens + response.data.usage.outputTokens,
     });
   } catch (error) {
     console.error("Error revising draft:", error);
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { summarizeUsage } from "@/src/llm/usage";
+
+/**
+ * GET /api/usage?days=30
+ * LLM spend by day, feature and route from the usage ledger, with budget status
+ */
+export async function GET(request: Request) {
+  try {
+    const daysParam = Number(new URL(request.url).searchParams.get("days") || 30);
+    const days = Number.isFinite(daysParam) ? Math.min(Math.max(Math.round(daysParam), 1), 365) : 30;
+
+    return NextResponse.json(summarizeUsage(days));
+  } catch (error) {
+    console.error("Error reading usage ledger:", error);
+    return NextResponse.json(
+      { error: "Failed to read usage ledger" },
+      { status: 500 }
+    );
+  }
+}
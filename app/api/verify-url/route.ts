@@ -1,4 +1,5 @@
 import { NextResponse } from "next/server";
+import { httpFetch } from "@/src/lib/http";
 
 export async function POST(request: Request) {
   try {
@@ -21,13 +22,11 @@ export async function POST(request: Request) {
 
     // Check if URL is reachable
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000); // 10s timeout
-
       // Try HEAD first, fall back to GET if blocked
-      let response = await fetch(url, {
+      let response = await httpFetch(url, {
         method: "HEAD",
-        signal: controller.signal,
+        timeoutMs: 10000,
+        maxRetries: 0,
         headers: {
           "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
           "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
@@ -36,9 +35,10 @@ export async function POST(request: Request) {
 
       // If HEAD is forbidden, try GET
       if (response.status === 403 || response.status === 405) {
-        response = await fetch(url, {
+        response = await httpFetch(url, {
           method: "GET",
-          signal: controller.signal,
+          timeoutMs: 10000,
+          maxRetries: 0,
           headers: {
             "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
             "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
@@ -46,8 +46,6 @@ export async function POST(request: Request) {
         });
       }
 
-      clearTimeout(timeoutId);
-
       if (response.ok) {
         return NextResponse.json({
           url,
@@ -83,7 +81,7 @@ export async function POST(request: Request) {
       return NextResponse.json({
         url,
         status: "broken",
-        error: error.name === "AbortError" ? "Request timeout" : error.message,
+        error: error.name === "TimeoutError" ? "Request timeout" : error.message,
       });
     }
   } catch (error) {
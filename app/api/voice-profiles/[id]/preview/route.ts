@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { config } from "@/src/lib/config";
+import { buildSystemPrompt } from "@/src/generator/tweet-generator";
+import { applyProfileUpdate, getVoiceProfile } from "@/src/voice/profiles";
+import type { GenerationMode, VoiceProfileUpdate } from "@/src/types";
+
+/**
+ * POST /api/voice-profiles/:id/preview
+ * The draft-stage system prompt the profile produces, with the unsaved
+ * changes in the body applied. Nothing is saved.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { mode = "single", ...update } = (await request.json().catch(() => ({}))) as VoiceProfileUpdate & {
+      mode?: GenerationMode;
+    };
+
+    const profile = getVoiceProfile(params.id);
+    if (!profile.success) {
+      return NextResponse.json({ error: profile.error.message, code: profile.error.code }, { status: 404 });
+    }
+    const updated = applyProfileUpdate(profile.data, update);
+    if (!updated.success) {
+      return NextResponse.json({ error: updated.error.message, code: updated.error.code }, { status: 400 });
+    }
+
+    const prompt = buildSystemPrompt(mode, config.generation.stages, updated.data);
+    if (!prompt.success) {
+      return NextResponse.json({ error: prompt.error.message, code: prompt.error.code }, { status: 500 });
+    }
+    return NextResponse.json({ prompt: prompt.data });
+  } catch (error) {
+    console.error("Error previewing system prompt:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to preview system prompt" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { buildVoiceProfile } from "@/src/scrapers/voice-profile";
+import { getVoiceProfile, mergeRebuild, profileForRebuild, saveVoiceProfile } from "@/src/voice/profiles";
+import { ErrorCode } from "@/src/types";
+
+/**
+ * POST /api/voice-profiles/:id/rebuild
+ * Rebuild the profile from its handle's tweets, like `npm run build:voice`.
+ * Only new tweets are fetched unless `full` is set.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { full = false } = (await request.json().catch(() => ({}))) as { full?: boolean };
+
+    const profile = getVoiceProfile(params.id);
+    if (!profile.success) {
+      return NextResponse.json({ error: profile.error.message, code: profile.error.code }, { status: 404 });
+    }
+
+    const analysis = await buildVoiceProfile(profile.data.handle, { full });
+    if (!analysis.success) {
+      const status =
+        analysis.error.code === ErrorCode.MISSING_ENV_VAR
+          ? 503
+          : analysis.error.code === ErrorCode.NO_DATA_AVAILABLE
+          ? 404
+          : 502;
+      return NextResponse.json({ error: analysis.error.message, code: analysis.error.code }, { status });
+    }
+
+    const saved = saveVoiceProfile(mergeRebuild(profileForRebuild(profile.data.id, profile.data.handle), analysis.data));
+    if (!saved.success) {
+      return NextResponse.json({ error: saved.error.message, code: saved.error.code }, { status: 500 });
+    }
+    return NextResponse.json({ profile: saved.data });
+  } catch (error) {
+    console.error("Error rebuilding voice profile:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to rebuild voice profile" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { getVoiceProfile, updateVoiceProfile } from "@/src/voice/profiles";
+import { ErrorCode } from "@/src/types";
+import type { VoiceProfileUpdate } from "@/src/types";
+
+/**
+ * GET /api/voice-profiles/:id
+ * The whole profile, samples included
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const profile = getVoiceProfile(params.id);
+    if (!profile.success) {
+      return NextResponse.json({ error: profile.error.message, code: profile.error.code }, { status: 404 });
+    }
+    return NextResponse.json({ profile: profile.data });
+  } catch (error) {
+    console.error("Error loading voice profile:", error);
+    return NextResponse.json(
+      { error: "Failed to load voice profile" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/voice-profiles/:id
+ * Pin, unpin or exclude samples (by text) and replace avoidWords or
+ * preferredTerms. Saved as a new version of the profile.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const update = (await request.json()) as VoiceProfileUpdate;
+    const lists = [update.pin, update.unpin, update.exclude, update.avoidWords];
+    if (lists.some((list) => list !== undefined && !Array.isArray(list))) {
+      return NextResponse.json({ error: "pin, unpin, exclude and avoidWords must be lists" }, { status: 400 });
+    }
+
+    const result = updateVoiceProfile(params.id, update);
+    if (!result.success) {
+      const status =
+        result.error.code === ErrorCode.PROFILE_NOT_FOUND
+          ? 404
+          : result.error.code === ErrorCode.INVALID_DATA_FORMAT
+          ? 400
+          : 500;
+      return NextResponse.json({ error: result.error.message, code: result.error.code }, { status });
+    }
+    return NextResponse.json({ profile: result.data });
+  } catch (error) {
+    console.error("Error updating voice profile:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update voice profile" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { config } from "@/src/lib/config";
+import { getDefaultVoiceProfile, listVoiceProfiles, toProfileSummary } from "@/src/voice/profiles";
+
+/**
+ * GET /api/voice-profiles
+ * Every voice profile (without samples), the one used by default, and the
+ * configured tweet length limit drafts are linted against
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({
+      profiles: listVoiceProfiles().map(toProfileSummary),
+      defaultProfile: getDefaultVoiceProfile().id,
+      tweetMaxLength: config.voice.tweetMaxLength,
+    });
+  } catch (error) {
+    console.error("Error loading voice profiles:", error);
+    return NextResponse.json(
+      { error: "Failed to load voice profiles" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { reviewRefinement } from "@/src/voice/refinement";
+import { toProfileSummary } from "@/src/voice/profiles";
+import { ErrorCode } from "@/src/types";
+
+/**
+ * POST /api/voice-refinements/review
+ * Apply the `apply` suggestions to the profile and dismiss the `dismiss`
+ * ones. Returns the updated profile (without samples) and what's left.
+ */
+export async function POST(request: Request) {
+  try {
+    const { profileId, apply = [], dismiss = [] } = (await request.json()) as {
+      profileId?: string;
+      apply?: string[];
+      dismiss?: string[];
+    };
+    if (!profileId || !Array.isArray(apply) || !Array.isArray(dismiss)) {
+      return NextResponse.json({ error: "profileId and suggestion id lists are required" }, { status: 400 });
+    }
+
+    const result = reviewRefinement(profileId, apply, dismiss);
+    if (!result.success) {
+      const status =
+        result.error.code === ErrorCode.PROFILE_NOT_FOUND || result.error.code === ErrorCode.NO_DATA_AVAILABLE
+          ? 404
+          : result.error.code === ErrorCode.INVALID_DATA_FORMAT
+          ? 400
+          : 500;
+      return NextResponse.json({ error: result.error.message, code: result.error.code }, { status });
+    }
+    return NextResponse.json({
+      profile: toProfileSummary(result.data.profile),
+      refinement: result.data.refinement,
+    });
+  } catch (error) {
+    console.error("Error applying refinement:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to apply refinement" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { readRefinement, runRefinement } from "@/src/voice/refinement";
+import { getVoiceProfile } from "@/src/voice/profiles";
+import { ErrorCode } from "@/src/types";
+
+/**
+ * GET /api/voice-refinements?profileId=default
+ * The profile's pending suggestions from the last refinement run, or null
+ */
+export async function GET(request: Request) {
+  try {
+    const profile = getVoiceProfile(new URL(request.url).searchParams.get("profileId") || undefined);
+    if (!profile.success) {
+      return NextResponse.json({ error: profile.error.message, code: profile.error.code }, { status: 404 });
+    }
+    return NextResponse.json({ refinement: readRefinement(profile.data.id) ?? null });
+  } catch (error) {
+    console.error("Error reading refinement:", error);
+    return NextResponse.json(
+      { error: "Failed to read refinement" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/voice-refinements
+ * Mine the profile's edits and revisions for new suggestions
+ */
+export async function POST(request: Request) {
+  try {
+    const { profileId } = (await request.json().catch(() => ({}))) as { profileId?: string };
+    const result = runRefinement(profileId);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error.message, code: result.error.code },
+        { status: result.error.code === ErrorCode.PROFILE_NOT_FOUND ? 404 : 500 }
+      );
+    }
+    return NextResponse.json({ refinement: result.data });
+  } catch (error) {
+    console.error("Error running refinement:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to run refinement" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,19 @@
 "use client";
 
 import { useEffect, useState, useCallback } from "react";
-import { Mountain, RefreshCw, Trash2 } from "lucide-react";
-import { Button } from "@/components/ui/button";
+import Link from "next/link";
+import { AudioLines, Mountain, RefreshCw, Trash2 } from "lucide-react";
+import { Button, buttonVariants } from "@/components/ui/button";
 import { DraftCard } from "@/components/draft-card";
 import { GenerateButton } from "@/components/generate-button";
-import { fetchDrafts, DraftsResponse, GenerateResponse } from "@/lib/api";
-import type { TweetDraftsOutput } from "@/src/types";
+import { BriefDialog } from "@/components/brief-dialog";
+import { RefinementDialog } from "@/components/refinement-dialog";
+import { UsagePanel } from "@/components/usage-panel";
+import { ReplyQueue } from "@/components/reply-queue";
+import { VariantGroup } from "@/components/variant-group";
+import { fetchDrafts, fetchVoiceProfiles, DraftsResponse, GenerateResponse } from "@/lib/api";
+import { draftGroup, draftInput, draftRunKey } from "@/src/generator/draft-runs";
+import type { CustomBrief, GenerationInput, TweetDraft, TweetDraftsOutput, VoiceProfileSummary } from "@/src/types";
 
 const STORAGE_KEY = "avalanche-tweet-drafts";
 
@@ -14,6 +21,11 @@ export default function Dashboard() {
   const [data, setData] = useState<DraftsResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [usageRefreshKey, setUsageRefreshKey] = useState(0);
+  const [view, setView] = useState<"drafts" | "replies">("drafts");
+  const [profiles, setProfiles] = useState<VoiceProfileSummary[]>([]);
+  const [profileId, setProfileId] = useState<string | undefined>();
+  const [tweetMaxLength, setTweetMaxLength] = useState<number | undefined>();
 
   // Load from localStorage first, then try API
   const loadDrafts = useCallback(async () => {
@@ -69,12 +81,18 @@ export default function Dashboard() {
 
   // Handle newly generated drafts - add them to the UI and save to localStorage
   const handleGenerated = useCallback((result: GenerateResponse) => {
+    setUsageRefreshKey((key) => key + 1);
     const today = new Date().toISOString().split("T")[0];
+    const first = result.drafts[0];
+    const runKey = first && draftRunKey(first);
     const newDraftOutput: TweetDraftsOutput = {
       date: today,
       generatedAt: new Date().toISOString(),
       drafts: result.drafts,
       input: result.input as TweetDraftsOutput["input"],
+      ...(runKey && result.input && { inputs: { [runKey]: result.input as GenerationInput } }),
+      promptVersion: result.promptVersion,
+      ...(first?.briefId && result.brief && { briefs: { [first.briefId]: result.brief } }),
     };
 
     setData(prev => {
@@ -82,11 +100,23 @@ export default function Dashboard() {
       if (!prev) {
         newData = { drafts: [newDraftOutput], dates: [today] };
       } else {
-        // Replace today's drafts or add new
+        // Replace today's drafts from the same run (daily, a brief, a campaign or replies) and persona, or add new
         const existingIndex = prev.drafts.findIndex(d => d.date === today);
         if (existingIndex >= 0) {
+          const existing = prev.drafts[existingIndex];
           const newDrafts = [...prev.drafts];
-          newDrafts[existingIndex] = newDraftOutput;
+          newDrafts[existingIndex] = {
+            ...newDraftOutput,
+            drafts: [...result.drafts, ...existing.drafts.filter(d => draftRunKey(d) !== runKey)],
+            inputs: { ...existing.inputs, ...newDraftOutput.inputs },
+            briefs: { ...existing.briefs, ...newDraftOutput.briefs },
+            brief: existing.brief,
+            // Recap input spans its whole window and replies only carry their targets; keep the day's own scrape data
+            ...(first && draftGroup(first) !== "daily" && {
+              input: existing.input,
+              promptVersion: existing.promptVersion ?? result.promptVersion,
+            }),
+          };
           newData = { drafts: newDrafts, dates: prev.dates };
         } else {
           newData = {
@@ -101,10 +131,54 @@ export default function Dashboard() {
     });
   }, [saveToStorage]);
 
+  // Swap a variant group (new variants, or a pick) into the day its original belongs to
+  const handleVariants = useCallback((group: TweetDraft[]) => {
+    const groupId = group[0]?.variantGroup;
+    if (!groupId) return;
+    setUsageRefreshKey((key) => key + 1);
+
+    setData(prev => {
+      if (!prev) return prev;
+      const newData: DraftsResponse = {
+        ...prev,
+        drafts: prev.drafts.map(day => {
+          const index = day.drafts.findIndex(d => d.id === groupId);
+          if (index === -1) return day;
+          const rest = day.drafts.filter(d => d.id !== groupId && d.variantGroup !== groupId);
+          const at = day.drafts.slice(0, index).filter(d => d.variantGroup !== groupId).length;
+          return { ...day, drafts: [...rest.slice(0, at), ...group, ...rest.slice(at)] };
+        }),
+      };
+      saveToStorage(newData);
+      return newData;
+    });
+  }, [saveToStorage]);
+
   useEffect(() => {
     loadDrafts();
   }, [loadDrafts]);
 
+  // Reloaded after a refinement changes a profile's lint rules
+  const loadProfiles = useCallback(() => {
+    fetchVoiceProfiles()
+      .then((result) => {
+        setProfiles(result.profiles);
+        setProfileId((current) => current ?? result.defaultProfile);
+        setTweetMaxLength(result.tweetMaxLength);
+      })
+      .catch(() => setProfiles([]));
+  }, []);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  // Reply suggestions live in their own queue
+  const draftDays = (data?.drafts ?? [])
+    .map((day) => ({ ...day, drafts: day.drafts.filter((d) => !d.replyTo) }))
+    .filter((day) => day.drafts.length > 0);
+  const replyCount = data?.drafts.reduce((n, day) => n + day.drafts.filter((d) => d.replyTo).length, 0) ?? 0;
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -121,6 +195,7 @@ export default function Dashboard() {
               </div>
             </div>
             <div className="flex items-center gap-2">
+              <UsagePanel refreshKey={usageRefreshKey} />
               <Button variant="ghost" size="sm" onClick={clearCache} title="Clear cached drafts">
                 <Trash2 className="h-4 w-4" />
               </Button>
@@ -128,7 +203,27 @@ export default function Dashboard() {
                 <RefreshCw className={`mr-2 h-4 w-4 ${loading ? "animate-spin" : ""}`} />
                 Refresh
               </Button>
-              <GenerateButton onGenerated={handleGenerated} />
+              {profiles.length > 1 && (
+                <select
+                  value={profileId}
+                  onChange={(e) => setProfileId(e.target.value)}
+                  title="Voice profile to write as"
+                  className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+                >
+                  {profiles.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <Link href="/voice" className={buttonVariants({ variant: "outline" })} title="Samples, guidelines and prompt preview">
+                <AudioLines className="mr-2 h-4 w-4" />
+                Voice
+              </Link>
+              <RefinementDialog profileId={profileId} onApplied={loadProfiles} />
+              <BriefDialog onGenerated={handleGenerated} profileId={profileId} />
+              <GenerateButton onGenerated={handleGenerated} profileId={profileId} />
             </div>
           </div>
         </div>
@@ -143,6 +238,18 @@ export default function Dashboard() {
           </div>
         )}
 
+        {/* View Toggle */}
+        {data && data.drafts.length > 0 && (
+          <div className="flex gap-2 mb-6">
+            <Button variant={view === "drafts" ? "default" : "outline"} size="sm" onClick={() => setView("drafts")}>
+              Drafts
+            </Button>
+            <Button variant={view === "replies" ? "default" : "outline"} size="sm" onClick={() => setView("replies")}>
+              Replies ({replyCount})
+            </Button>
+          </div>
+        )}
+
         {/* Loading State */}
         {loading && !data && (
           <div className="flex items-center justify-center py-20">
@@ -161,14 +268,26 @@ export default function Dashboard() {
             <p className="text-muted-foreground mb-6">
               Generate your first batch of tweet drafts to get started
             </p>
-            <GenerateButton onGenerated={handleGenerated} />
+            <GenerateButton onGenerated={handleGenerated} profileId={profileId} />
           </div>
         )}
 
+        {/* Reply Queue */}
+        {data && data.drafts.length > 0 && view === "replies" && (
+          <ReplyQueue
+            days={data.drafts}
+            onSuggested={handleGenerated}
+            onUpdated={loadDrafts}
+            profileId={profileId}
+            profiles={profiles}
+            maxLength={tweetMaxLength}
+          />
+        )}
+
         {/* Drafts List */}
-        {data && data.drafts.length > 0 && (
+        {data && data.drafts.length > 0 && view === "drafts" && (
           <div className="space-y-8">
-            {data.drafts.map((dayData) => (
+            {draftDays.map((dayData) => (
               <section key={dayData.date}>
                 <div className="flex items-center gap-3 mb-4">
                   <h2 className="text-lg font-semibold">{formatDate(dayData.date)}</h2>
@@ -178,17 +297,42 @@ export default function Dashboard() {
                   <span className="text-xs text-muted-foreground">
                     Generated at {new Date(dayData.generatedAt).toLocaleTimeString()}
                   </span>
+                  {dayData.promptVersion && (
+                    <span className="text-xs text-muted-foreground">
+                      Prompts {dayData.promptVersion}
+                    </span>
+                  )}
                 </div>
+                {dayBriefs(dayData).map((brief, i) => (
+                  <p key={i} className="-mt-2 mb-4 text-sm text-muted-foreground">
+                    Brief: {brief.text || brief.urls?.join(", ")}
+                  </p>
+                ))}
 
                 <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                  {dayData.drafts.map((draft) => (
-                    <DraftCard
-                      key={draft.id}
-                      draft={draft}
-                      inputData={dayData.input}
-                      onUpdated={loadDrafts}
-                    />
-                  ))}
+                  {dayData.drafts.map((draft) =>
+                    !draft.variantGroup ? (
+                      <DraftCard
+                        key={draft.id}
+                        draft={draft}
+                        inputData={draftInput(dayData, draft)}
+                        onUpdated={loadDrafts}
+                        onVariants={handleVariants}
+                        profiles={profiles}
+                        maxLength={tweetMaxLength}
+                      />
+                    ) : draft.id === draft.variantGroup ? (
+                      <VariantGroup
+                        key={draft.id}
+                        drafts={dayData.drafts.filter((d) => d.variantGroup === draft.id)}
+                        inputData={draftInput(dayData, draft)}
+                        onUpdated={loadDrafts}
+                        onVariants={handleVariants}
+                        profiles={profiles}
+                        maxLength={tweetMaxLength}
+                      />
+                    ) : null
+                  )}
                 </div>
               </section>
             ))}
@@ -206,6 +350,13 @@ export default function Dashboard() {
   );
 }
 
+/** Briefs that still have drafts on the day; older day files kept one */
+function dayBriefs(day: TweetDraftsOutput): CustomBrief[] {
+  const briefIds = new Set(day.drafts.filter((d) => d.fromBrief).map((d) => d.briefId));
+  const briefs = Object.entries(day.briefs ?? {}).filter(([id]) => briefIds.has(id)).map(([, brief]) => brief);
+  return day.brief && briefIds.has(undefined) ? [day.brief, ...briefs] : briefs;
+}
+
 function formatDate(dateStr: string): string {
   const date = new Date(dateStr);
   const today = new Date();
@@ -0,0 +1,263 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, AudioLines, Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { VoiceSampleList } from "@/components/voice-sample-list";
+import { VoiceGuidelinesEditor } from "@/components/voice-guidelines-editor";
+import { RefinementDialog } from "@/components/refinement-dialog";
+import {
+  fetchVoiceProfile,
+  fetchVoiceProfiles,
+  rebuildVoiceProfile,
+  updateVoiceProfile,
+} from "@/lib/api";
+import { describeFingerprint, profileFingerprint } from "@/src/voice/fingerprint";
+import type { VoiceProfile, VoiceProfileSummary, VoiceProfileUpdate } from "@/src/types";
+
+/** Measured style flags shown read-only; a rebuild sets them */
+const GUIDELINE_FLAGS = [
+  ["usesEmojis", "Emojis"],
+  ["usesHashtags", "Hashtags"],
+  ["usesThreads", "Threads"],
+  ["dataFirst", "Data-first"],
+  ["includesHumor", "Humor"],
+  ["asksQuestions", "Questions"],
+  ["usesCTA", "Calls to action"],
+] as const;
+
+export default function VoicePage() {
+  const [profiles, setProfiles] = useState<VoiceProfileSummary[]>([]);
+  const [profileId, setProfileId] = useState<string | undefined>();
+  const [profile, setProfile] = useState<VoiceProfile | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [rebuilding, setRebuilding] = useState(false);
+  const [fullRebuild, setFullRebuild] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchVoiceProfiles()
+      .then((result) => {
+        setProfiles(result.profiles);
+        setProfileId((current) => current ?? result.defaultProfile);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load voice profiles"));
+  }, []);
+
+  const loadProfile = useCallback(async () => {
+    if (!profileId) return;
+    setError(null);
+    try {
+      setProfile((await fetchVoiceProfile(profileId)).profile);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load voice profile");
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  const handleUpdate = async (update: VoiceProfileUpdate) => {
+    if (!profile) return;
+    setSaving(true);
+    setError(null);
+    try {
+      setProfile((await updateVoiceProfile(profile.id, update)).profile);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update voice profile");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRebuild = async () => {
+    if (!profile) return;
+    setRebuilding(true);
+    setError(null);
+    try {
+      setProfile((await rebuildVoiceProfile(profile.id, fullRebuild)).profile);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to rebuild voice profile");
+    } finally {
+      setRebuilding(false);
+    }
+  };
+
+  const fingerprint = profile && profileFingerprint(profile);
+  const stats = profile?.stats;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Link href="/" title="Back to drafts">
+                <ArrowLeft className="h-5 w-5 text-muted-foreground" />
+              </Link>
+              <AudioLines className="h-8 w-8 text-red-500" />
+              <div>
+                <h1 className="text-xl font-bold">Voice Profile</h1>
+                <p className="text-sm text-muted-foreground">
+                  {profile
+                    ? `@${profile.handle} · version ${profile.version}${profile.updatedAt ? ` · saved ${new Date(profile.updatedAt).toLocaleString()}` : ""}`
+                    : "Curate the voice drafts are written in"}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              {profiles.length > 1 && (
+                <select
+                  value={profileId}
+                  onChange={(e) => setProfileId(e.target.value)}
+                  title="Voice profile"
+                  className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+                >
+                  {profiles.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <RefinementDialog profileId={profileId} onApplied={loadProfile} />
+              <label className="flex items-center gap-2 text-sm text-muted-foreground" title="Refetch every tweet instead of only new ones">
+                <input type="checkbox" checked={fullRebuild} onChange={(e) => setFullRebuild(e.target.checked)} />
+                Full
+              </label>
+              <Button onClick={handleRebuild} disabled={!profile || rebuilding}>
+                {rebuilding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                Rebuild
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {error && (
+          <div className="p-4 bg-destructive/10 text-destructive rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {!profile && !error && (
+          <div className="flex items-center justify-center py-20">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {profile && (
+          <>
+            <div className="grid gap-6 md:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Stats</CardTitle>
+                  <CardDescription>
+                    {stats ? `From the last rebuild over ${stats.totalTweets} tweets` : "Not built from tweets yet"}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4 text-sm">
+                  {stats && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <Stat label="Average length" value={`${stats.avgLength} chars`} />
+                      <Stat label="Average likes" value={stats.avgLikes} />
+                      <Stat label="Average retweets" value={stats.avgRetweets} />
+                      <Stat label="Samples" value={profile.samples.length} />
+                    </div>
+                  )}
+                  {stats && stats.topTopics.length > 0 && (
+                    <p className="text-muted-foreground">Top topics: {stats.topTopics.slice(0, 10).join(", ")}</p>
+                  )}
+                  {fingerprint && (
+                    <div className="space-y-1">
+                      <p className="font-medium">Writing habits ({fingerprint.tweetCount} tweets)</p>
+                      <ul className="list-disc pl-5 text-muted-foreground">
+                        {describeFingerprint(fingerprint).map((line) => (
+                          <li key={line}>{line}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Guidelines</CardTitle>
+                  <CardDescription>Measured on rebuild: {profile.style.join(", ") || "no style set"}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  <p>
+                    Emoji frequency: <span className="text-muted-foreground">{profile.guidelines.emojiFrequency}</span>
+                  </p>
+                  <p>
+                    Average length: <span className="text-muted-foreground">{profile.guidelines.averageLength}</span>
+                  </p>
+                  <div className="flex flex-wrap gap-2 pt-2">
+                    {GUIDELINE_FLAGS.map(([key, label]) => (
+                      <span
+                        key={key}
+                        className={`rounded-full border px-2.5 py-0.5 text-xs ${profile.guidelines[key] ? "" : "text-muted-foreground line-through"}`}
+                      >
+                        {label}
+                      </span>
+                    ))}
+                  </div>
+                  {profile.excludedSamples && profile.excludedSamples.length > 0 && (
+                    <p className="pt-2 text-xs text-muted-foreground">
+                      {profile.excludedSamples.length} excluded sample{profile.excludedSamples.length === 1 ? "" : "s"} won&apos;t be picked again
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Words and terms</CardTitle>
+                <CardDescription>Kept through rebuilds; used by the prompt and the draft linter</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <VoiceGuidelinesEditor
+                  profileId={profile.id}
+                  guidelines={profile.guidelines}
+                  busy={saving}
+                  onSave={handleUpdate}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Samples</CardTitle>
+                <CardDescription>The example tweets the prompt shows, best first</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <VoiceSampleList
+                  samples={profile.samples}
+                  busy={saving}
+                  onPin={(text, pinned) => handleUpdate(pinned ? { pin: [text] } : { unpin: [text] })}
+                  onExclude={(text) => handleUpdate({ exclude: [text] })}
+                />
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="rounded-lg bg-muted/50 p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="font-semibold">{value}</p>
+    </div>
+  );
+}
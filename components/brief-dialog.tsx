@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { GenerationProgress } from "@/components/generation-progress";
+import { streamGenerateDrafts, GenerateResponse } from "@/lib/api";
+import { FileText } from "lucide-react";
+import type { GenerationProgressEvent } from "@/src/types";
+
+interface BriefDialogProps {
+  onGenerated: (data: GenerateResponse) => void;
+  /** Voice profile to write as; the default when omitted */
+  profileId?: string;
+}
+
+/**
+ * "Write about this": free text and/or article URLs, optionally with
+ * today's scraped data as background
+ */
+export function BriefDialog({ onGenerated, profileId }: BriefDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [urls, setUrls] = useState("");
+  const [withContext, setWithContext] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [events, setEvents] = useState<GenerationProgressEvent[]>([]);
+  const [progressOpen, setProgressOpen] = useState(false);
+
+  const urlList = urls.split(/\s+/).filter(Boolean);
+  const canSubmit = text.trim().length > 0 || urlList.length > 0;
+
+  const handleGenerate = async () => {
+    setOpen(false);
+    setLoading(true);
+    setEvents([]);
+    setProgressOpen(true);
+    try {
+      const result = await streamGenerateDrafts(
+        {
+          brief: { text: text.trim() || undefined, urls: urlList },
+          scrapeFirst: withContext,
+          profileId,
+        },
+        (event) => setEvents((prev) => [...prev, event])
+      );
+      onGenerated(result);
+      setText("");
+      setUrls("");
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to generate";
+      // Requests rejected before streaming (e.g. an invalid URL) never sent an error event
+      setEvents((prev) =>
+        prev.some((event) => event.type === "error") ? prev : [...prev, { type: "error", message }]
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)} disabled={loading}>
+        <FileText className="mr-2 h-4 w-4" />
+        Custom Brief
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              Custom Brief
+            </DialogTitle>
+            <DialogDescription>
+              Tell it what to write about. Linked articles are fetched and used as the source.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">What should the drafts be about?</label>
+              <Textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder="e.g., We just shipped the new staking dashboard - focus on how much faster it is"
+                className="min-h-[80px]"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Article URLs (one per line, optional):</label>
+              <Textarea
+                value={urls}
+                onChange={(e) => setUrls(e.target.value)}
+                placeholder="https://..."
+                className="min-h-[60px] font-mono text-xs"
+              />
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={withContext}
+                onChange={(e) => setWithContext(e.target.checked)}
+              />
+              Also scrape today&apos;s news, tweets and on-chain data as background
+            </label>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleGenerate} disabled={!canSubmit}>
+              Generate from Brief
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <GenerationProgress
+        open={progressOpen}
+        onOpenChange={setProgressOpen}
+        events={events}
+        running={loading}
+      />
+    </>
+  );
+}
@@ -5,11 +5,17 @@ import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { SourcePanel } from "@/components/source-panel";
+import { PipelinePanel } from "@/components/pipeline-panel";
+import { LintWarnings } from "@/components/lint-warnings";
 import { DraftEditor } from "@/components/draft-editor";
+import { ThreadEditor } from "@/components/thread-editor";
 import { ReviseDialog } from "@/components/revise-dialog";
-import { updateDraft } from "@/lib/api";
-import { Pencil, Sparkles, Newspaper, Twitter, BarChart3, Blend, AlertTriangle } from "lucide-react";
-import type { TweetDraft, NewsItem, TwitterPost, OnchainData } from "@/src/types";
+import { updateDraft, updateThreadPosts, generateVariants } from "@/lib/api";
+import { weightedLength, lintDraft, lintRulesFromGuidelines, TWEET_MAX_WEIGHTED_LENGTH } from "@/src/lib/tweet-text";
+import { DEFAULT_GUIDELINES } from "@/src/voice/guidelines";
+import { scoreVoiceDistance } from "@/src/voice/fingerprint";
+import { Pencil, Sparkles, Newspaper, Twitter, BarChart3, Blend, AlertTriangle, ListOrdered, Copy, Reply, Quote, ExternalLink, Split, Loader2, Fingerprint } from "lucide-react";
+import type { CampaignPresetName, VariantAngle, TweetDraft, NewsItem, TwitterPost, OnchainData, VoiceProfileSummary } from "@/src/types";
 
 interface DraftCardProps {
   draft: TweetDraft;
@@ -19,6 +25,12 @@ interface DraftCardProps {
     onchainData?: OnchainData;
   };
   onUpdated: () => void;
+  /** Shows the "Variants" action; called with the draft's whole variant group */
+  onVariants?: (drafts: TweetDraft[]) => void;
+  /** Every voice profile: the draft's own lints it, and is badged when there's more than one */
+  profiles?: VoiceProfileSummary[];
+  /** Configured weighted length per tweet; the platform limit when omitted */
+  maxLength?: number;
 }
 
 const sourceIcons = {
@@ -35,12 +47,51 @@ const sourceBadgeVariants = {
   mixed: "mixed" as const,
 };
 
-export function DraftCard({ draft, inputData, onUpdated }: DraftCardProps) {
+const CAMPAIGN_LABELS: Record<CampaignPresetName, string> = {
+  daily: "Daily",
+  "weekly-recap": "Weekly recap",
+  "monthly-report": "Monthly report",
+};
+
+const VARIANT_ANGLE_LABELS: Record<VariantAngle, string> = {
+  hook: "New hook",
+  "data-first": "Data first",
+  "story-first": "Story first",
+  question: "With question",
+  "no-question": "No question",
+};
+
+export function DraftCard({
+  draft,
+  inputData,
+  onUpdated,
+  onVariants,
+  profiles = [],
+  maxLength = TWEET_MAX_WEIGHTED_LENGTH,
+}: DraftCardProps) {
   const [editOpen, setEditOpen] = useState(false);
   const [reviseOpen, setReviseOpen] = useState(false);
+  const [variantsLoading, setVariantsLoading] = useState(false);
+  const [variantsError, setVariantsError] = useState<string | null>(null);
   const [localContent, setLocalContent] = useState(draft.content);
+  const [localPosts, setLocalPosts] = useState(draft.posts || []);
 
   const SourceIcon = sourceIcons[draft.source];
+  const isThread = draft.format === "thread";
+  const profile = profiles.find((p) => p.id === (draft.profileId ?? "default"));
+  const lintRules = lintRulesFromGuidelines(profile?.guidelines ?? DEFAULT_GUIDELINES, maxLength);
+  // Re-lint locally so edits are reflected immediately
+  const violations = lintDraft({ content: localContent, format: draft.format, posts: localPosts }, lintRules);
+  const voiceDistance = profile?.fingerprint
+    ? scoreVoiceDistance({ content: localContent, format: draft.format, posts: localPosts }, profile.fingerprint)
+    : draft.voiceDistance;
+
+  const handleSaveThread = async (posts: string[]) => {
+    await updateThreadPosts(draft.id, posts);
+    setLocalPosts(posts);
+    setLocalContent(posts[0]);
+    onUpdated();
+  };
 
   const handleSave = async (content: string) => {
     await updateDraft(draft.id, content);
@@ -49,11 +100,25 @@ export function DraftCard({ draft, inputData, onUpdated }: DraftCardProps) {
   };
 
   const handleReviseAccept = async (newContent: string) => {
-    await updateDraft(draft.id, newContent);
+    await updateDraft(draft.id, newContent, "revision");
     setLocalContent(newContent);
     onUpdated();
   };
 
+  const handleVariants = async () => {
+    if (!onVariants) return;
+    setVariantsLoading(true);
+    setVariantsError(null);
+    try {
+      const result = await generateVariants(draft.id);
+      onVariants(result.drafts);
+    } catch (err) {
+      setVariantsError(err instanceof Error ? err.message : "Failed to generate variants");
+    } finally {
+      setVariantsLoading(false);
+    }
+  };
+
   const confidenceColor =
     draft.confidence >= 0.85
       ? "text-green-600"
@@ -66,13 +131,46 @@ export function DraftCard({ draft, inputData, onUpdated }: DraftCardProps) {
       <Card className="overflow-hidden">
         <CardHeader className="pb-3">
           <div className="flex items-center justify-between">
-            <Badge variant={sourceBadgeVariants[draft.source]} className="gap-1">
-              <SourceIcon className="h-3 w-3" />
-              {draft.source}
-            </Badge>
-            <span className="text-xs text-muted-foreground">
-              {localContent.length} / 280 chars
-            </span>
+            <div className="flex items-center gap-2">
+              <Badge variant={sourceBadgeVariants[draft.source]} className="gap-1">
+                <SourceIcon className="h-3 w-3" />
+                {draft.source}
+              </Badge>
+              {draft.campaign && (
+                <Badge variant="outline">{CAMPAIGN_LABELS[draft.campaign]}</Badge>
+              )}
+              {draft.fromBrief && <Badge variant="outline">Brief</Badge>}
+              {profile && profiles.length > 1 && (
+                <Badge variant="outline" title={profile.name}>
+                  @{profile.handle}
+                </Badge>
+              )}
+              {draft.replyTo && (
+                <Badge variant="outline" className="gap-1">
+                  {draft.replyTo.kind === "reply" ? <Reply className="h-3 w-3" /> : <Quote className="h-3 w-3" />}
+                  {draft.replyTo.kind === "reply" ? "Reply" : "Quote"}
+                </Badge>
+              )}
+              {draft.variantGroup && (
+                <Badge variant="outline">
+                  {draft.variantAngle ? VARIANT_ANGLE_LABELS[draft.variantAngle] : "Original"}
+                </Badge>
+              )}
+            </div>
+            {isThread ? (
+              <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                <ListOrdered className="h-3 w-3" />
+                Thread &middot; {localPosts.length} posts
+              </span>
+            ) : (
+              <span
+                className={`text-xs ${
+                  weightedLength(localContent) > maxLength ? "text-destructive" : "text-muted-foreground"
+                }`}
+              >
+                {weightedLength(localContent)} / {maxLength} chars
+              </span>
+            )}
           </div>
         </CardHeader>
 
@@ -85,10 +183,96 @@ export function DraftCard({ draft, inputData, onUpdated }: DraftCardProps) {
             </div>
           )}
 
+          {/* The tweet this replies to or quotes */}
+          {draft.replyTo && (
+            <div className="p-3 border rounded-lg text-xs space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-muted-foreground">
+                  {draft.replyTo.kind === "reply" ? "Replying to" : "Quoting"} @{draft.replyTo.authorHandle}
+                </span>
+                <a
+                  href={draft.replyTo.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1 text-muted-foreground hover:text-foreground"
+                >
+                  Open on X
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              </div>
+              <p className="text-muted-foreground whitespace-pre-wrap">{draft.replyTo.content}</p>
+            </div>
+          )}
+
           {/* Tweet Content */}
-          <div className="p-4 bg-muted/50 rounded-lg">
-            <p className="whitespace-pre-wrap text-sm leading-relaxed">{localContent}</p>
-          </div>
+          {isThread ? (
+            <ol className="space-y-2">
+              {localPosts.map((post, i) => (
+                <li key={i} className="p-3 bg-muted/50 rounded-lg">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-xs font-medium text-muted-foreground">
+                      {i + 1}/{localPosts.length}
+                    </span>
+                    <span
+                      className={`text-xs ${
+                        weightedLength(post) > maxLength ? "text-destructive" : "text-muted-foreground"
+                      }`}
+                    >
+                      {weightedLength(post)} / {maxLength}
+                    </span>
+                  </div>
+                  <p className="whitespace-pre-wrap text-sm leading-relaxed">{post}</p>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <div className="p-4 bg-muted/50 rounded-lg">
+              <p className="whitespace-pre-wrap text-sm leading-relaxed">{localContent}</p>
+            </div>
+          )}
+
+          {/* Style / Length Violations */}
+          <LintWarnings violations={violations} />
+
+          {/* Repeats a recent draft or posted tweet */}
+          {draft.duplicateOf && (
+            <div
+              className="flex items-start gap-2 p-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-800"
+              title={draft.duplicateOf.entry.text}
+            >
+              <Copy className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              <span>
+                {Math.round(draft.duplicateOf.score * 100)}% similar to{" "}
+                {draft.duplicateOf.entry.source === "posted"
+                  ? "one of our posted tweets"
+                  : `a draft from ${draft.duplicateOf.entry.date}`}
+                : &quot;{draft.duplicateOf.entry.text.slice(0, 100)}
+                {draft.duplicateOf.entry.text.length > 100 ? "..." : ""}&quot;
+              </span>
+            </div>
+          )}
+
+          {/* Distance from the profile's measured writing habits */}
+          {voiceDistance && (
+            <div className="flex items-start gap-2 text-xs text-muted-foreground">
+              <Fingerprint className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              <span>
+                Voice distance:{" "}
+                <span
+                  className={`font-mono ${
+                    voiceDistance.distance <= 0.25
+                      ? "text-green-600"
+                      : voiceDistance.distance <= 0.45
+                      ? "text-amber-600"
+                      : "text-red-600"
+                  }`}
+                >
+                  {Math.round(voiceDistance.distance * 100)}%
+                </span>
+                {voiceDistance.deviations.length > 0 && ` - ${voiceDistance.deviations.join("; ")}`}
+              </span>
+            </div>
+          )}
 
           {/* Context */}
           <div>
@@ -116,33 +300,70 @@ export function DraftCard({ draft, inputData, onUpdated }: DraftCardProps) {
             </div>
           </div>
 
-          {/* Source Data Panel - only show relevant sources for this draft's type */}
-          <SourcePanel
-            news={draft.source === "news" || draft.source === "mixed" ? inputData?.news : undefined}
-            tweets={draft.source === "twitter" || draft.source === "mixed" ? inputData?.tweets : undefined}
-            onchainData={draft.source === "onchain" || draft.source === "mixed" ? inputData?.onchainData : undefined}
-            metadata={draft.metadata}
-          />
+          {/* Pipeline Stages - initial draft, expert panel, voice rewrite */}
+          <PipelinePanel pipeline={draft.pipeline} />
+
+          {/* Source Data Panel - the exact items the draft cites, or a best guess for older drafts */}
+          {draft.sourceData ? (
+            <SourcePanel
+              news={draft.sourceData.news}
+              tweets={draft.sourceData.tweets}
+              onchainData={draft.sourceData.onchainData}
+              factCheck={draft.factCheck}
+            />
+          ) : (
+            <SourcePanel
+              news={draft.source === "news" || draft.source === "mixed" ? inputData?.news : undefined}
+              tweets={draft.source === "twitter" || draft.source === "mixed" ? inputData?.tweets : undefined}
+              onchainData={draft.source === "onchain" || draft.source === "mixed" ? inputData?.onchainData : undefined}
+              metadata={draft.metadata}
+              factCheck={draft.factCheck}
+            />
+          )}
         </CardContent>
 
         <CardFooter className="gap-2 border-t pt-4">
           <Button variant="outline" size="sm" onClick={() => setEditOpen(true)}>
             <Pencil className="mr-1 h-3 w-3" />
-            Edit
-          </Button>
-          <Button variant="outline" size="sm" onClick={() => setReviseOpen(true)}>
-            <Sparkles className="mr-1 h-3 w-3" />
-            Ask AI to Revise
+            {isThread ? "Edit Thread" : "Edit"}
           </Button>
+          {!isThread && (
+            <Button variant="outline" size="sm" onClick={() => setReviseOpen(true)}>
+              <Sparkles className="mr-1 h-3 w-3" />
+              Ask AI to Revise
+            </Button>
+          )}
+          {onVariants && (
+            <Button variant="outline" size="sm" onClick={handleVariants} disabled={variantsLoading}>
+              {variantsLoading ? (
+                <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+              ) : (
+                <Split className="mr-1 h-3 w-3" />
+              )}
+              Variants
+            </Button>
+          )}
+          {variantsError && <span className="text-xs text-destructive">{variantsError}</span>}
         </CardFooter>
       </Card>
 
-      <DraftEditor
-        open={editOpen}
-        onOpenChange={setEditOpen}
-        content={localContent}
-        onSave={handleSave}
-      />
+      {isThread ? (
+        <ThreadEditor
+          open={editOpen}
+          onOpenChange={setEditOpen}
+          posts={localPosts}
+          onSave={handleSaveThread}
+          lintRules={lintRules}
+        />
+      ) : (
+        <DraftEditor
+          open={editOpen}
+          onOpenChange={setEditOpen}
+          content={localContent}
+          onSave={handleSave}
+          lintRules={lintRules}
+        />
+      )}
 
       <ReviseDialog
         open={reviseOpen}
@@ -150,6 +371,8 @@ export function DraftCard({ draft, inputData, onUpdated }: DraftCardProps) {
         draftId={draft.id}
         originalContent={localContent}
         onAccept={handleReviseAccept}
+        profileId={draft.profileId}
+        lintRules={lintRules}
       />
     </>
   );
@@ -10,22 +10,30 @@ import {
   DialogTitle,
   DialogFooter,
 } from "@/components/ui/dialog";
+import { LintWarnings } from "@/components/lint-warnings";
+import { weightedLength, lintText, lintRulesFromGuidelines } from "@/src/lib/tweet-text";
+import { DEFAULT_GUIDELINES } from "@/src/voice/guidelines";
+import type { LintRules } from "@/src/types";
 
 interface DraftEditorProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   content: string;
   onSave: (content: string) => Promise<void>;
+  /** The draft's voice profile rules and length limit; the built-in guidelines when omitted */
+  lintRules?: LintRules;
 }
 
-const MAX_LENGTH = 280;
+const defaultLintRules = lintRulesFromGuidelines(DEFAULT_GUIDELINES);
 
-export function DraftEditor({ open, onOpenChange, content, onSave }: DraftEditorProps) {
+export function DraftEditor({ open, onOpenChange, content, onSave, lintRules = defaultLintRules }: DraftEditorProps) {
   const [editedContent, setEditedContent] = useState(content);
   const [saving, setSaving] = useState(false);
 
-  const charCount = editedContent.length;
-  const isOverLimit = charCount > MAX_LENGTH;
+  const charCount = weightedLength(editedContent);
+  const isOverLimit = charCount > lintRules.maxLength;
+  // Length is already shown in the counter
+  const violations = lintText(editedContent, lintRules).filter((v) => v.rule !== "length");
 
   const handleSave = async () => {
     if (isOverLimit) return;
@@ -53,15 +61,17 @@ export function DraftEditor({ open, onOpenChange, content, onSave }: DraftEditor
           />
           <div className="flex justify-between items-center text-sm">
             <span className={isOverLimit ? "text-destructive font-medium" : "text-muted-foreground"}>
-              {charCount} / {MAX_LENGTH}
+              {charCount} / {lintRules.maxLength}
             </span>
             {isOverLimit && (
               <span className="text-destructive text-xs">
-                {charCount - MAX_LENGTH} characters over limit
+                {charCount - lintRules.maxLength} characters over limit
               </span>
             )}
           </div>
 
+          <LintWarnings violations={violations} />
+
           {/* Preview */}
           <div className="border rounded-lg p-4 bg-muted/30">
             <p className="text-xs text-muted-foreground mb-2">Preview:</p>
@@ -1,27 +1,52 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Sparkles, Loader2 } from "lucide-react";
-import { generateDrafts, GenerateResponse } from "@/lib/api";
+import { GenerationProgress } from "@/components/generation-progress";
+import { fetchCampaigns, streamGenerateDrafts, CampaignsResponse, GenerateResponse } from "@/lib/api";
+import type { CampaignPresetName, GenerationProgressEvent } from "@/src/types";
 
 interface GenerateButtonProps {
   onGenerated: (data: GenerateResponse) => void;
+  /** Voice profile to write as; the default when omitted */
+  profileId?: string;
 }
 
-export function GenerateButton({ onGenerated }: GenerateButtonProps) {
+export function GenerateButton({ onGenerated, profileId }: GenerateButtonProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [events, setEvents] = useState<GenerationProgressEvent[]>([]);
+  const [progressOpen, setProgressOpen] = useState(false);
+  const [presets, setPresets] = useState<CampaignsResponse["presets"]>([]);
+  const [preset, setPreset] = useState<CampaignPresetName>("daily");
+
+  useEffect(() => {
+    fetchCampaigns()
+      .then((data) => setPresets(data.presets))
+      .catch(() => setPresets([]));
+  }, []);
+
+  const selected = presets.find((p) => p.name === preset);
 
   const handleGenerate = async () => {
     setLoading(true);
     setError(null);
+    setEvents([]);
+    setProgressOpen(true);
     try {
       // Generate with scrapeFirst to get real data
-      const result = await generateDrafts({ scrapeFirst: true });
+      const result = await streamGenerateDrafts({ scrapeFirst: true, preset, profileId }, (event) =>
+        setEvents((prev) => [...prev, event])
+      );
       onGenerated(result);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to generate");
+      const message = err instanceof Error ? err.message : "Failed to generate";
+      setError(message);
+      // Requests rejected before streaming (e.g. over budget) never sent an error event
+      setEvents((prev) =>
+        prev.some((event) => event.type === "error") ? prev : [...prev, { type: "error", message }]
+      );
     } finally {
       setLoading(false);
     }
@@ -32,6 +57,21 @@ export function GenerateButton({ onGenerated }: GenerateButtonProps) {
       {error && (
         <span className="text-sm text-destructive">{error}</span>
       )}
+      {presets.length > 1 && (
+        <select
+          value={preset}
+          onChange={(e) => setPreset(e.target.value as CampaignPresetName)}
+          disabled={loading}
+          title={selected ? `${selected.description} (${selected.window.label})` : undefined}
+          className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+        >
+          {presets.map((p) => (
+            <option key={p.name} value={p.name}>
+              {p.name === "daily" ? p.label : `${p.label} · ${p.window.label}`}
+            </option>
+          ))}
+        </select>
+      )}
       <Button onClick={handleGenerate} disabled={loading}>
         {loading ? (
           <>
@@ -41,10 +81,16 @@ export function GenerateButton({ onGenerated }: GenerateButtonProps) {
         ) : (
           <>
             <Sparkles className="mr-2 h-4 w-4" />
-            Generate New Drafts
+            {preset === "daily" ? "Generate New Drafts" : `Generate ${selected?.label ?? "Recap"}`}
           </>
         )}
       </Button>
+      <GenerationProgress
+        open={progressOpen}
+        onOpenChange={setProgressOpen}
+        events={events}
+        running={loading}
+      />
     </div>
   );
 }
@@ -0,0 +1,161 @@
+"use client";
+
+import { CheckCircle2, Circle, Loader2, XCircle } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type {
+  GenerationMode,
+  GenerationProgressEvent,
+  PipelineStage,
+  ScrapeSourceName,
+} from "@/src/types";
+
+interface GenerationProgressProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  events: GenerationProgressEvent[];
+  /** False once the stream has finished, successfully or not */
+  running: boolean;
+}
+
+type StepStatus = "pending" | "running" | "done" | "failed";
+
+const SOURCE_LABELS: Record<ScrapeSourceName, string> = {
+  twitter: "Twitter",
+  news: "News",
+  onchain: "On-chain",
+  brief: "Brief URLs",
+};
+
+const STAGE_LABELS: Record<PipelineStage, string> = {
+  draft: "Draft",
+  critique: "Expert panel",
+  rewrite: "Rewrite",
+};
+
+export function GenerationProgress({ open, onOpenChange, events, running }: GenerationProgressProps) {
+  const scrapes = new Map<ScrapeSourceName, { status: StepStatus; detail?: string }>();
+  const stages = new Map<string, { mode: GenerationMode; stage: PipelineStage; status: StepStatus; detail?: string }>();
+  const drafts: string[] = [];
+  let error: string | undefined;
+
+  for (const event of events) {
+    switch (event.type) {
+      case "scrape:start":
+        scrapes.set(event.source, { status: "running" });
+        break;
+      case "scrape:done":
+        scrapes.set(event.source, {
+          status: event.error ? "failed" : "done",
+          detail: event.error || `${event.count} item${event.count === 1 ? "" : "s"}`,
+        });
+        break;
+      case "generate:start":
+        for (const mode of event.modes) {
+          for (const stage of event.stages) {
+            stages.set(`${mode}:${stage}`, { mode, stage, status: "pending" });
+          }
+        }
+        break;
+      case "stage:start":
+        stages.set(`${event.mode}:${event.stage}`, { mode: event.mode, stage: event.stage, status: "running" });
+        break;
+      case "stage:done":
+        stages.set(`${event.mode}:${event.stage}`, {
+          mode: event.mode,
+          stage: event.stage,
+          status: "done",
+          detail: `${event.tokensUsed.toLocaleString()} tokens`,
+        });
+        break;
+      case "draft":
+        drafts.push(event.draft.posts?.[0] ?? event.draft.content);
+        break;
+      case "error":
+        error = event.message;
+        break;
+    }
+  }
+
+  // Whatever was in flight when the run died didn't finish
+  if (!running && error) {
+    for (const step of [...scrapes.values(), ...stages.values()]) {
+      if (step.status === "running") step.status = "failed";
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !running && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{running ? "Generating drafts..." : error ? "Generation failed" : "Drafts ready"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2 text-sm">
+          {scrapes.size > 0 && (
+            <div>
+              <h4 className="font-medium mb-2">Scraping</h4>
+              <ul className="space-y-1">
+                {[...scrapes].map(([source, step]) => (
+                  <StepRow key={source} label={SOURCE_LABELS[source]} status={step.status} detail={step.detail} />
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {stages.size > 0 && (
+            <div>
+              <h4 className="font-medium mb-2">Generating</h4>
+              <ul className="space-y-1">
+                {[...stages.values()].map((step) => (
+                  <StepRow
+                    key={`${step.mode}:${step.stage}`}
+                    label={`${step.mode === "thread" ? "Thread" : "Tweets"} · ${STAGE_LABELS[step.stage]}`}
+                    status={step.status}
+                    detail={step.detail}
+                  />
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {drafts.length > 0 && (
+            <div>
+              <h4 className="font-medium mb-2">Drafts ({drafts.length})</h4>
+              <ul className="space-y-2">
+                {drafts.map((text, i) => (
+                  <li key={i} className="bg-muted/50 rounded p-2 text-xs whitespace-pre-wrap">
+                    {text}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {error && <p className="text-destructive">{error}</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function StepRow({ label, status, detail }: { label: string; status: StepStatus; detail?: string }) {
+  return (
+    <li className="flex items-center gap-2">
+      {status === "running" && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      {status === "done" && <CheckCircle2 className="h-4 w-4 text-green-600" />}
+      {status === "failed" && <XCircle className="h-4 w-4 text-destructive" />}
+      {status === "pending" && <Circle className="h-4 w-4 text-muted-foreground" />}
+      <span>{label}</span>
+      {detail && (
+        <span className={`ml-auto text-xs ${status === "failed" ? "text-destructive" : "text-muted-foreground"}`}>
+          {detail}
+        </span>
+      )}
+    </li>
+  );
+}
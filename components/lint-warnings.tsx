@@ -0,0 +1,28 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import type { LintViolation } from "@/src/types";
+
+interface LintWarningsProps {
+  violations: LintViolation[];
+}
+
+export function LintWarnings({ violations }: LintWarningsProps) {
+  if (violations.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="space-y-1 p-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-800">
+      {violations.map((v, i) => (
+        <li key={i} className="flex items-start gap-2">
+          <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+          <span>
+            {v.post !== undefined && <span className="font-medium">Post {v.post + 1}: </span>}
+            {v.message}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
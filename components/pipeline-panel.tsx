@@ -0,0 +1,121 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ChevronUp, Gavel, PenLine, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { DraftPipelineTrace, DraftSnapshot } from "@/src/types";
+
+interface PipelinePanelProps {
+  pipeline?: DraftPipelineTrace;
+}
+
+export function PipelinePanel({ pipeline }: PipelinePanelProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  // Nothing to show for single-stage runs or drafts saved before the pipeline existed
+  if (!pipeline || pipeline.stages.length <= 1) {
+    return null;
+  }
+
+  const { critique, rewrite, initial } = pipeline;
+
+  return (
+    <div className="space-y-2">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full justify-between"
+      >
+        <span className="flex items-center gap-2">
+          {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          Pipeline
+        </span>
+        <span className="text-xs text-muted-foreground">
+          {pipeline.stages.join(" → ")}
+          {critique && ` · panel ${critique.averageScore}/10`}
+        </span>
+      </Button>
+
+      {expanded && (
+        <div className="border rounded-md p-4 space-y-4 bg-muted/50">
+          {/* Initial Draft */}
+          <div>
+            <h4 className="flex items-center gap-2 font-medium text-sm mb-2">
+              <FileText className="h-4 w-4 text-muted-foreground" />
+              Initial Draft
+            </h4>
+            <SnapshotText snapshot={initial} />
+          </div>
+
+          {/* Expert Panel */}
+          {critique && (
+            <div>
+              <h4 className="flex items-center gap-2 font-medium text-sm mb-2">
+                <Gavel className="h-4 w-4 text-amber-600" />
+                Expert Panel &middot; {critique.averageScore}/10
+              </h4>
+              {critique.summary && (
+                <p className="text-sm text-muted-foreground mb-2">{critique.summary}</p>
+              )}
+              <ul className="space-y-1">
+                {critique.scores.map((s) => (
+                  <li key={s.expert} className="text-xs flex gap-2">
+                    <span
+                      className={`font-mono w-10 flex-shrink-0 ${
+                        s.score >= 8 ? "text-green-600" : s.score >= 6 ? "text-amber-600" : "text-red-600"
+                      }`}
+                    >
+                      {s.score}/10
+                    </span>
+                    <span>
+                      <span className="font-medium">{s.expert}:</span>{" "}
+                      <span className="text-muted-foreground">{s.feedback}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              {critique.suggestions.length > 0 && (
+                <ul className="mt-2 list-disc pl-5 text-xs text-muted-foreground">
+                  {critique.suggestions.map((suggestion, i) => (
+                    <li key={i}>{suggestion}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {/* Voice Rewrite */}
+          {rewrite && (
+            <div>
+              <h4 className="flex items-center gap-2 font-medium text-sm mb-2">
+                <PenLine className="h-4 w-4 text-green-600" />
+                Voice Rewrite
+              </h4>
+              {rewrite.notes && (
+                <p className="text-xs text-muted-foreground mb-2">{rewrite.notes}</p>
+              )}
+              <SnapshotText snapshot={rewrite} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SnapshotText({ snapshot }: { snapshot: DraftSnapshot }) {
+  if (snapshot.posts) {
+    return (
+      <ol className="space-y-1 text-sm">
+        {snapshot.posts.map((post, i) => (
+          <li key={i} className="whitespace-pre-wrap bg-background rounded p-2">
+            <span className="text-xs text-muted-foreground mr-1">{i + 1}/</span>
+            {post}
+          </li>
+        ))}
+      </ol>
+    );
+  }
+  return <p className="whitespace-pre-wrap text-sm bg-background rounded p-2">{snapshot.content}</p>;
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { fetchRefinement, runRefinement, reviewRefinement } from "@/lib/api";
+import { Loader2, RefreshCw, Wand2 } from "lucide-react";
+import type { ProfileRefinement, RefinementKind, RefinementSuggestion } from "@/src/types";
+
+interface RefinementDialogProps {
+  /** Profile to refine; the default when omitted */
+  profileId?: string;
+  /** Called after suggestions were applied to the profile */
+  onApplied?: () => void;
+}
+
+const KIND_LABELS: Record<RefinementKind, string> = {
+  "avoid-word": "Words we keep deleting → avoid",
+  "preferred-term": "Substitutions we keep making → preferred terms",
+  sample: "Final texts → voice samples",
+};
+
+function describe(suggestion: RefinementSuggestion): string {
+  if (suggestion.kind === "preferred-term") {
+    return `"${suggestion.text}" → "${suggestion.replacement}"`;
+  }
+  return suggestion.kind === "sample" ? suggestion.text : `"${suggestion.text}"`;
+}
+
+/**
+ * Review screen for suggestions mined from our edits and accepted
+ * revisions; nothing reaches the profile until it's applied here
+ */
+export function RefinementDialog({ profileId, onApplied }: RefinementDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [refinement, setRefinement] = useState<ProfileRefinement | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async (action: () => Promise<{ refinement: ProfileRefinement | null }>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await action();
+      setRefinement(result.refinement);
+      setSelected(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load refinement");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpen = () => {
+    setOpen(true);
+    load(() => fetchRefinement(profileId));
+  };
+
+  const handleReview = async (mode: "apply" | "dismiss") => {
+    if (!refinement) return;
+    const ids = [...selected];
+    await load(async () => {
+      const result = await reviewRefinement(
+        refinement.profileId,
+        mode === "apply" ? ids : [],
+        mode === "dismiss" ? ids : []
+      );
+      if (mode === "apply") onApplied?.();
+      return result;
+    });
+  };
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const suggestions = refinement?.suggestions ?? [];
+
+  return (
+    <>
+      <Button variant="outline" onClick={handleOpen}>
+        <Wand2 className="mr-2 h-4 w-4" />
+        Refine Voice
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Wand2 className="h-5 w-5" />
+              Refine Voice
+            </DialogTitle>
+            <DialogDescription>
+              Suggestions mined from your edits and accepted revisions. Nothing changes in the voice profile
+              until you apply it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2 max-h-[60vh] overflow-y-auto">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>
+                {refinement
+                  ? `Last run ${new Date(refinement.generatedAt).toLocaleString()} over ${refinement.pairCount} edit${refinement.pairCount === 1 ? "" : "s"}`
+                  : "Not run yet for this profile"}
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => load(() => runRefinement(profileId))} disabled={loading}>
+                {loading ? <Loader2 className="mr-2 h-3 w-3 animate-spin" /> : <RefreshCw className="mr-2 h-3 w-3" />}
+                Run now
+              </Button>
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            {refinement && suggestions.length === 0 && (
+              <p className="text-sm text-muted-foreground">No suggestions. Keep editing drafts and run it again later.</p>
+            )}
+
+            {(Object.keys(KIND_LABELS) as RefinementKind[]).map((kind) => {
+              const ofKind = suggestions.filter((s) => s.kind === kind);
+              if (ofKind.length === 0) return null;
+              return (
+                <div key={kind} className="space-y-2">
+                  <p className="text-sm font-medium">{KIND_LABELS[kind]}</p>
+                  <ul className="space-y-1">
+                    {ofKind.map((s) => (
+                      <li key={s.id}>
+                        <label className="flex items-start gap-2 p-2 rounded bg-muted/50 text-sm cursor-pointer">
+                          <input
+                            type="checkbox"
+                            className="mt-1"
+                            checked={selected.has(s.id)}
+                            onChange={() => toggle(s.id)}
+                          />
+                          <span className="flex-1 whitespace-pre-wrap">{describe(s)}</span>
+                          {s.kind !== "sample" && (
+                            <Badge variant="outline" className="text-xs" title={s.draftIds.join(", ")}>
+                              {s.count} edits
+                            </Badge>
+                          )}
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleReview("dismiss")} disabled={loading || selected.size === 0}>
+              Dismiss selected
+            </Button>
+            <Button onClick={() => handleReview("apply")} disabled={loading || selected.size === 0}>
+              Apply selected
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
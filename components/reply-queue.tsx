@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { DraftCard } from "@/components/draft-card";
+import { MessageSquareReply, Loader2 } from "lucide-react";
+import { suggestReplies, GenerateResponse } from "@/lib/api";
+import type { TweetDraft, TweetDraftsOutput, VoiceProfileSummary } from "@/src/types";
+
+interface ReplyQueueProps {
+  days: TweetDraftsOutput[];
+  onSuggested: (data: GenerateResponse) => void;
+  onUpdated: () => void;
+  /** Voice profile new suggestions are written as; the default when omitted */
+  profileId?: string;
+  profiles?: VoiceProfileSummary[];
+  maxLength?: number;
+}
+
+/**
+ * Reply and quote-tweet suggestions, grouped by the tweet they respond to
+ * (one reply and one quote per persona)
+ */
+export function ReplyQueue({ days, onSuggested, onUpdated, profileId, profiles, maxLength }: ReplyQueueProps) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Newest day first; a target suggested again on a later day shows the latest pair
+  const targets = new Map<string, TweetDraft[]>();
+  for (const day of days) {
+    for (const draft of day.drafts) {
+      if (!draft.replyTo) continue;
+      const group = targets.get(draft.replyTo.tweetId) || [];
+      if (!group.some((d) => d.replyTo?.kind === draft.replyTo?.kind && d.profileId === draft.profileId)) {
+        group.push(draft);
+      }
+      targets.set(draft.replyTo.tweetId, group);
+    }
+  }
+
+  const handleSuggest = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      onSuggested(await suggestReplies(profileId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to suggest replies");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Replies and quote-tweets for the most engaged recent tweets from tracked accounts
+        </p>
+        <div className="flex items-center gap-2">
+          {error && <span className="text-sm text-destructive">{error}</span>}
+          <Button onClick={handleSuggest} disabled={loading}>
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Suggesting...
+              </>
+            ) : (
+              <>
+                <MessageSquareReply className="mr-2 h-4 w-4" />
+                Suggest Replies
+              </>
+            )}
+          </Button>
+        </div>
+      </div>
+
+      {targets.size === 0 && !loading && (
+        <p className="text-center py-12 text-muted-foreground">No reply suggestions yet</p>
+      )}
+
+      {[...targets.entries()].map(([tweetId, drafts]) => (
+        <section key={tweetId}>
+          <h3 className="text-sm font-semibold mb-3">@{drafts[0].replyTo?.authorHandle}</h3>
+          <div className="grid gap-4 md:grid-cols-2">
+            {drafts.map((draft) => (
+              <DraftCard key={draft.id} draft={draft} onUpdated={onUpdated} profiles={profiles} maxLength={maxLength} />
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
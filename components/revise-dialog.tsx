@@ -11,8 +11,14 @@ import {
   DialogDescription,
   DialogFooter,
 } from "@/components/ui/dialog";
+import { LintWarnings } from "@/components/lint-warnings";
 import { reviseDraft } from "@/lib/api";
+import { weightedLength, lintText, lintRulesFromGuidelines } from "@/src/lib/tweet-text";
+import { DEFAULT_GUIDELINES } from "@/src/voice/guidelines";
 import { ArrowRight, Sparkles } from "lucide-react";
+import type { LintRules } from "@/src/types";
+
+const defaultLintRules = lintRulesFromGuidelines(DEFAULT_GUIDELINES);
 
 interface ReviseDialogProps {
   open: boolean;
@@ -20,6 +26,10 @@ interface ReviseDialogProps {
   draftId: string;
   originalContent: string;
   onAccept: (newContent: string) => Promise<void>;
+  /** Voice profile to revise in; the default profile when omitted */
+  profileId?: string;
+  /** That profile's rules; the built-in guidelines when omitted */
+  lintRules?: LintRules;
 }
 
 export function ReviseDialog({
@@ -28,6 +38,8 @@ export function ReviseDialog({
   draftId,
   originalContent,
   onAccept,
+  profileId,
+  lintRules = defaultLintRules,
 }: ReviseDialogProps) {
   const [feedback, setFeedback] = useState("");
   const [revisedContent, setRevisedContent] = useState<string | null>(null);
@@ -40,7 +52,7 @@ export function ReviseDialog({
     setLoading(true);
     setError(null);
     try {
-      const result = await reviseDraft(draftId, feedback, originalContent);
+      const result = await reviseDraft(draftId, feedback, originalContent, profileId);
       setRevisedContent(result.revisedContent);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to revise");
@@ -121,9 +133,14 @@ export function ReviseDialog({
               <div className="border rounded-md p-3 bg-green-50 text-sm border-green-200">
                 {revisedContent}
               </div>
-              <p className="text-xs text-muted-foreground">
-                {revisedContent.length} / 280 characters
+              <p
+                className={`text-xs ${
+                  weightedLength(revisedContent) > lintRules.maxLength ? "text-destructive" : "text-muted-foreground"
+                }`}
+              >
+                {weightedLength(revisedContent)} / {lintRules.maxLength} characters
               </p>
+              <LintWarnings violations={lintText(revisedContent, lintRules).filter((v) => v.rule !== "length")} />
             </div>
           )}
 
@@ -132,12 +149,12 @@ export function ReviseDialog({
             <div className="flex items-center gap-4 p-3 bg-muted/30 rounded-md">
               <div className="flex-1 text-center">
                 <p className="text-xs text-muted-foreground mb-1">Original</p>
-                <p className="text-sm font-mono">{originalContent.length} chars</p>
+                <p className="text-sm font-mono">{weightedLength(originalContent)} chars</p>
               </div>
               <ArrowRight className="h-4 w-4 text-muted-foreground" />
               <div className="flex-1 text-center">
                 <p className="text-xs text-muted-foreground mb-1">Revised</p>
-                <p className="text-sm font-mono">{revisedContent.length} chars</p>
+                <p className="text-sm font-mono">{weightedLength(revisedContent)} chars</p>
               </div>
             </div>
           )}
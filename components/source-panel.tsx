@@ -12,11 +12,12 @@ import {
   XCircle,
   AlertTriangle,
   Loader2,
-  RefreshCw
+  RefreshCw,
+  Hash
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import type { NewsItem, TwitterPost, OnchainData, VerificationStatus } from "@/src/types";
+import type { NewsItem, TwitterPost, OnchainData, VerificationStatus, FactCheckResult, ClaimCheck } from "@/src/types";
 
 interface SourcePanelProps {
   news?: NewsItem[];
@@ -28,6 +29,7 @@ interface SourcePanelProps {
     twitterAuthor?: string;
     onchainMetric?: string;
   };
+  factCheck?: FactCheckResult;
 }
 
 interface UrlVerification {
@@ -37,12 +39,12 @@ interface UrlVerification {
   verifiedAt?: string;
 }
 
-export function SourcePanel({ news, tweets, onchainData, metadata }: SourcePanelProps) {
+export function SourcePanel({ news, tweets, onchainData, metadata, factCheck }: SourcePanelProps) {
   const [expanded, setExpanded] = useState(false);
   const [verifications, setVerifications] = useState<Record<string, UrlVerification>>({});
   const [verifying, setVerifying] = useState<string | null>(null);
 
-  // Filter to specific sources if metadata is provided
+  // Drafts saved before source IDs existed only have metadata hints, so match on those
   const filteredNews = metadata?.newsTitle
     ? news?.filter(n => n.title.toLowerCase().includes(metadata.newsTitle!.toLowerCase().slice(0, 30)))
     : news;
@@ -51,7 +53,8 @@ export function SourcePanel({ news, tweets, onchainData, metadata }: SourcePanel
     ? tweets?.filter(t => t.authorHandle.toLowerCase() === metadata.twitterAuthor!.replace('@', '').toLowerCase())
     : tweets;
 
-  const hasData = (filteredNews && filteredNews.length > 0) || (filteredTweets && filteredTweets.length > 0) || onchainData;
+  const claims = factCheck?.claims || [];
+  const hasData = (filteredNews && filteredNews.length > 0) || (filteredTweets && filteredTweets.length > 0) || onchainData || claims.length > 0;
 
   const verifyUrl = useCallback(async (url: string) => {
     setVerifying(url);
@@ -147,6 +150,16 @@ export function SourcePanel({ news, tweets, onchainData, metadata }: SourcePanel
               Broken Links
             </Badge>
           )}
+          {factCheck?.status === "mismatch" && (
+            <Badge variant="destructive" className="text-[10px] px-1 py-0">
+              Numbers Mismatch
+            </Badge>
+          )}
+          {factCheck?.status === "unsupported" && (
+            <Badge variant="outline" className="text-[10px] px-1 py-0 text-amber-600 border-amber-300">
+              Unsourced Numbers
+            </Badge>
+          )}
           {!hasBrokenSources && hasUnverifiedSources && (
             <Badge variant="outline" className="text-[10px] px-1 py-0 text-amber-600 border-amber-300">
               Unverified
@@ -190,6 +203,30 @@ export function SourcePanel({ news, tweets, onchainData, metadata }: SourcePanel
             </div>
           )}
 
+          {/* Numeric Claims */}
+          {claims.length > 0 && (
+            <div>
+              <h4 className="flex items-center gap-2 font-medium text-sm mb-2">
+                <Hash className="h-4 w-4 text-muted-foreground" />
+                Numbers Checked
+              </h4>
+              <ul className="space-y-1">
+                {claims.map((claim, i) => (
+                  <li key={i} className="text-xs flex items-start gap-2">
+                    <ClaimStatusIcon claim={claim} />
+                    <span>
+                      <span className="font-mono font-medium">{claim.text}</span>
+                      {claim.post !== undefined && (
+                        <span className="text-muted-foreground"> (post {claim.post + 1})</span>
+                      )}
+                      <span className="text-muted-foreground"> &middot; {describeClaim(claim)}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* News Sources */}
           {filteredNews && filteredNews.length > 0 && (
             <div>
@@ -287,15 +324,22 @@ export function SourcePanel({ news, tweets, onchainData, metadata }: SourcePanel
                 Data from DeFiLlama API - {new Date(onchainData.timestamp).toLocaleString()}
               </p>
               <div className="grid grid-cols-2 gap-2 text-sm">
-                {onchainData.tvl !== undefined && (
+                {(onchainData.tvl !== undefined || onchainData.tvlChange24h !== undefined || onchainData.tvlChange7d !== undefined) && (
                   <div className="bg-background rounded p-2">
                     <p className="text-xs text-muted-foreground">TVL</p>
-                    <p className="font-mono">${formatNumber(onchainData.tvl)}</p>
+                    {onchainData.tvl !== undefined && (
+                      <p className="font-mono">${formatNumber(onchainData.tvl)}</p>
+                    )}
                     {onchainData.tvlChange24h !== undefined && (
                       <p className={`text-xs ${onchainData.tvlChange24h >= 0 ? "text-green-600" : "text-red-600"}`}>
                         {onchainData.tvlChange24h >= 0 ? "+" : ""}{onchainData.tvlChange24h.toFixed(1)}% (24h)
                       </p>
                     )}
+                    {onchainData.tvlChange7d !== undefined && (
+                      <p className={`text-xs ${onchainData.tvlChange7d >= 0 ? "text-green-600" : "text-red-600"}`}>
+                        {onchainData.tvlChange7d >= 0 ? "+" : ""}{onchainData.tvlChange7d.toFixed(1)}% (7d)
+                      </p>
+                    )}
                   </div>
                 )}
                 {onchainData.transactions24h !== undefined && (
@@ -316,6 +360,12 @@ export function SourcePanel({ news, tweets, onchainData, metadata }: SourcePanel
                     <p className="font-mono">${formatNumber(onchainData.volume24h)}</p>
                   </div>
                 )}
+                {onchainData.fees24h !== undefined && (
+                  <div className="bg-background rounded p-2">
+                    <p className="text-xs text-muted-foreground">24h Fees</p>
+                    <p className="font-mono">${formatNumber(onchainData.fees24h)}</p>
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -325,6 +375,37 @@ export function SourcePanel({ news, tweets, onchainData, metadata }: SourcePanel
   );
 }
 
+function ClaimStatusIcon({ claim }: { claim: ClaimCheck }) {
+  switch (claim.status) {
+    case "verified":
+      return <CheckCircle className="h-3 w-3 mt-0.5 flex-shrink-0 text-green-500" />;
+    case "mismatch":
+      return <XCircle className="h-3 w-3 mt-0.5 flex-shrink-0 text-red-500" />;
+    default:
+      return <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0 text-amber-500" />;
+  }
+}
+
+function describeClaim(claim: ClaimCheck): string {
+  const sourceValue = claim.matchedValue !== undefined ? formatClaimValue(claim.matchedValue, claim) : "";
+  switch (claim.status) {
+    case "verified":
+      return `matches ${claim.matchedSource} (${sourceValue})`;
+    case "mismatch":
+      return `${claim.matchedSource} says ${sourceValue}`;
+    default:
+      return "not found in the input data - check before posting";
+  }
+}
+
+function formatClaimValue(value: number, claim: ClaimCheck): string {
+  if (claim.kind === "percent") {
+    return `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+  }
+  const formatted = formatNumber(Math.abs(value));
+  return `${value < 0 ? "-" : ""}${claim.kind === "currency" ? "$" : ""}${formatted}`;
+}
+
 function formatNumber(num: number): string {
   if (num >= 1e9) return `${(num / 1e9).toFixed(2)}B`;
   if (num >= 1e6) return `${(num / 1e6).toFixed(2)}M`;
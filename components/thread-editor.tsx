@@ -0,0 +1,154 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { LintWarnings } from "@/components/lint-warnings";
+import { weightedLength, lintText, lintRulesFromGuidelines } from "@/src/lib/tweet-text";
+import { DEFAULT_GUIDELINES } from "@/src/voice/guidelines";
+import type { LintRules } from "@/src/types";
+
+interface ThreadEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  posts: string[];
+  onSave: (posts: string[]) => Promise<void>;
+  /** The draft's voice profile rules and length limit; the built-in guidelines when omitted */
+  lintRules?: LintRules;
+}
+
+const defaultLintRules = lintRulesFromGuidelines(DEFAULT_GUIDELINES);
+
+export function ThreadEditor({ open, onOpenChange, posts, onSave, lintRules = defaultLintRules }: ThreadEditorProps) {
+  const [editedPosts, setEditedPosts] = useState(posts);
+  const [saving, setSaving] = useState(false);
+
+  // Start from the saved thread each time the dialog opens
+  useEffect(() => {
+    if (open) setEditedPosts(posts);
+  }, [open, posts]);
+
+  const hasInvalidPost = editedPosts.some((p) => !p.trim() || weightedLength(p) > lintRules.maxLength);
+
+  const updatePost = (index: number, value: string) => {
+    setEditedPosts((prev) => prev.map((p, i) => (i === index ? value : p)));
+  };
+
+  const movePost = (index: number, direction: -1 | 1) => {
+    setEditedPosts((prev) => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removePost = (index: number) => {
+    setEditedPosts((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const addPost = () => {
+    setEditedPosts((prev) => [...prev, ""]);
+  };
+
+  const handleSave = async () => {
+    if (hasInvalidPost || editedPosts.length === 0) return;
+    setSaving(true);
+    try {
+      await onSave(editedPosts.map((p) => p.trim()));
+      onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Thread</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          {editedPosts.map((post, i) => {
+            const charCount = weightedLength(post);
+            const isOverLimit = charCount > lintRules.maxLength;
+            return (
+              <div key={i} className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-medium text-muted-foreground">
+                    {i + 1}/{editedPosts.length}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => movePost(i, -1)}
+                      disabled={i === 0}
+                      title="Move up"
+                    >
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => movePost(i, 1)}
+                      disabled={i === editedPosts.length - 1}
+                      title="Move down"
+                    >
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => removePost(i)}
+                      disabled={editedPosts.length <= 1}
+                      title="Remove post"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+                <Textarea
+                  value={post}
+                  onChange={(e) => updatePost(i, e.target.value)}
+                  className="min-h-[90px] font-mono"
+                  placeholder="Write this post..."
+                />
+                <p className={`text-xs ${isOverLimit ? "text-destructive font-medium" : "text-muted-foreground"}`}>
+                  {charCount} / {lintRules.maxLength}
+                  {isOverLimit && ` · ${charCount - lintRules.maxLength} characters over limit`}
+                </p>
+                <LintWarnings violations={lintText(post, lintRules).filter((v) => v.rule !== "length")} />
+              </div>
+            );
+          })}
+
+          <Button variant="outline" size="sm" onClick={addPost}>
+            <Plus className="mr-1 h-3 w-3" />
+            Add Post
+          </Button>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || hasInvalidPost}>
+            {saving ? "Saving..." : "Save Thread"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Wallet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { fetchUsage } from "@/lib/api";
+import type { UsageSummary, UsageTotals } from "@/src/types";
+
+interface UsagePanelProps {
+  /** Change to refetch, e.g. after a generation run */
+  refreshKey?: number;
+}
+
+export function UsagePanel({ refreshKey }: UsagePanelProps) {
+  const [open, setOpen] = useState(false);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+
+  useEffect(() => {
+    fetchUsage(30)
+      .then(setUsage)
+      .catch(() => setUsage(null));
+  }, [refreshKey]);
+
+  if (!usage) {
+    return null;
+  }
+
+  const { budget } = usage;
+  const overDaily = budget.dailyUsd !== undefined && usage.todayUsd >= budget.dailyUsd;
+  const overMonthly = budget.monthlyUsd !== undefined && usage.monthUsd >= budget.monthlyUsd;
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className={overDaily || overMonthly ? "text-destructive" : "text-muted-foreground"}
+        title="AI spend"
+      >
+        <Wallet className="mr-2 h-4 w-4" />
+        {formatUsd(usage.todayUsd)} today
+        {budget.dailyUsd !== undefined && ` / ${formatUsd(budget.dailyUsd)}`}
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>AI Usage</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-6 py-2 text-sm">
+            <div className="grid grid-cols-2 gap-2">
+              <SpendTile label="Today" spent={usage.todayUsd} limit={budget.dailyUsd} />
+              <SpendTile label="This month" spent={usage.monthUsd} limit={budget.monthlyUsd} />
+            </div>
+
+            {usage.unpricedModels.length > 0 && (
+              <p className="text-xs text-amber-600">
+                No price configured for {usage.unpricedModels.join(", ")} - their calls count as $0.
+                Add them to MODEL_PRICES.
+              </p>
+            )}
+
+            <UsageTable
+              title="By feature"
+              rows={usage.byFeature.map((row) => ({ label: row.feature, ...row }))}
+            />
+            <UsageTable
+              title="By route"
+              rows={usage.byRoute.map((row) => ({ label: row.route, ...row }))}
+            />
+            <UsageTable
+              title={`By day (since ${usage.since})`}
+              rows={[...usage.byDay].reverse().map((row) => ({ label: row.date, ...row }))}
+            />
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+function SpendTile({ label, spent, limit }: { label: string; spent: number; limit?: number }) {
+  const over = limit !== undefined && spent >= limit;
+  return (
+    <div className="bg-muted/50 rounded p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className={`font-mono text-lg ${over ? "text-destructive" : ""}`}>{formatUsd(spent)}</p>
+      <p className="text-xs text-muted-foreground">
+        {limit !== undefined ? `of ${formatUsd(limit)} budget` : "no budget set"}
+      </p>
+    </div>
+  );
+}
+
+function UsageTable({ title, rows }: { title: string; rows: Array<UsageTotals & { label: string }> }) {
+  if (rows.length === 0) {
+    return null;
+  }
+  return (
+    <div>
+      <h4 className="font-medium mb-2">{title}</h4>
+      <table className="w-full text-xs">
+        <thead className="text-muted-foreground">
+          <tr>
+            <th className="text-left font-normal py-1"></th>
+            <th className="text-right font-normal py-1">Calls</th>
+            <th className="text-right font-normal py-1">Tokens in / out</th>
+            <th className="text-right font-normal py-1">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.label} className="border-t">
+              <td className="py-1 font-mono">{row.label}</td>
+              <td className="py-1 text-right">{row.calls}</td>
+              <td className="py-1 text-right">
+                {row.inputTokens.toLocaleString()} / {row.outputTokens.toLocaleString()}
+              </td>
+              <td className="py-1 text-right font-mono">{formatUsd(row.costUsd)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function formatUsd(value: number): string {
+  return `$${value < 1 && value > 0 ? value.toFixed(3) : value.toFixed(2)}`;
+}
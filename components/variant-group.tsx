@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { DraftCard } from "@/components/draft-card";
+import { Check, Loader2 } from "lucide-react";
+import { pickVariant } from "@/lib/api";
+import type { TweetDraft, TweetDraftsOutput, VoiceProfileSummary } from "@/src/types";
+
+interface VariantGroupProps {
+  /** Original first, then its variants */
+  drafts: TweetDraft[];
+  inputData?: TweetDraftsOutput["input"];
+  onUpdated: () => void;
+  onVariants: (drafts: TweetDraft[]) => void;
+  profiles?: VoiceProfileSummary[];
+  maxLength?: number;
+}
+
+/**
+ * A draft and its A/B variants side by side; picking one records the
+ * preference and dims the rest
+ */
+export function VariantGroup({ drafts, inputData, onUpdated, onVariants, profiles, maxLength }: VariantGroupProps) {
+  const [picking, setPicking] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePick = async (id: string) => {
+    setPicking(id);
+    setError(null);
+    try {
+      const result = await pickVariant(id);
+      onVariants(result.drafts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to pick variant");
+    } finally {
+      setPicking(null);
+    }
+  };
+
+  return (
+    <div className="col-span-full p-4 border rounded-lg space-y-3">
+      <div className="flex items-center gap-2">
+        <h3 className="text-sm font-semibold">Variants</h3>
+        <span className="text-xs text-muted-foreground">
+          {drafts.some((d) => d.variantStatus) ? "Picked" : "Pick the one to post"}
+        </span>
+        {error && <span className="text-xs text-destructive">{error}</span>}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {drafts.map((draft) => (
+          <div
+            key={draft.id}
+            className={`space-y-2 ${draft.variantStatus === "rejected" ? "opacity-50" : ""}`}
+          >
+            <Button
+              variant={draft.variantStatus === "chosen" ? "default" : "outline"}
+              size="sm"
+              className="w-full"
+              onClick={() => handlePick(draft.id)}
+              disabled={picking !== null || draft.variantStatus === "chosen"}
+            >
+              {picking === draft.id ? (
+                <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+              ) : (
+                <Check className="mr-1 h-3 w-3" />
+              )}
+              {draft.variantStatus === "chosen" ? "Chosen" : "Pick this one"}
+            </Button>
+            <DraftCard
+              draft={draft}
+              inputData={inputData}
+              onUpdated={onUpdated}
+              onVariants={onVariants}
+              profiles={profiles}
+              maxLength={maxLength}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
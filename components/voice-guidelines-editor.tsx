@@ -0,0 +1,138 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { previewSystemPrompt } from "@/lib/api";
+import { Eye, Loader2, Save } from "lucide-react";
+import type { GenerationMode, StyleGuidelines, VoiceProfileUpdate } from "@/src/types";
+
+interface VoiceGuidelinesEditorProps {
+  profileId: string;
+  guidelines: StyleGuidelines;
+  /** Disables saving while a change is in flight */
+  busy?: boolean;
+  onSave: (update: VoiceProfileUpdate) => void;
+}
+
+const TERM_SEPARATOR = /\s*(?:→|->|=)\s*/;
+
+function parseAvoidWords(text: string): string[] {
+  return [...new Set(text.split("\n").map((line) => line.trim()).filter(Boolean))];
+}
+
+/** One "term → preferred" per line */
+function parsePreferredTerms(text: string): Record<string, string> {
+  return Object.fromEntries(
+    text
+      .split("\n")
+      .map((line) => line.trim().split(TERM_SEPARATOR))
+      .filter(([term, preferred]) => term && preferred)
+      .map(([term, preferred]) => [term, preferred])
+  );
+}
+
+function formatPreferredTerms(terms: Record<string, string>): string {
+  return Object.entries(terms).map(([term, preferred]) => `${term} → ${preferred}`).join("\n");
+}
+
+/**
+ * avoidWords and preferredTerms editors, with a preview of the system
+ * prompt the unsaved lists would produce
+ */
+export function VoiceGuidelinesEditor({ profileId, guidelines, busy, onSave }: VoiceGuidelinesEditorProps) {
+  const [avoidWords, setAvoidWords] = useState("");
+  const [preferredTerms, setPreferredTerms] = useState("");
+  const [mode, setMode] = useState<GenerationMode>("single");
+  const [prompt, setPrompt] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the editors when another profile (or a saved version) comes in
+  useEffect(() => {
+    setAvoidWords(guidelines.avoidWords.join("\n"));
+    setPreferredTerms(formatPreferredTerms(guidelines.preferredTerms));
+    setPrompt(null);
+  }, [profileId, guidelines]);
+
+  const update = (): VoiceProfileUpdate => ({
+    avoidWords: parseAvoidWords(avoidWords),
+    preferredTerms: parsePreferredTerms(preferredTerms),
+  });
+
+  const handlePreview = async (nextMode: GenerationMode = mode) => {
+    setMode(nextMode);
+    setPreviewing(true);
+    setError(null);
+    try {
+      const result = await previewSystemPrompt(profileId, nextMode, update());
+      setPrompt(result.prompt);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to preview system prompt");
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const dirty =
+    JSON.stringify(update()) !==
+    JSON.stringify({ avoidWords: guidelines.avoidWords, preferredTerms: guidelines.preferredTerms });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <label className="space-y-1 text-sm">
+          <span className="font-medium">Words to avoid</span>
+          <span className="block text-xs text-muted-foreground">One per line</span>
+          <Textarea
+            value={avoidWords}
+            onChange={(e) => setAvoidWords(e.target.value)}
+            rows={8}
+            className="font-mono text-xs"
+          />
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="font-medium">Preferred terms</span>
+          <span className="block text-xs text-muted-foreground">One &quot;term → preferred&quot; per line</span>
+          <Textarea
+            value={preferredTerms}
+            onChange={(e) => setPreferredTerms(e.target.value)}
+            rows={8}
+            className="font-mono text-xs"
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button onClick={() => onSave(update())} disabled={busy || !dirty}>
+          <Save className="mr-2 h-4 w-4" />
+          Save
+        </Button>
+        <Button variant="outline" onClick={() => handlePreview()} disabled={previewing}>
+          {previewing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+          Preview prompt
+        </Button>
+        {prompt !== null && (
+          <select
+            value={mode}
+            onChange={(e) => handlePreview(e.target.value as GenerationMode)}
+            title="Generation mode to preview"
+            className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+          >
+            <option value="single">Single tweets</option>
+            <option value="thread">Threads</option>
+          </select>
+        )}
+        {dirty && <span className="text-xs text-muted-foreground">Unsaved changes</span>}
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {prompt !== null && (
+        <pre className="max-h-[480px] overflow-auto rounded-lg bg-muted/50 p-4 text-xs whitespace-pre-wrap">
+          {prompt}
+        </pre>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Ban, Heart, Pin, PinOff, Repeat2 } from "lucide-react";
+import type { VoiceSample } from "@/src/types";
+
+interface VoiceSampleListProps {
+  samples: VoiceSample[];
+  /** Disables the actions while a change is saving */
+  busy?: boolean;
+  onPin: (text: string, pinned: boolean) => void;
+  onExclude: (text: string) => void;
+}
+
+/**
+ * A profile's sample tweets with engagement, topics and why they were
+ * picked; pinned samples survive rebuilds, excluded ones never come back
+ */
+export function VoiceSampleList({ samples, busy, onPin, onExclude }: VoiceSampleListProps) {
+  if (samples.length === 0) {
+    return <p className="text-sm text-muted-foreground">No samples yet. Rebuild the profile to pick some.</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {samples.map((sample) => (
+        <li key={sample.text} className="p-3 rounded-lg border bg-card space-y-2">
+          <div className="flex items-start gap-3">
+            <p className="flex-1 text-sm whitespace-pre-wrap">{sample.text}</p>
+            <div className="flex gap-1 shrink-0">
+              <Button
+                variant={sample.pinned ? "default" : "ghost"}
+                size="sm"
+                onClick={() => onPin(sample.text, !sample.pinned)}
+                disabled={busy}
+                title={sample.pinned ? "Unpin" : "Pin: keep through rebuilds"}
+              >
+                {sample.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onExclude(sample.text)}
+                disabled={busy}
+                title="Exclude: remove and never pick again"
+              >
+                <Ban className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            {sample.pinned && <Badge variant="secondary">Pinned</Badge>}
+            {sample.engagement && (
+              <>
+                <span className="flex items-center gap-1">
+                  <Heart className="h-3 w-3" />
+                  {sample.engagement.likes}
+                </span>
+                <span className="flex items-center gap-1">
+                  <Repeat2 className="h-3 w-3" />
+                  {sample.engagement.retweets}
+                </span>
+                {sample.engagement.impressions !== undefined && (
+                  <span>{sample.engagement.impressions.toLocaleString()} impressions</span>
+                )}
+              </>
+            )}
+            {sample.postedAt && <span>{new Date(sample.postedAt).toLocaleDateString()}</span>}
+            {sample.categories?.map((category) => (
+              <Badge key={category} variant="outline">
+                {category}
+              </Badge>
+            ))}
+            {sample.topics?.map((topic) => (
+              <span key={topic}>#{topic}</span>
+            ))}
+          </div>
+
+          {sample.selection && (
+            <p className="text-xs text-muted-foreground">
+              Score {sample.selection.score.toFixed(3)} · {sample.selection.reasons.join(", ")}
+            </p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -1,4 +1,20 @@
-import type { TweetDraft, TweetDraftsOutput, GenerationInput } from "@/src/types";
+import type {
+  CampaignPreset,
+  CampaignPresetName,
+  CampaignWindow,
+  CustomBrief,
+  TweetDraft,
+  TweetDraftsOutput,
+  GenerationInput,
+  GenerationMode,
+  GenerationProgressEvent,
+  PipelineStage,
+  ProfileRefinement,
+  UsageSummary,
+  VoiceProfile,
+  VoiceProfileSummary,
+  VoiceProfileUpdate,
+} from "@/src/types";
 
 export interface DraftsResponse {
   drafts: TweetDraftsOutput[];
@@ -9,22 +25,147 @@ export interface GenerateResponse {
   drafts: TweetDraft[];
   tokensUsed: number;
   modelUsed: string;
+  promptVersion: string;
   input?: {
     tweets?: unknown[];
     news?: unknown[];
     onchainData?: unknown;
   };
+  /** Set when the drafts were written for a custom brief */
+  brief?: CustomBrief;
 }
 
 export interface ReviseResponse {
   revisedContent: string;
   tokensUsed: number;
+  promptVersion: string;
+}
+
+export interface CampaignsResponse {
+  presets: Array<CampaignPreset & { window: CampaignWindow }>;
+}
+
+export type GenerateRequest = GenerationInput & {
+  scrapeFirst?: boolean;
+  mode?: GenerationMode;
+  stages?: PipelineStage[];
+  preset?: CampaignPresetName;
+  brief?: CustomBrief;
+  profileId?: string;
+};
+
+export interface VoiceProfilesResponse {
+  profiles: VoiceProfileSummary[];
+  defaultProfile: string;
+  /** TWEET_MAX_LENGTH: the weighted length drafts are validated against */
+  tweetMaxLength: number;
+}
+
+export interface VoiceProfileResponse {
+  profile: VoiceProfile;
+}
+
+export interface PromptPreviewResponse {
+  prompt: string;
 }
 
 export interface UpdateDraftResponse {
   draft: TweetDraft;
 }
 
+export interface RefinementResponse {
+  /** null until a refinement has been run for the profile */
+  refinement: ProfileRefinement | null;
+}
+
+export interface RefinementReviewResponse {
+  profile: VoiceProfileSummary;
+  refinement: ProfileRefinement;
+}
+
+export interface VariantsResponse {
+  /** The whole variant group, original first */
+  drafts: TweetDraft[];
+  tokensUsed?: number;
+  modelUsed?: string;
+}
+
+export async function fetchUsage(days: number = 30): Promise<UsageSummary> {
+  const response = await fetch(`/api/usage?days=${days}`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch usage");
+  }
+  return response.json();
+}
+
+export async function fetchCampaigns(): Promise<CampaignsResponse> {
+  const response = await fetch("/api/campaigns");
+  if (!response.ok) {
+    throw new Error("Failed to fetch campaign presets");
+  }
+  return response.json();
+}
+
+export async function fetchVoiceProfiles(): Promise<VoiceProfilesResponse> {
+  const response = await fetch("/api/voice-profiles");
+  if (!response.ok) {
+    throw new Error("Failed to fetch voice profiles");
+  }
+  return response.json();
+}
+
+export async function fetchVoiceProfile(id: string): Promise<VoiceProfileResponse> {
+  const response = await fetch(`/api/voice-profiles/${encodeURIComponent(id)}`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to load voice profile");
+  }
+  return response.json();
+}
+
+export async function updateVoiceProfile(id: string, update: VoiceProfileUpdate): Promise<VoiceProfileResponse> {
+  const response = await fetch(`/api/voice-profiles/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(update),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to update voice profile");
+  }
+  return response.json();
+}
+
+export async function previewSystemPrompt(
+  id: string,
+  mode: GenerationMode,
+  update: VoiceProfileUpdate = {}
+): Promise<PromptPreviewResponse> {
+  const response = await fetch(`/api/voice-profiles/${encodeURIComponent(id)}/preview`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...update, mode }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to preview system prompt");
+  }
+  return response.json();
+}
+
+export async function rebuildVoiceProfile(id: string, full = false): Promise<VoiceProfileResponse> {
+  const response = await fetch(`/api/voice-profiles/${encodeURIComponent(id)}/rebuild`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ full }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to rebuild voice profile");
+  }
+  return response.json();
+}
+
 export async function fetchDrafts(): Promise<DraftsResponse> {
   const response = await fetch("/api/drafts");
   if (!response.ok) {
@@ -33,7 +174,9 @@ export async function fetchDrafts(): Promise<DraftsResponse> {
   return response.json();
 }
 
-export async function generateDrafts(input: GenerationInput & { scrapeFirst?: boolean }): Promise<GenerateResponse> {
+export async function generateDrafts(
+  input: GenerateRequest
+): Promise<GenerateResponse> {
   const response = await fetch("/api/drafts", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
@@ -46,11 +189,91 @@ export async function generateDrafts(input: GenerationInput & { scrapeFirst?: bo
   return response.json();
 }
 
-export async function updateDraft(id: string, content: string): Promise<UpdateDraftResponse> {
+/**
+ * Same as generateDrafts, but reads the SSE progress stream and reports
+ * each event as it arrives. Resolves with the final result on "done".
+ */
+export async function streamGenerateDrafts(
+  input: GenerateRequest,
+  onEvent: (event: GenerationProgressEvent) => void
+): Promise<GenerateResponse> {
+  const response = await fetch("/api/drafts", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+    body: JSON.stringify(input),
+  });
+  if (!response.ok || !response.body) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || "Failed to generate drafts");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const messages = buffer.split("\n\n");
+    buffer = messages.pop() || "";
+
+    for (const message of messages) {
+      const data = message
+        .split("\n")
+        .filter((line) => line.startsWith("data: "))
+        .map((line) => line.slice("data: ".length))
+        .join("\n");
+      if (!data) continue;
+
+      const event = JSON.parse(data) as GenerationProgressEvent;
+      onEvent(event);
+
+      if (event.type === "error") {
+        throw new Error(event.message);
+      }
+      if (event.type === "done") {
+        return {
+          drafts: event.output.drafts,
+          tokensUsed: event.output.tokensUsed,
+          modelUsed: event.output.modelUsed,
+          promptVersion: event.output.promptVersion,
+          input: event.input,
+          brief: event.brief,
+        };
+      }
+    }
+  }
+
+  throw new Error("Generation stream ended before finishing");
+}
+
+export async function suggestReplies(profileId?: string): Promise<GenerateResponse> {
+  const response = await fetch("/api/replies", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ profileId }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to suggest replies");
+  }
+  return response.json();
+}
+
+/**
+ * Save a draft's new text; `source: "revision"` when it's an accepted AI revision
+ */
+export async function updateDraft(
+  id: string,
+  content: string,
+  source: "edit" | "revision" = "edit"
+): Promise<UpdateDraftResponse> {
   const response = await fetch(`/api/drafts/${id}`, {
     method: "PATCH",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ content }),
+    body: JSON.stringify({ content, source }),
   });
   if (!response.ok) {
     const error = await response.json();
@@ -59,15 +282,29 @@ export async function updateDraft(id: string, content: string): Promise<UpdateDr
   return response.json();
 }
 
+export async function updateThreadPosts(id: string, posts: string[]): Promise<UpdateDraftResponse> {
+  const response = await fetch(`/api/drafts/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ posts }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to update thread");
+  }
+  return response.json();
+}
+
 export async function reviseDraft(
   draftId: string,
   feedback: string,
-  originalContent: string
+  originalContent: string,
+  profileId?: string
 ): Promise<ReviseResponse> {
   const response = await fetch("/api/revise", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ draftId, feedback, originalContent }),
+    body: JSON.stringify({ draftId, feedback, originalContent, profileId }),
   });
   if (!response.ok) {
     const error = await response.json();
@@ -75,3 +312,65 @@ export async function reviseDraft(
   }
   return response.json();
 }
+
+export async function generateVariants(draftId: string, count?: number): Promise<VariantsResponse> {
+  const response = await fetch(`/api/drafts/${draftId}/variants`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ count }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to generate variants");
+  }
+  return response.json();
+}
+
+export async function pickVariant(draftId: string): Promise<VariantsResponse> {
+  const response = await fetch(`/api/drafts/${draftId}/pick`, { method: "POST" });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to pick variant");
+  }
+  return response.json();
+}
+
+export async function fetchRefinement(profileId?: string): Promise<RefinementResponse> {
+  const query = profileId ? `?profileId=${encodeURIComponent(profileId)}` : "";
+  const response = await fetch(`/api/voice-refinements${query}`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to load refinement");
+  }
+  return response.json();
+}
+
+export async function runRefinement(profileId?: string): Promise<RefinementResponse> {
+  const response = await fetch("/api/voice-refinements", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ profileId }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to run refinement");
+  }
+  return response.json();
+}
+
+export async function reviewRefinement(
+  profileId: string,
+  apply: string[],
+  dismiss: string[]
+): Promise<RefinementReviewResponse> {
+  const response = await fetch("/api/voice-refinements/review", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ profileId, apply, dismiss }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to apply refinement");
+  }
+  return response.json();
+}
@@ -2,6 +2,10 @@
 const nextConfig = {
   experimental: {
     serverComponentsExternalPackages: ['@anthropic-ai/sdk'],
+    // Prompt templates and voice profiles are read from disk at runtime
+    outputFileTracingIncludes: {
+      '/api/**/*': ['./src/prompts/**/*', './src/voice/profiles/**/*'],
+    },
   },
 };
 
@@ -0,0 +1,118 @@
+/**
+ * Custom Briefs
+ *
+ * "Write about this": a brief is free text and/or article URLs. The URLs
+ * are fetched into NewsItems that lead the generation input, ahead of any
+ * scraped context, and the prompt tells the model every draft is about it.
+ */
+
+import { config } from "../lib/config";
+import { success, fail } from "../lib/errors";
+import { scrapeArticle } from "../scrapers/article";
+import { buildSourceCatalog } from "./sources";
+import type { CustomBrief, GenerationInput, NewsItem, Result } from "../types";
+import { ErrorCode } from "../types";
+
+/**
+ * Trim and check a brief from a request: text and/or up to maxUrls http(s)
+ * URLs (normalized, deduped)
+ */
+export function validateBrief(raw: unknown): Result<CustomBrief> {
+  if (typeof raw !== "object" || raw === null) {
+    return fail(ErrorCode.INVALID_DATA_FORMAT, "A brief needs text or URLs");
+  }
+  const { text, urls } = raw as { text?: unknown; urls?: unknown };
+
+  if (text !== undefined && typeof text !== "string") {
+    return fail(ErrorCode.INVALID_DATA_FORMAT, "Brief text must be a string");
+  }
+  if (urls !== undefined && (!Array.isArray(urls) || urls.some((u) => typeof u !== "string"))) {
+    return fail(ErrorCode.INVALID_DATA_FORMAT, "Brief URLs must be a list of strings");
+  }
+
+  const trimmed = text?.trim() || "";
+  if (trimmed.length > config.brief.maxTextLength) {
+    return fail(ErrorCode.INVALID_DATA_FORMAT, `Brief text is over ${config.brief.maxTextLength} characters`);
+  }
+
+  const normalized: string[] = [];
+  for (const entry of (urls as string[] | undefined) || []) {
+    if (!entry.trim()) continue;
+    let url: URL;
+    try {
+      url = new URL(entry.trim());
+    } catch {
+      return fail(ErrorCode.INVALID_DATA_FORMAT, `Not a valid URL: ${entry}`);
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return fail(ErrorCode.INVALID_DATA_FORMAT, `Only http(s) URLs are supported: ${entry}`);
+    }
+    if (!normalized.includes(url.toString())) normalized.push(url.toString());
+  }
+  if (normalized.length > config.brief.maxUrls) {
+    return fail(ErrorCode.INVALID_DATA_FORMAT, `A brief can have at most ${config.brief.maxUrls} URLs`);
+  }
+
+  if (!trimmed && normalized.length === 0) {
+    return fail(ErrorCode.INVALID_DATA_FORMAT, "A brief needs text or URLs");
+  }
+
+  return success({
+    ...(trimmed && { text: trimmed }),
+    ...(normalized.length > 0 && { urls: normalized }),
+  });
+}
+
+/**
+ * Fetch every URL in the brief. Failures are collected, not fatal, so one
+ * dead link doesn't sink the rest.
+ */
+export async function fetchBriefArticles(brief: CustomBrief): Promise<{ articles: NewsItem[]; errors: string[] }> {
+  const articles: NewsItem[] = [];
+  const errors: string[] = [];
+
+  for (const url of brief.urls || []) {
+    const result = await scrapeArticle(url);
+    if (result.success) {
+      articles.push(result.data);
+    } else {
+      errors.push(result.error.message);
+    }
+  }
+
+  return { articles, errors };
+}
+
+/**
+ * The brief's articles first, then the scraped context (minus anything the
+ * brief already links to)
+ */
+export function mergeBriefInput(articles: NewsItem[], context: GenerationInput = {}): GenerationInput {
+  const urls = new Set(articles.map((a) => a.url));
+  const news = [...articles, ...(context.news || []).filter((n) => !urls.has(n.url))];
+
+  return {
+    ...context,
+    ...(news.length > 0 && { news }),
+  };
+}
+
+/**
+ * Prompt section for the brief, citing its articles by source ID
+ */
+export function buildBriefSection(brief: CustomBrief, input: GenerationInput): string {
+  const urls = new Set(brief.urls || []);
+  const articleIds = [...buildSourceCatalog(input).values()]
+    .flatMap((ref) => (ref.kind === "news" && urls.has(ref.item.url) ? [`[${ref.id}]`] : []));
+
+  const lines = ["## The Brief (every draft must be about this)"];
+  if (brief.text) {
+    lines.push(brief.text);
+  }
+  if (articleIds.length > 0) {
+    lines.push(`Articles for this brief: ${articleIds.join(", ")}. The rest of the data is background - use it only where it supports the brief.`);
+  } else if (brief.urls?.length) {
+    lines.push("(The linked articles couldn't be fetched; work from the text above.)");
+  }
+  return lines.join("\n");
+}
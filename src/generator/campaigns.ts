@@ -0,0 +1,179 @@
+/**
+ * Campaign Presets
+ *
+ * Named generation runs. "daily" is the regular run over today's scrape;
+ * the recaps (weekly, monthly) write one thread over a date window,
+ * built from the scrape data and drafts stored in config.output.draftsDir.
+ */
+
+import { config } from "../lib/config";
+import { success, fail } from "../lib/errors";
+import { readDraftsFiles, isVariantPick } from "./history";
+import { engagementScore } from "./replies";
+import type {
+  CampaignContext,
+  CampaignPreset,
+  CampaignPresetName,
+  CampaignWindow,
+  GenerationInput,
+  NewsItem,
+  OnchainData,
+  Result,
+  TwitterPost,
+} from "../types";
+import { ErrorCode } from "../types";
+
+export const CAMPAIGN_PRESETS: CampaignPreset[] = [
+  {
+    name: "daily",
+    label: "Daily",
+    description: "Standalone drafts (and threads, if the voice uses them) from today's data",
+  },
+  {
+    name: "weekly-recap",
+    label: "Weekly recap",
+    description: `One recap thread over the last ${config.campaigns.weeklyRecapDays} days`,
+    taskTemplate: "generate-task-weekly-recap",
+  },
+  {
+    name: "monthly-report",
+    label: "Monthly report",
+    description: "One investor-report thread over the last full month",
+    taskTemplate: "generate-task-monthly-report",
+  },
+];
+
+/**
+ * Look up a preset by name; fails with INVALID_CONFIG for unknown names
+ */
+export function getCampaignPreset(name: string): Result<CampaignPreset> {
+  const preset = CAMPAIGN_PRESETS.find((p) => p.name === name);
+  if (!preset) {
+    return fail(
+      ErrorCode.INVALID_CONFIG,
+      `Unknown preset "${name}". Use one of: ${CAMPAIGN_PRESETS.map((p) => p.name).join(", ")}`
+    );
+  }
+  return success(preset);
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function formatDay(day: string, withYear: boolean): string {
+  return new Date(`${day}T12:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    ...(withYear && { year: "numeric" }),
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Dates a preset covers. The weekly recap ends today; the monthly report
+ * covers the last full calendar month, since reports go out after it closes.
+ */
+export function campaignWindow(name: CampaignPresetName, now: Date = new Date()): CampaignWindow {
+  const today = dayKey(now);
+
+  switch (name) {
+    case "weekly-recap": {
+      const start = dayKey(new Date(now.getTime() - (config.campaigns.weeklyRecapDays - 1) * 24 * 60 * 60 * 1000));
+      return { start, end: today, label: `${formatDay(start, false)} – ${formatDay(today, true)}` };
+    }
+    case "monthly-report": {
+      const first = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+      const last = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 0));
+      return {
+        start: dayKey(first),
+        end: dayKey(last),
+        label: first.toLocaleDateString("en-US", { month: "long", year: "numeric", timeZone: "UTC" }),
+      };
+    }
+    default:
+      return { start: today, end: today, label: formatDay(today, true) };
+  }
+}
+
+/**
+ * Whether a preset's window includes today, i.e. whether a fresh scrape belongs in it
+ */
+export function includesToday(window: CampaignWindow, now: Date = new Date()): boolean {
+  return window.end >= dayKey(now);
+}
+
+/**
+ * Merge several days of input: news and tweets deduped and capped (most
+ * relevant / most engaged first), on-chain data from the latest snapshot
+ */
+function mergeInputs(inputs: GenerationInput[]): GenerationInput {
+  const news = new Map<string, NewsItem>();
+  const tweets = new Map<string, TwitterPost>();
+  let onchainData: OnchainData | undefined;
+
+  for (const input of inputs) {
+    for (const item of input.news || []) {
+      const key = item.url || item.title;
+      if (!news.has(key)) news.set(key, item);
+    }
+    for (const tweet of input.tweets || []) {
+      if (!tweets.has(tweet.id)) tweets.set(tweet.id, tweet);
+    }
+    if (input.onchainData && (!onchainData || input.onchainData.timestamp > onchainData.timestamp)) {
+      onchainData = input.onchainData;
+    }
+  }
+
+  const merged: GenerationInput = {};
+  if (news.size > 0) {
+    merged.news = [...news.values()]
+      .sort((a, b) => (b.relevanceScore ?? 0) - (a.relevanceScore ?? 0) || b.publishedAt.localeCompare(a.publishedAt))
+      .slice(0, config.campaigns.maxNewsItems);
+  }
+  if (tweets.size > 0) {
+    merged.tweets = [...tweets.values()]
+      .sort((a, b) => engagementScore(b) - engagementScore(a))
+      .slice(0, config.campaigns.maxTweets);
+  }
+  if (onchainData) {
+    merged.onchainData = onchainData;
+  }
+  return merged;
+}
+
+/**
+ * Input and campaign context for a preset run. Recaps merge the stored scrape
+ * data in their window with `fresh` (when the window includes today); daily
+ * runs use `fresh` as-is and have no context.
+ */
+export function buildCampaignInput(
+  name: CampaignPresetName,
+  fresh: GenerationInput = {},
+  now: Date = new Date()
+): { input: GenerationInput; campaign?: CampaignContext } {
+  if (name === "daily") {
+    return { input: fresh };
+  }
+
+  const window = campaignWindow(name, now);
+  const stored = readDraftsFiles(window.start, window.end);
+  const inputs = [
+    ...(includesToday(window, now) ? [fresh] : []),
+    ...stored.flatMap((day) => (day.input ? [day.input] : [])),
+  ];
+
+  const priorDrafts = stored
+    .flatMap((day) =>
+      day.drafts
+        // Earlier recaps and reply suggestions aren't highlights of their own
+        .filter((draft) => !draft.campaign && !draft.replyTo && isVariantPick(draft))
+        .map((draft) => `[${day.date}] ${(draft.posts?.[0] ?? draft.content).split("\n")[0]}`)
+    )
+    .slice(0, config.campaigns.maxPriorDrafts);
+
+  return {
+    input: mergeInputs(inputs),
+    campaign: { preset: name, window, priorDrafts },
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Draft Runs
+ *
+ * A day file holds the drafts of several runs: the daily drafts, each brief,
+ * each campaign and reply suggestions, per voice profile. A new run replaces
+ * only its own run's drafts, and each run's input is kept so an edit is
+ * fact-checked against what its draft was written from. Client-safe.
+ */
+
+import type { GenerationInput, TweetDraft, TweetDraftsOutput } from "../types";
+
+/** Drafts without a profileId were written as the default profile */
+const DEFAULT_PROFILE = "default";
+
+/**
+ * Which run a saved draft belongs to: reply suggestions, a brief, a campaign, or the daily drafts
+ */
+export function draftGroup(draft: TweetDraft): string {
+  // Brief drafts from before brief ids share one group
+  return draft.replyTo ? "replies" : draft.fromBrief ? draft.briefId ?? "brief" : draft.campaign ?? "daily";
+}
+
+/**
+ * The run's key within its day file: its group, per voice profile
+ */
+export function draftRunKey(draft: TweetDraft): string {
+  return runKey(draftGroup(draft), draft.profileId);
+}
+
+/**
+ * The key of a run of `group` drafts written as `profileId`
+ */
+export function runKey(group: string, profileId: string = DEFAULT_PROFILE): string {
+  return profileId === DEFAULT_PROFILE ? group : `${profileId}-${group}`;
+}
+
+/**
+ * The input a stored draft was generated from; the day's scrape data for
+ * drafts saved before inputs were kept per run
+ */
+export function draftInput(day: TweetDraftsOutput, draft: TweetDraft): GenerationInput | undefined {
+  return day.inputs?.[draftRunKey(draft)] ?? day.input;
+}
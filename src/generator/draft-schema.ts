@@ -0,0 +1,142 @@
+/**
+ * Draft Schema
+ *
+ * Zod schema for the JSON drafts the model returns. Anything that fails
+ * here is sent back to the model as a targeted repair request instead of
+ * being patched over with defaults.
+ */
+
+import { z } from "zod";
+import { config } from "../lib/config";
+import { weightedLength } from "../lib/tweet-text";
+import type { DraftValidationIssue, TweetSource } from "../types";
+
+const TWEET_SOURCES = ["news", "twitter", "onchain", "mixed"] as const satisfies readonly TweetSource[];
+
+export const postSchema = z
+  .string()
+  .trim()
+  .min(1, "Tweet content is empty")
+  .refine((text) => weightedLength(text) <= config.voice.tweetMaxLength, (text) => ({
+    message: `Tweet is ${weightedLength(text)} weighted chars (max ${config.voice.tweetMaxLength}; URLs count 23, emoji 2)`,
+  }));
+
+const draftFields = {
+  // Bookkeeping fields the model may omit; filled in by the parser
+  id: z.string().min(1).optional(),
+  createdAt: z.string().optional(),
+  context: z.string().default(""),
+
+  // Fields the model must get right
+  source: z.enum(TWEET_SOURCES, {
+    errorMap: () => ({ message: `source must be one of: ${TWEET_SOURCES.join(", ")}` }),
+  }),
+  confidence: z.number().min(0).max(1),
+  // Checked against the prompt's data IDs by the parser
+  sourceIds: z.array(z.string().trim().min(1)).default([]),
+  // Superseded by sourceIds; still accepted from older prompts
+  metadata: z
+    .object({
+      newsTitle: z.string(),
+      newsUrl: z.string(),
+      twitterAuthor: z.string(),
+      onchainMetric: z.string(),
+    })
+    .partial()
+    .optional(),
+};
+
+export const singleDraftSchema = z.object({
+  ...draftFields,
+  format: z.literal("single"),
+  content: postSchema,
+});
+
+export const threadDraftSchema = z.object({
+  ...draftFields,
+  format: z.literal("thread"),
+  posts: z
+    .array(postSchema)
+    .min(2, "A thread needs at least 2 posts")
+    .max(config.generation.maxThreadPosts, `A thread can have at most ${config.generation.maxThreadPosts} posts`),
+});
+
+export const tweetDraftSchema = z.preprocess(
+  // Drafts without a format are standalone posts
+  (value) =>
+    value && typeof value === "object" && !("format" in value)
+      ? { ...value, format: "single" }
+      : value,
+  z.discriminatedUnion("format", [singleDraftSchema, threadDraftSchema], {
+    errorMap: () => ({ message: 'format must be "single" or "thread"' }),
+  })
+);
+
+export const draftsResponseSchema = z
+  .array(tweetDraftSchema)
+  .min(1, "Expected at least one draft");
+
+export const critiqueResponseSchema = z.array(
+  z.object({
+    id: z.string().min(1),
+    scores: z
+      .array(
+        z.object({
+          expert: z.string().min(1),
+          score: z.number().min(1).max(10),
+          feedback: z.string().default(""),
+        })
+      )
+      .min(1, "Expected a score from every expert"),
+    summary: z.string().default(""),
+    suggestions: z.array(z.string()).default([]),
+  })
+);
+
+export const rewriteResponseSchema = z.array(
+  z.object({
+    id: z.string().min(1),
+    content: postSchema.optional(),
+    posts: z.array(postSchema).min(1).optional(),
+    notes: z.string().default(""),
+  })
+);
+
+export const replySuggestionsSchema = z
+  .array(
+    z.object({
+      targetId: z.string().trim().min(1),
+      kind: z.enum(["reply", "quote"], {
+        errorMap: () => ({ message: 'kind must be "reply" or "quote"' }),
+      }),
+      content: postSchema,
+      context: z.string().default(""),
+      confidence: z.number().min(0).max(1),
+    })
+  )
+  .min(1, "Expected at least one suggestion");
+
+export const variantsSchema = z
+  .array(
+    z.object({
+      angle: z.enum(["hook", "data-first", "story-first", "question", "no-question"], {
+        errorMap: () => ({ message: 'angle must be one of "hook", "data-first", "story-first", "question", "no-question"' }),
+      }),
+      content: postSchema,
+      notes: z.string().default(""),
+    })
+  )
+  .min(1, "Expected at least one variant");
+
+/**
+ * Flatten zod issues into path/message pairs, e.g. "[2].posts[1]"
+ */
+export function toValidationIssues(error: z.ZodError): DraftValidationIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path
+      .map((segment) => (typeof segment === "number" ? `[${segment}]` : `.${segment}`))
+      .join("")
+      .replace(/^\./, "") || "(root)",
+    message: issue.message,
+  }));
+}
@@ -0,0 +1,45 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { factCheckDraft } from "./fact-check";
+import type { GenerationInput, TweetDraft } from "../types";
+
+function draft(content: string): TweetDraft {
+  return { id: "draft-1", content, format: "single", source: "onchain", context: "", confidence: 1, createdAt: "2026-10-18T00:00:00.000Z" };
+}
+
+const input: GenerationInput = {
+  onchainData: {
+    chain: "avalanche",
+    timestamp: "2026-10-18T00:00:00.000Z",
+    tvl: 1_200_000_000,
+    tvlChange24h: 3.5,
+    transactions24h: 1_500_000,
+  },
+};
+
+test("a claim naming a metric isn't verified by another metric's number", () => {
+  const [claim] = factCheckDraft(draft("Avalanche TVL hit $1.5M today"), input).claims;
+  assert.equal(claim.metric, "tvl");
+  assert.equal(claim.status, "mismatch");
+  assert.equal(claim.matchedSource, "On-chain: TVL");
+});
+
+test("a claim naming no metric may match any number", () => {
+  const [claim] = factCheckDraft(draft("1.5M on Avalanche today"), input).claims;
+  assert.equal(claim.status, "verified");
+  assert.equal(claim.matchedSource, "On-chain: Transactions (24h)");
+});
+
+test("a percentage moving the wrong way is a mismatch", () => {
+  const [claim] = factCheckDraft(draft("TVL down 3.5% today"), input).claims;
+  assert.equal(claim.value, -3.5);
+  assert.equal(claim.status, "mismatch");
+  assert.equal(claim.matchedValue, 3.5);
+});
+
+test("a percentage moving the right way is verified", () => {
+  for (const text of ["TVL up 3.5% today", "TVL +3.5% today"]) {
+    const [claim] = factCheckDraft(draft(text), input).claims;
+    assert.equal(claim.status, "verified", text);
+  }
+});
@@ -0,0 +1,259 @@
+/**
+ * Numeric Fact Check
+ *
+ * Pulls numeric claims ("$1.2B TVL", "+3.5%", "1.5M txs") out of a draft and
+ * checks each one against the on-chain data, news and tweets the draft was
+ * generated from. Claims that contradict a named metric are "mismatch";
+ * numbers that appear nowhere in the input are "unsupported".
+ */
+
+import { config } from "../lib/config";
+import { ONCHAIN_METRICS } from "./sources";
+import type {
+  ClaimCheck,
+  ClaimStatus,
+  FactCheckResult,
+  GenerationInput,
+  NumericClaimKind,
+  OnchainMetric,
+  TweetDraft,
+} from "../types";
+
+interface NumericClaim {
+  text: string;
+  value: number;
+  kind: NumericClaimKind;
+  metric?: string;
+  /** Percentages only: false for "3.5%" with neither a sign nor an up/down word */
+  directed?: boolean;
+}
+
+interface ReferenceValue {
+  value: number;
+  kind: NumericClaimKind;
+  /** The on-chain metric, or the one a news/tweet number is written next to */
+  metric?: string;
+  source: string;
+}
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  mm: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9,
+  t: 1e12,
+  trillion: 1e12,
+};
+
+// "$1.2B", "+3.5%", "1,500,000", "1.5 million" - sign, currency, number, suffix
+const NUMBER_REGEX =
+  /(?<![\w.$])([+-])?(\$)?(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)(?:\s?(k|mm|m|bn|b|t|thousand|million|billion|trillion)\b)?(%)?/gi;
+
+// Units that make a number a duration, ordinal or version rather than a claim
+const NON_CLAIM_SUFFIX = /^(?:\s?(?:h|hr|hrs|hours?|d|days?|w|wks?|weeks?|mo|months?|yrs?|years?|s|st|nd|rd|th|x)\b|\/)/i;
+
+/**
+ * Words near a number that name an on-chain metric
+ */
+const METRIC_KEYWORDS: Array<{ value: OnchainMetric | "price"; pattern: RegExp }> = [
+  { value: "tvl", pattern: /\b(?:tvl|total value locked)\b/i },
+  { value: "volume24h", pattern: /\b(?:volume|vol)\b/i },
+  { value: "fees24h", pattern: /\b(?:fees?|revenue)\b/i },
+  { value: "transactions24h", pattern: /\b(?:txs?|txns?|transactions?)\b/i },
+  { value: "activeAddresses24h", pattern: /\b(?:active addresses|addresses|wallets|users)\b/i },
+  // Not in the on-chain data, but news cites it; keeps prices from matching other metrics
+  { value: "price", pattern: /\b(?:price|priced|trading at)\b/i },
+];
+
+/**
+ * Words near a percentage that say which way it moved
+ */
+const DIRECTION_KEYWORDS: Array<{ value: 1 | -1; pattern: RegExp }> = [
+  { value: 1, pattern: /\b(?:up|rose|rise[sn]?|rising|gain(?:ed|s)?|jump(?:ed|s)?|surg(?:ed|es)|climb(?:ed|s)?|grew|grow(?:s|n)?|increase[ds]?|higher)\b/i },
+  { value: -1, pattern: /\b(?:down|fell|fall(?:s|en)?|drop(?:ped|s)?|declin(?:ed|es)|dip(?:ped|s)?|slid|slips?|slipped|lost|lose[s]?|decrease[ds]?|lower|plunged?)\b/i },
+];
+
+// How many characters around a number to look in for a metric or direction keyword
+const METRIC_WINDOW = 24;
+
+/**
+ * Extract numeric claims from text. Skips years, durations ("24h"),
+ * ordinals, thread numbering ("1/") and small bare integers ("3 things").
+ */
+export function extractNumericClaims(text: string): NumericClaim[] {
+  const withoutUrls = text.replace(/\b(?:https?:\/\/|www\.)\S+/gi, (url) => " ".repeat(url.length));
+  const claims: NumericClaim[] = [];
+
+  for (const match of withoutUrls.matchAll(NUMBER_REGEX)) {
+    const [raw, sign, currency, digits, suffix, percent] = match;
+    const start = match.index ?? 0;
+    const end = start + raw.length;
+
+    if (!suffix && !percent && NON_CLAIM_SUFFIX.test(withoutUrls.slice(end))) continue;
+
+    let value = Number(digits.replace(/,/g, ""));
+    if (suffix) value *= MULTIPLIERS[suffix.toLowerCase()];
+    if (sign === "-") value = -value;
+
+    const kind: NumericClaimKind = percent ? "percent" : currency ? "currency" : "count";
+    if (kind === "count" && !suffix) {
+      const isYear = /^(19|20)\d{2}$/.test(digits);
+      if (isYear || Math.abs(value) < 100) continue;
+    }
+
+    const metric = nearestKeyword(withoutUrls, start, end, METRIC_KEYWORDS);
+    if (kind !== "percent") {
+      claims.push({ text: raw.trim(), value, kind, metric });
+      continue;
+    }
+
+    // "down 3.5%" is a -3.5% move; an explicit sign wins over the wording
+    const direction = sign ? undefined : nearestKeyword(withoutUrls, start, end, DIRECTION_KEYWORDS);
+    claims.push({
+      text: raw.trim(),
+      value: direction ? direction * value : value,
+      kind,
+      metric,
+      directed: Boolean(sign || direction),
+    });
+  }
+
+  return claims;
+}
+
+/**
+ * The keyword closest to a number, within METRIC_WINDOW characters
+ */
+function nearestKeyword<T>(
+  text: string,
+  start: number,
+  end: number,
+  keywords: Array<{ value: T; pattern: RegExp }>
+): T | undefined {
+  const windowStart = Math.max(0, start - METRIC_WINDOW);
+  const nearby = text.slice(windowStart, end + METRIC_WINDOW);
+  let nearest: { value: T; distance: number } | undefined;
+
+  for (const { value, pattern } of keywords) {
+    for (const match of nearby.matchAll(new RegExp(pattern.source, "gi"))) {
+      const keywordStart = windowStart + (match.index ?? 0);
+      const keywordEnd = keywordStart + match[0].length;
+      const distance = keywordEnd <= start ? start - keywordEnd : Math.max(0, keywordStart - end);
+      if (!nearest || distance < nearest.distance) {
+        nearest = { value, distance };
+      }
+    }
+  }
+
+  return nearest?.value;
+}
+
+/**
+ * Every number a draft could legitimately cite from this input
+ */
+function collectReferences(input: GenerationInput): ReferenceValue[] {
+  const references: ReferenceValue[] = [];
+
+  if (input.onchainData) {
+    for (const { metric, kind, label } of ONCHAIN_METRICS) {
+      const value = input.onchainData[metric];
+      if (typeof value === "number") {
+        references.push({ value, kind, metric, source: `On-chain: ${label}` });
+      }
+    }
+  }
+
+  for (const item of input.news || []) {
+    for (const claim of extractNumericClaims(`${item.title}. ${item.summary}`)) {
+      references.push({ value: claim.value, kind: claim.kind, metric: claim.metric, source: `News: ${item.title}` });
+    }
+  }
+
+  for (const tweet of input.tweets || []) {
+    for (const claim of extractNumericClaims(tweet.content)) {
+      references.push({ value: claim.value, kind: claim.kind, metric: claim.metric, source: `@${tweet.authorHandle}` });
+    }
+  }
+
+  return references;
+}
+
+function withinTolerance(claim: NumericClaim, reference: ReferenceValue): boolean {
+  if (claim.kind === "percent") {
+    // Only a bare "3.5%" may describe either direction of a move
+    const diff = claim.directed
+      ? Math.abs(claim.value - reference.value)
+      : Math.abs(Math.abs(claim.value) - Math.abs(reference.value));
+    return diff <= config.factCheck.percentTolerance;
+  }
+  if (reference.value === 0) return claim.value === 0;
+  return Math.abs(claim.value - reference.value) / Math.abs(reference.value) <= config.factCheck.tolerance;
+}
+
+// Currency and counts can describe the same figure ("1.2B" TVL written without "$")
+function kindsCompatible(a: NumericClaimKind, b: NumericClaimKind): boolean {
+  return a === b || (a !== "percent" && b !== "percent");
+}
+
+/**
+ * A claim that names a metric is only compared with numbers for that metric
+ * ("TVL up 12%" is about tvlChange24h/7d, hence the prefix match); only
+ * claims naming none may match any number in the input.
+ */
+function checkClaim(claim: NumericClaim, references: ReferenceValue[]): Omit<ClaimCheck, "post"> {
+  const { directed: _directed, ...reported } = claim;
+  const candidates = references.filter(
+    (r) => kindsCompatible(claim.kind, r.kind) && (!claim.metric || r.metric?.startsWith(claim.metric))
+  );
+  const match = candidates.find((r) => withinTolerance(claim, r));
+
+  if (match) {
+    return { ...reported, status: "verified", matchedSource: match.source, matchedValue: match.value };
+  }
+
+  // The claim names a metric we have a number for, and that number disagrees
+  const contradicted = claim.metric ? candidates[0] : undefined;
+  if (contradicted) {
+    return {
+      ...reported,
+      status: "mismatch",
+      matchedSource: contradicted.source,
+      matchedValue: contradicted.value,
+    };
+  }
+
+  return { ...reported, status: "unsupported" };
+}
+
+/**
+ * Check every numeric claim in a draft (all posts, for threads)
+ */
+export function factCheckDraft(draft: TweetDraft, input: GenerationInput): FactCheckResult {
+  const references = collectReferences(input);
+  const posts = draft.format === "thread" && draft.posts ? draft.posts : [draft.content];
+  const isThread = posts.length > 1 || draft.format === "thread";
+
+  const claims: ClaimCheck[] = posts.flatMap((post, index) =>
+    extractNumericClaims(post).map((claim) => ({
+      ...checkClaim(claim, references),
+      ...(isThread ? { post: index } : {}),
+    }))
+  );
+
+  return {
+    status: summarizeStatus(claims.map((c) => c.status)),
+    claims,
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+function summarizeStatus(statuses: ClaimStatus[]): FactCheckResult["status"] {
+  if (statuses.length === 0) return "no-claims";
+  if (statuses.includes("mismatch")) return "mismatch";
+  if (statuses.includes("unsupported")) return "unsupported";
+  return "verified";
+}
@@ -0,0 +1,155 @@
+/**
+ * Draft History
+ *
+ * Recent drafts (config.output.draftsDir/*.json) and our own recent tweets
+ * (the voice corpus, or the profile's samples until there is one), used to
+ * tell the model what was covered lately and to flag drafts that repeat it.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { config } from "../lib/config";
+import { DEFAULT_PROFILE_ID, getDefaultVoiceProfile } from "../voice/profiles";
+import { readCorpus } from "../scrapers/voice-corpus";
+import { draftRunKey } from "./draft-runs";
+import type { HistoryEntry, SimilarityIndex, TweetDraft, TweetDraftsOutput, VoiceProfile } from "../types";
+
+const DRAFTS_FILE_REGEX = /^(\d{4}-\d{2}-\d{2})\.json$/;
+
+/**
+ * Text compared for similarity - every post, for threads
+ */
+export function draftText(draft: Pick<TweetDraft, "content" | "posts">): string {
+  return draft.posts?.length ? draft.posts.join("\n") : draft.content;
+}
+
+/**
+ * Whether a draft speaks for its variant group: the picked variant, or the
+ * original until one is picked. Drafts outside a group always do.
+ */
+export function isVariantPick(draft: TweetDraft): boolean {
+  if (!draft.variantGroup) return true;
+  return draft.variantStatus ? draft.variantStatus === "chosen" : draft.id === draft.variantGroup;
+}
+
+/**
+ * Stored draft files dated within [start, end] (YYYY-MM-DD, inclusive), newest first
+ */
+export function readDraftsFiles(start: string, end: string): TweetDraftsOutput[] {
+  const dir = config.output.draftsDir;
+  const files = fs.existsSync(dir) ? fs.readdirSync(dir) : [];
+  const outputs: TweetDraftsOutput[] = [];
+
+  for (const file of files.sort().reverse()) {
+    const date = file.match(DRAFTS_FILE_REGEX)?.[1];
+    if (!date || date > end || date < start) continue;
+
+    try {
+      outputs.push(JSON.parse(fs.readFileSync(path.join(dir, file), "utf-8")) as TweetDraftsOutput);
+    } catch {
+      // A corrupt day shouldn't block generation
+      console.warn(`Skipping unreadable drafts file: ${file}`);
+    }
+  }
+
+  return outputs;
+}
+
+/**
+ * The profile's drafts and posted tweets from the last `lookbackDays` days.
+ * Today's drafts count too, except those of `currentRun` (a run key, see
+ * draftRunKey), which the run replaces or, for an edit, belong to the same
+ * batch.
+ */
+export function loadHistory(
+  now: Date = new Date(),
+  lookbackDays: number = config.history.lookbackDays,
+  profile: VoiceProfile = getDefaultVoiceProfile(),
+  currentRun?: string
+): HistoryEntry[] {
+  const today = now.toISOString().split("T")[0];
+  const cutoff = new Date(now.getTime() - lookbackDays * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+  const entries: HistoryEntry[] = [];
+
+  for (const data of readDraftsFiles(cutoff, today)) {
+    // Replies respond to someone else's topic, so they don't use one up;
+    // other personas keep their own history
+    const drafts = data.drafts.filter(
+      (d) =>
+        !d.replyTo &&
+        isVariantPick(d) &&
+        (d.profileId ?? DEFAULT_PROFILE_ID) === profile.id &&
+        !(data.date === today && draftRunKey(d) === currentRun)
+    );
+    for (const draft of drafts) {
+      entries.push({ id: draft.id, text: draftText(draft), source: "draft", date: data.date });
+    }
+  }
+
+  // What the account posted lately, once its tweets are in the local corpus.
+  // Undated samples can't be placed, so they all count.
+  const corpus = readCorpus(profile.handle);
+  if (corpus?.tweets.length) {
+    for (const tweet of corpus.tweets) {
+      const date = tweet.created_at.slice(0, 10);
+      if (date < cutoff) continue;
+      entries.push({ id: `posted-${tweet.id}`, text: tweet.text, source: "posted", date });
+    }
+  } else {
+    profile.samples.forEach((sample, i) => {
+      const date = sample.postedAt?.slice(0, 10);
+      if (date && date < cutoff) return;
+      entries.push({ id: `posted-${i}`, text: sample.text, source: "posted", ...(date && { date }) });
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Prompt section listing recently drafted topics, or "" when there are none
+ */
+export function buildRecentTopicsSection(history: HistoryEntry[], index: SimilarityIndex): string {
+  const recentDrafts = history
+    .filter((entry) => entry.source === "draft")
+    .slice(0, config.history.maxPromptItems);
+
+  if (recentDrafts.length === 0) {
+    return "";
+  }
+
+  const phrases = index.recurringPhrases(10);
+  const lines = recentDrafts.map((entry) => {
+    const firstLine = entry.text.split("\n")[0];
+    return `- [${entry.date}] ${firstLine.length > 120 ? `${firstLine.slice(0, 117)}...` : firstLine}`;
+  });
+
+  return `## RECENTLY COVERED (last ${config.history.lookbackDays} days - do NOT repeat these angles)
+${lines.join("\n")}
+${phrases.length > 0 ? `\nOverused lately: ${phrases.map((p) => `"${p}"`).join(", ")}\n` : ""}
+Pick new angles or new developments. Only revisit a topic if there is genuinely new data.
+`;
+}
+
+/**
+ * Set `duplicateOf` on drafts too similar to history; returns the flagged drafts
+ */
+export function flagDuplicates(
+  drafts: TweetDraft[],
+  index: SimilarityIndex,
+  threshold: number = config.history.similarityThreshold
+): TweetDraft[] {
+  const flagged: TweetDraft[] = [];
+
+  for (const draft of drafts) {
+    const [best] = index.findSimilar(draftText(draft));
+    if (best && best.score >= threshold) {
+      draft.duplicateOf = best;
+      flagged.push(draft);
+    } else {
+      delete draft.duplicateOf;
+    }
+  }
+
+  return flagged;
+}
@@ -0,0 +1,80 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createFakeProvider } from "../llm/fake";
+import { config } from "../lib/config";
+import { completeJson } from "./json-completion";
+import { parseResponse } from "./tweet-generator";
+import { ErrorCode } from "../types";
+import type { LLMProvider, LLMRequest } from "../types";
+
+const VALID = JSON.stringify([
+  { content: "Avalanche TVL hit $1.2B today", source: "onchain", context: "TVL", confidence: 0.8, sourceIds: [] },
+]);
+
+const request: LLMRequest = {
+  feature: "generate",
+  messages: [{ role: "user", content: "Write drafts" }],
+};
+
+const options = {
+  label: "Drafts",
+  parse: (text: string) => parseResponse(text, "single"),
+  repairRules: ["Return ONLY a JSON array of drafts"],
+};
+
+/** Records every request it gets */
+function recording(provider: LLMProvider): { provider: LLMProvider; requests: LLMRequest[] } {
+  const requests: LLMRequest[] = [];
+  return {
+    requests,
+    provider: {
+      name: provider.name,
+      complete: (req) => {
+        requests.push(req);
+        return provider.complete(req);
+      },
+    },
+  };
+}
+
+test("invalid JSON gets a repair call naming the problem, and the repaired answer is used", async () => {
+  const { provider, requests } = recording(
+    createFakeProvider({ generate: (req) => (req.repairAttempt ? VALID : "Sure! Here are your drafts: [") })
+  );
+
+  const result = await completeJson(provider, request, options);
+  assert.ok(result.success);
+  assert.equal(result.data.data[0].content, "Avalanche TVL hit $1.2B today");
+
+  assert.equal(requests.length, 2);
+  const repair = requests[1];
+  assert.equal(repair.repairAttempt, 1);
+  assert.equal(repair.feature, "generate");
+  // The model sees its own answer, then what was wrong with it
+  const [, answer, prompt] = repair.messages;
+  assert.equal(answer.role, "assistant");
+  assert.equal(answer.content, "Sure! Here are your drafts: [");
+  assert.match(prompt.content, /\(root\): Invalid JSON/);
+  assert.match(prompt.content, /Return ONLY a JSON array of drafts/);
+});
+
+test("a schema failure is repaired by field", async () => {
+  const missingSource = JSON.stringify([{ content: "gm", context: "x", confidence: 0.5, sourceIds: [] }]);
+  const { provider, requests } = recording(
+    createFakeProvider({ generate: (req) => (req.repairAttempt ? VALID : missingSource) })
+  );
+
+  const result = await completeJson(provider, request, options);
+  assert.ok(result.success);
+  assert.match(requests[1].messages.at(-1)!.content, /\[0\]\.source/);
+});
+
+test("gives up after ai.maxParseAttempts calls", async () => {
+  const { provider, requests } = recording(createFakeProvider({ generate: "not json" }));
+
+  const result = await completeJson(provider, request, options);
+  assert.equal(result.success, false);
+  assert.equal(!result.success && result.error.code, ErrorCode.AI_INVALID_RESPONSE);
+  assert.equal(requests.length, config.ai.maxParseAttempts);
+  assert.deepEqual(requests.map((r) => r.repairAttempt), [undefined, ...Array.from({ length: config.ai.maxParseAttempts - 1 }, (_, i) => i + 1)]);
+});
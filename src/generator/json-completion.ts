@@ -0,0 +1,125 @@
+/**
+ * JSON Completion
+ *
+ * Shared request → validate → repair loop for every generation stage that
+ * expects structured JSON back from the model.
+ */
+
+import { config } from "../lib/config";
+import { success, fail } from "../lib/errors";
+import type {
+  Result,
+  DraftValidationIssue,
+  LLMMessage,
+  LLMProvider,
+  LLMRequest,
+} from "../types";
+import { ErrorCode as EC } from "../types";
+
+export interface JsonCompletion<T> {
+  data: T;
+  tokensUsed: number;
+  model: string;
+}
+
+interface JsonCompletionOptions<T> {
+  /** Used in error messages, e.g. "Drafts" or "Critique" */
+  label: string;
+  /** Validate the raw text; failures carry `details.issues` */
+  parse: (text: string) => Result<T>;
+  /** Reminders included in every repair prompt */
+  repairRules: string[];
+}
+
+/**
+ * Strip markdown fences and parse JSON, reporting syntax errors as an issue
+ */
+export function parseJsonText(text: string): Result<unknown> {
+  // Clean up response (remove markdown code blocks if present)
+  let jsonText = text.trim();
+  if (jsonText.startsWith("```json")) {
+    jsonText = jsonText.slice(7);
+  } else if (jsonText.startsWith("```")) {
+    jsonText = jsonText.slice(3);
+  }
+  if (jsonText.endsWith("```")) {
+    jsonText = jsonText.slice(0, -3);
+  }
+
+  try {
+    return success(JSON.parse(jsonText.trim()));
+  } catch (error) {
+    const issues: DraftValidationIssue[] = [
+      { path: "(root)", message: `Invalid JSON: ${error instanceof Error ? error.message : "parse error"}` },
+    ];
+    return fail(EC.AI_INVALID_RESPONSE, "Failed to parse AI response as JSON", { issues });
+  }
+}
+
+/**
+ * Run a completion and repair it until `parse` accepts it, for at most
+ * config.ai.maxParseAttempts calls. Repair calls keep the request's feature
+ * and are marked with `repairAttempt`.
+ */
+export async function completeJson<T>(
+  provider: LLMProvider,
+  request: LLMRequest,
+  options: JsonCompletionOptions<T>
+): Promise<Result<JsonCompletion<T>>> {
+  const messages: LLMMessage[] = [...request.messages];
+  const maxAttempts = Math.max(1, config.ai.maxParseAttempts);
+
+  let tokensUsed = 0;
+  let issues: DraftValidationIssue[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const response = await provider.complete({
+      ...request,
+      ...(attempt > 1 && { repairAttempt: attempt - 1 }),
+      messages,
+    });
+
+    if (!response.success) {
+      return response;
+    }
+
+    tokensUsed += response.data.usage.inputTokens + response.data.usage.outputTokens;
+
+    const parsed = options.parse(response.data.text);
+    if (parsed.success) {
+      return success({ data: parsed.data, tokensUsed, model: response.data.model });
+    }
+
+    issues = (parsed.error.details as { issues: DraftValidationIssue[] }).issues;
+    console.warn(`${options.label} validation failed (attempt ${attempt}/${maxAttempts}):`, issues);
+
+    // Show the model its own answer and exactly what was wrong with it
+    messages.push(
+      { role: "assistant", content: response.data.text },
+      { role: "user", content: buildRepairPrompt(issues, options.repairRules) }
+    );
+  }
+
+  const failedFields = Array.from(new Set(issues.map((i) => i.path.replace(/^\[\d+\]\.?/, "") || i.path)));
+
+  return fail(
+    EC.AI_INVALID_RESPONSE,
+    `${options.label} failed validation after ${maxAttempts} attempt${maxAttempts === 1 ? "" : "s"} (fields: ${failedFields.join(", ")})`,
+    { attempts: maxAttempts, failedFields, issues, tokensUsed }
+  );
+}
+
+/**
+ * Build the follow-up prompt asking the model to fix specific validation failures
+ */
+function buildRepairPrompt(issues: DraftValidationIssue[], rules: string[]): string {
+  const issueList = issues.map((i) => `- ${i.path}: ${i.message}`).join("\n");
+
+  return `Your previous response did not pass validation:
+${issueList}
+
+Fix ONLY these problems and keep every other entry and field as it was.
+${rules.map((r) => `- ${r}`).join("\n")}
+
+Return ONLY the corrected JSON array, no other text or markdown.`;
+}
@@ -0,0 +1,327 @@
+/**
+ * Generation Pipeline Stages
+ *
+ * The stages that run after the initial drafts:
+ * - critique: a 10-expert panel scores every draft
+ * - rewrite: drafts are rewritten in the voice profile's voice, using the panel's feedback
+ *
+ * Each stage is a separate model call so its output can be stored on the draft.
+ */
+
+import { config } from "../lib/config";
+import { success, fail } from "../lib/errors";
+import { completeJson, parseJsonText } from "./json-completion";
+import { critiqueResponseSchema, rewriteResponseSchema, toValidationIssues } from "./draft-schema";
+import { describeFingerprint, profileFingerprint } from "../voice/fingerprint";
+import type {
+  Result,
+  TweetDraft,
+  DraftCritique,
+  DraftSnapshot,
+  DraftValidationIssue,
+  LLMProvider,
+  VoiceProfile,
+} from "../types";
+import { ErrorCode as EC } from "../types";
+
+export interface StageOutput<T> {
+  byDraftId: Record<string, T>;
+  tokensUsed: number;
+  model: string;
+}
+
+export type DraftRewrite = DraftSnapshot & { notes: string };
+
+/**
+ * The expert panel that critiques every draft
+ */
+export const EXPERT_PANEL: Array<{ expert: string; question: string }> = [
+  { expert: "Twitter Growth Expert", question: "Does it have a strong hook in the first 5 words? Will people stop scrolling?" },
+  { expert: "Crypto Twitter (CT) Veteran", question: "Does it sound native to CT? Avoid cringe, feel authentic?" },
+  { expert: "Legendary Copywriter", question: "Is every word earning its place? Cut the fluff." },
+  { expert: "Brand Voice Coach", question: "Does this sound like the account it's written for? Match the persona exactly." },
+  { expert: "Data Storyteller", question: "Are numbers presented compellingly, not just stated?" },
+  { expert: "Comedy Writer", question: "Is the humor natural, not forced? Does the wit land?" },
+  { expert: "Avalanche Community Expert", question: "Will the AVAX community engage? Does it resonate?" },
+  { expert: "Institutional Investor", question: "Is it credible? Would a serious person share this?" },
+  { expert: "Short-Form Master", question: `Is it punchy? Can any words be cut? Under ${config.voice.tweetMaxLength} chars?` },
+  { expert: "Engagement Optimizer", question: "Does it invite replies, RTs, or discussion?" },
+];
+
+/**
+ * Tells that make a tweet read as AI-written
+ */
+export const DE_AI_CHECKLIST = [
+  'NO starting with "Just" or "So"',
+  'NO "Here\'s why this matters:" - just say it',
+  'NO "Let\'s talk about..." - just talk about it',
+  "NO exclamation marks unless genuinely exciting!!",
+  'NO "Unpopular opinion:" - just state the opinion',
+  "NO formulaic structures (hook → context → CTA)",
+  "NO sounding like a LinkedIn post",
+  "NO corporate smooth edges - keep some rough authenticity",
+];
+
+/**
+ * The personal voice, for profiles that don't describe their own traits.
+ * Punctuation and casing habits come from the measured fingerprint instead.
+ */
+const VOICE_DNA = [
+  "Writes like they're texting a smart friend, not posting for clout",
+  "Has opinions but backs them with data",
+  "Self-aware humor, never try-hard",
+  "Would rather understate than hype",
+  "Uses specific numbers, not vague claims",
+  "Comfortable being contrarian when right",
+  "Sounds like a real person at a conference bar, not a brand account",
+];
+
+/**
+ * Drafts as the JSON block the critique and rewrite stages work on
+ */
+function draftsForPrompt(drafts: TweetDraft[]): string {
+  const entries = drafts.map((d) => ({
+    id: d.id,
+    format: d.format || "single",
+    ...(d.format === "thread" ? { posts: d.posts } : { content: d.content }),
+    context: d.context,
+  }));
+  return "```json\n" + JSON.stringify(entries, null, 2) + "\n```";
+}
+
+/**
+ * Issues for drafts the model skipped
+ */
+function missingDraftIssues(drafts: TweetDraft[], returnedIds: string[]): DraftValidationIssue[] {
+  return drafts
+    .filter((d) => !returnedIds.includes(d.id))
+    .map((d) => ({ path: "(root)", message: `Missing entry for draft id "${d.id}"` }));
+}
+
+// ===========================================
+// CRITIQUE STAGE
+// ===========================================
+
+/**
+ * Have the expert panel score every draft
+ */
+export async function critiqueDrafts(
+  drafts: TweetDraft[],
+  provider: LLMProvider,
+  profile: VoiceProfile
+): Promise<Result<StageOutput<DraftCritique>>> {
+  const panel = EXPERT_PANEL.map((e, i) => `${i + 1}. **${e.expert}** - ${e.question}`).join("\n");
+
+  const system = `You are a panel of 10 experts reviewing tweet drafts for @${profile.handle}, an account in the Avalanche ecosystem (${profile.style.join(", ")}).
+
+## The Panel
+${panel}
+
+Each expert scores every draft from 1 (post-worthy never) to 10 (post it now) and gives one sentence of specific, actionable feedback. Be honest - most drafts are not 9s.
+
+## Output Format
+Return ONLY a JSON array with one entry per draft:
+[
+  {
+    "id": "the draft id",
+    "scores": [
+      { "expert": "Twitter Growth Expert", "score": 1-10, "feedback": "One specific sentence" }
+    ],
+    "summary": "The panel's overall verdict in one sentence",
+    "suggestions": ["Concrete change to make", "..."]
+  }
+]`;
+
+  const result = await completeJson(
+    provider,
+    {
+      feature: "critique",
+      system,
+      messages: [{ role: "user", content: `Review these drafts:\n\n${draftsForPrompt(drafts)}` }],
+      model: config.ai.model,
+      maxTokens: config.ai.maxTokens,
+    },
+    {
+      label: "Critique",
+      parse: (text) => parseCritique(text, drafts),
+      repairRules: [
+        "Include exactly one entry per draft id",
+        `Every entry needs a score (1-10) from each of the ${EXPERT_PANEL.length} experts`,
+      ],
+    }
+  );
+
+  if (!result.success) {
+    return result;
+  }
+
+  return success({ byDraftId: result.data.data, tokensUsed: result.data.tokensUsed, model: result.data.model });
+}
+
+/**
+ * Validate the panel's response and index it by draft id
+ */
+function parseCritique(text: string, drafts: TweetDraft[]): Result<Record<string, DraftCritique>> {
+  const json = parseJsonText(text);
+  if (!json.success) {
+    return json;
+  }
+
+  const validated = critiqueResponseSchema.safeParse(json.data);
+  if (!validated.success) {
+    return fail(EC.AI_INVALID_RESPONSE, "Critique failed validation", {
+      issues: toValidationIssues(validated.error),
+    });
+  }
+
+  const issues = missingDraftIssues(drafts, validated.data.map((c) => c.id));
+  if (issues.length > 0) {
+    return fail(EC.AI_INVALID_RESPONSE, "Critique skipped drafts", { issues });
+  }
+
+  const byDraftId: Record<string, DraftCritique> = {};
+  for (const entry of validated.data) {
+    const total = entry.scores.reduce((sum, s) => sum + s.score, 0);
+    byDraftId[entry.id] = {
+      scores: entry.scores,
+      averageScore: Math.round((total / entry.scores.length) * 10) / 10,
+      summary: entry.summary,
+      suggestions: entry.suggestions,
+    };
+  }
+  return success(byDraftId);
+}
+
+// ===========================================
+// REWRITE STAGE
+// ===========================================
+
+/**
+ * Rewrite every draft in the profile's voice, applying the panel's feedback when there is any
+ */
+export async function rewriteDrafts(
+  drafts: TweetDraft[],
+  critiques: Record<string, DraftCritique> | undefined,
+  provider: LLMProvider,
+  profile: VoiceProfile
+): Promise<Result<StageOutput<DraftRewrite>>> {
+  const sampleTweets = profile.samples.map((s) => `- "${s.text}"`).join("\n");
+  const fingerprint = profileFingerprint(profile);
+  const habits = fingerprint
+    ? `## Measured writing habits (from ${fingerprint.tweetCount} tweets - match these numbers)\n${describeFingerprint(fingerprint).map((line) => `- ${line}`).join("\n")}\n\n`
+    : "";
+
+  const system = `You rewrite tweet drafts in the authentic voice of @${profile.handle}, an account in the Avalanche ecosystem.
+
+## Voice DNA to inject
+${(profile.traits ?? VOICE_DNA).map((v) => `- ${v}`).join("\n")}
+
+${habits}## De-AI checklist (remove these tells)
+${DE_AI_CHECKLIST.map((c) => `- ${c}`).join("\n")}
+
+${sampleTweets.length > 0 ? `## Example Tweets (study this voice carefully)\n${sampleTweets}\n` : ""}
+## Rules
+- Keep each draft's topic, facts and numbers - change HOW it is said, not WHAT
+- Max ${config.voice.tweetMaxLength} characters per tweet (per post for threads)
+- Threads keep their posts in order; return "posts" for threads and "content" for single tweets
+
+**Final vibe check:** Would @${profile.handle} actually tweet this while walking to get coffee? If it sounds too polished or "content-y", rough it up.
+
+## Output Format
+Return ONLY a JSON array with one entry per draft:
+[
+  {
+    "id": "the draft id",
+    "content": "Rewritten tweet (single tweets only)",
+    "posts": ["Rewritten post 1", "Rewritten post 2"],
+    "notes": "What you changed and why, in one sentence"
+  }
+]`;
+
+  let userPrompt = `Rewrite these drafts:\n\n${draftsForPrompt(drafts)}`;
+  if (critiques) {
+    const feedback = drafts
+      .map((d) => {
+        const c = critiques[d.id];
+        if (!c) return "";
+        const lowest = [...c.scores].sort((a, b) => a.score - b.score).slice(0, 3);
+        return `### ${d.id} (panel average ${c.averageScore}/10)
+${c.summary}
+${lowest.map((s) => `- ${s.expert} (${s.score}/10): ${s.feedback}`).join("\n")}
+${c.suggestions.map((s) => `- Suggestion: ${s}`).join("\n")}`;
+      })
+      .filter(Boolean)
+      .join("\n\n");
+    userPrompt += `\n\n## Expert Panel Feedback (address the weakest scores)\n${feedback}`;
+  }
+
+  const result = await completeJson(
+    provider,
+    {
+      feature: "rewrite",
+      system,
+      messages: [{ role: "user", content: userPrompt }],
+      model: config.ai.model,
+      maxTokens: config.ai.maxTokens,
+    },
+    {
+      label: "Rewrite",
+      parse: (text) => parseRewrite(text, drafts),
+      repairRules: [
+        "Include exactly one entry per draft id",
+        `Every tweet and thread post must be non-empty and at most ${config.voice.tweetMaxLength} characters`,
+        'Threads need "posts"; single tweets need "content"',
+      ],
+    }
+  );
+
+  if (!result.success) {
+    return result;
+  }
+
+  return success({ byDraftId: result.data.data, tokensUsed: result.data.tokensUsed, model: result.data.model });
+}
+
+/**
+ * Validate rewritten drafts and index them by draft id
+ */
+function parseRewrite(text: string, drafts: TweetDraft[]): Result<Record<string, DraftRewrite>> {
+  const json = parseJsonText(text);
+  if (!json.success) {
+    return json;
+  }
+
+  const validated = rewriteResponseSchema.safeParse(json.data);
+  if (!validated.success) {
+    return fail(EC.AI_INVALID_RESPONSE, "Rewrite failed validation", {
+      issues: toValidationIssues(validated.error),
+    });
+  }
+
+  const issues = missingDraftIssues(drafts, validated.data.map((r) => r.id));
+  const byDraftId: Record<string, DraftRewrite> = {};
+
+  validated.data.forEach((entry, index) => {
+    const draft = drafts.find((d) => d.id === entry.id);
+    if (!draft) return;
+
+    if (draft.format === "thread") {
+      if (!entry.posts) {
+        issues.push({ path: `[${index}].posts`, message: "Thread rewrites need a posts array" });
+        return;
+      }
+      byDraftId[entry.id] = { content: entry.posts[0], posts: entry.posts, notes: entry.notes };
+    } else {
+      if (!entry.content) {
+        issues.push({ path: `[${index}].content`, message: "Single tweet rewrites need content" });
+        return;
+      }
+      byDraftId[entry.id] = { content: entry.content, notes: entry.notes };
+    }
+  });
+
+  if (issues.length > 0) {
+    return fail(EC.AI_INVALID_RESPONSE, "Rewrite failed validation", { issues });
+  }
+  return success(byDraftId);
+}
@@ -0,0 +1,79 @@
+/**
+ * Preference Ledger
+ *
+ * "Chosen over rejected" pairs, one JSON line each in
+ * config.preferences.ledgerPath, kept as training / tuning data for the voice.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { config } from "../lib/config";
+import { success, fail } from "../lib/errors";
+import type { PreferencePair, PreferenceSide, Result, TweetDraft } from "../types";
+import { ErrorCode } from "../types";
+
+export function toPreferenceSide(draft: TweetDraft): PreferenceSide {
+  return {
+    draftId: draft.id,
+    content: draft.content,
+    ...(draft.posts && { posts: draft.posts }),
+    ...(draft.variantAngle && { angle: draft.variantAngle }),
+  };
+}
+
+/**
+ * Keep the generated text on the draft, unless it already has it
+ */
+export function rememberOriginal(draft: TweetDraft): void {
+  if (!draft.original) {
+    draft.original = { content: draft.content, ...(draft.posts && { posts: [...draft.posts] }) };
+  }
+}
+
+/**
+ * The draft as generated, the rejected side of every edit to it; a second
+ * edit isn't paired against our own first one
+ */
+export function originalSide(draft: TweetDraft): PreferenceSide {
+  const { original } = draft;
+  if (!original) return toPreferenceSide(draft);
+
+  return {
+    draftId: draft.id,
+    content: original.content,
+    ...(original.posts && { posts: original.posts }),
+    ...(draft.variantAngle && { angle: draft.variantAngle }),
+  };
+}
+
+/**
+ * Append pairs to the ledger
+ */
+export function recordPreferences(pairs: PreferencePair[]): Result<number> {
+  try {
+    fs.mkdirSync(path.dirname(config.preferences.ledgerPath), { recursive: true });
+    fs.appendFileSync(config.preferences.ledgerPath, pairs.map((pair) => JSON.stringify(pair) + "\n").join(""));
+    return success(pairs.length);
+  } catch (error) {
+    return fail(ErrorCode.UNKNOWN_ERROR, "Failed to record preferences", error);
+  }
+}
+
+/**
+ * Every recorded pair, oldest first
+ */
+export function readPreferences(): PreferencePair[] {
+  if (!fs.existsSync(config.preferences.ledgerPath)) return [];
+
+  return fs
+    .readFileSync(config.preferences.ledgerPath, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as PreferencePair];
+      } catch {
+        return [];
+      }
+    });
+}
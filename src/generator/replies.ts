@@ -0,0 +1,252 @@
+/**
+ * Reply Suggestions
+ *
+ * Picks the scraped tweets most worth responding to (engagement, decayed by
+ * age) and drafts a reply and a quote-tweet for each in a voice profile's voice.
+ * Suggestions are regular TweetDrafts with `replyTo` set, so editing,
+ * revising and linting work on them unchanged.
+ */
+
+import { config } from "../lib/config";
+import { success, fail } from "../lib/errors";
+import { getLLMProvider } from "../llm/provider";
+import { checkBudget } from "../llm/usage";
+import { renderPrompt } from "../lib/prompt-templates";
+import { lintDraft, lintRulesFromGuidelines } from "../lib/tweet-text";
+import { completeJson, parseJsonText } from "./json-completion";
+import { replySuggestionsSchema, toValidationIssues } from "./draft-schema";
+import { buildSourceCatalog, resolveSourceData } from "./sources";
+import { factCheckDraft } from "./fact-check";
+import { rememberOriginal } from "./preferences";
+import { DE_AI_CHECKLIST } from "./pipeline";
+import { getDefaultVoiceProfile } from "../voice/profiles";
+import { profileFingerprint, scoreVoiceDistance } from "../voice/fingerprint";
+import type {
+  DraftValidationIssue,
+  GenerationInput,
+  GenerationOutput,
+  LLMProvider,
+  ReplyKind,
+  Result,
+  SourceRef,
+  TweetDraft,
+  TwitterPost,
+  VoiceProfile,
+} from "../types";
+import { ErrorCode as EC } from "../types";
+
+const REPLY_KINDS: ReplyKind[] = ["reply", "quote"];
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Raw engagement, weighting retweets (reach) above likes
+ */
+export function engagementScore(tweet: TwitterPost): number {
+  const e = tweet.engagement;
+  return e ? e.likes + e.retweets * 2 + e.replies : 0;
+}
+
+export function tweetUrl(tweet: Pick<TwitterPost, "id" | "authorHandle">): string {
+  return `https://x.com/${tweet.authorHandle}/status/${tweet.id}`;
+}
+
+/**
+ * The tweets most worth replying to: log-scaled engagement, halved every
+ * recencyHalfLifeHours. Tweets from `ownHandle` and ones older than maxAgeHours are skipped.
+ */
+export function rankReplyTargets(
+  tweets: TwitterPost[],
+  now: Date = new Date(),
+  limit: number = config.replies.maxTargets,
+  ownHandle: string = config.voice.twitterHandle
+): TwitterPost[] {
+  const own = ownHandle.toLowerCase();
+
+  return tweets
+    .filter((tweet) => tweet.authorHandle.toLowerCase() !== own)
+    .map((tweet) => {
+      const ageHours = Math.max(0, now.getTime() - new Date(tweet.postedAt).getTime()) / HOUR_MS;
+      const score = Math.log1p(engagementScore(tweet)) * 0.5 ** (ageHours / config.replies.recencyHalfLifeHours);
+      return { tweet, ageHours, score };
+    })
+    .filter(({ ageHours }) => ageHours <= config.replies.maxAgeHours)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ tweet }) => tweet);
+}
+
+function formatAge(postedAt: string, now: Date): string {
+  const hours = Math.round((now.getTime() - new Date(postedAt).getTime()) / HOUR_MS);
+  return hours < 1 ? "just now" : hours < 48 ? `${hours}h ago` : `${Math.round(hours / 24)}d ago`;
+}
+
+function buildTargetsSection(catalog: Map<string, SourceRef>, now: Date): string {
+  return [...catalog.values()]
+    .flatMap((ref) => (ref.kind === "tweet" ? [{ id: ref.id, tweet: ref.item }] : []))
+    .map(({ id, tweet }) => {
+      const e = tweet.engagement;
+      const stats = e ? `${e.likes} likes, ${e.retweets} RTs, ${e.replies} replies, ` : "";
+      return `- [${id}] @${tweet.authorHandle} (${stats}${formatAge(tweet.postedAt, now)}): "${tweet.content}"`;
+    })
+    .join("\n");
+}
+
+/**
+ * Validate the model's suggestions: known target IDs, and exactly one
+ * reply and one quote per target
+ */
+function parseReplies(
+  text: string,
+  catalog: Map<string, SourceRef>
+): Result<Array<{ targetId: string; kind: ReplyKind; content: string; context: string; confidence: number }>> {
+  const json = parseJsonText(text);
+  if (!json.success) {
+    return json;
+  }
+
+  const validated = replySuggestionsSchema.safeParse(json.data);
+  if (!validated.success) {
+    return fail(EC.AI_INVALID_RESPONSE, "AI response failed reply validation", {
+      issues: toValidationIssues(validated.error),
+    });
+  }
+
+  const issues: DraftValidationIssue[] = [];
+  validated.data.forEach((suggestion, index) => {
+    if (!catalog.has(suggestion.targetId)) {
+      issues.push({
+        path: `[${index}].targetId`,
+        message: `unknown tweet id "${suggestion.targetId}" (valid: ${[...catalog.keys()].join(", ")})`,
+      });
+    }
+  });
+  for (const targetId of catalog.keys()) {
+    for (const kind of REPLY_KINDS) {
+      const count = validated.data.filter((s) => s.targetId === targetId && s.kind === kind).length;
+      if (count !== 1) {
+        issues.push({ path: "(root)", message: `${targetId} needs exactly one "${kind}" (got ${count})` });
+      }
+    }
+  }
+  if (issues.length > 0) {
+    return fail(EC.AI_INVALID_RESPONSE, "AI response didn't cover every tweet once per kind", { issues });
+  }
+
+  return success(validated.data);
+}
+
+/**
+ * Draft a reply and a quote-tweet for each top-ranked tweet, as `profile`
+ */
+export async function suggestReplies(
+  tweets: TwitterPost[],
+  provider: LLMProvider = getLLMProvider(),
+  now: Date = new Date(),
+  profile: VoiceProfile = getDefaultVoiceProfile()
+): Promise<Result<GenerationOutput>> {
+  const targets = rankReplyTargets(tweets, now, undefined, profile.handle);
+  if (targets.length === 0) {
+    return fail(
+      EC.NO_DATA_AVAILABLE,
+      `No tweets from the last ${config.replies.maxAgeHours}h to reply to`
+    );
+  }
+
+  const budget = checkBudget();
+  if (!budget.success) {
+    return budget;
+  }
+
+  const input: GenerationInput = { tweets: targets };
+  const catalog = buildSourceCatalog(input);
+
+  const systemPrompt = renderPrompt("reply-system", {
+    handle: profile.handle,
+    style: profile.style.join(", "),
+    avoidWords: profile.guidelines.avoidWords.map((w) => `- "${w}"`).join("\n"),
+    sampleTweets: profile.samples.length > 0
+      ? `### Example Tweets (study this voice carefully)\n${profile.samples.map((s) => `- "${s.text}"`).join("\n")}`
+      : "",
+    deAiChecklist: DE_AI_CHECKLIST.map((c) => `- ${c}`).join("\n"),
+    maxLength: config.voice.tweetMaxLength,
+  });
+  if (!systemPrompt.success) {
+    return systemPrompt;
+  }
+  const userPrompt = renderPrompt("reply-user", {
+    targets: buildTargetsSection(catalog, now),
+    handle: profile.handle,
+  });
+  if (!userPrompt.success) {
+    return userPrompt;
+  }
+
+  const completed = await completeJson(
+    provider,
+    {
+      feature: "reply",
+      system: systemPrompt.data,
+      messages: [{ role: "user", content: userPrompt.data }],
+      model: config.ai.model,
+      maxTokens: config.ai.maxTokens,
+    },
+    {
+      label: "Replies",
+      parse: (text) => parseReplies(text, catalog),
+      repairRules: [
+        `"content" must be non-empty and at most ${config.voice.tweetMaxLength} characters`,
+        `"targetId" must be one of: ${[...catalog.keys()].join(", ")}`,
+        `Every tweet needs exactly one "reply" and one "quote"`,
+        `"confidence" must be a number between 0 and 1`,
+      ],
+    }
+  );
+  if (!completed.success) {
+    return completed;
+  }
+
+  const createdAt = new Date().toISOString();
+  const lintRules = lintRulesFromGuidelines(profile.guidelines, config.voice.tweetMaxLength);
+  const fingerprint = profileFingerprint(profile);
+  const drafts: TweetDraft[] = completed.data.data.flatMap((suggestion) => {
+    const ref = catalog.get(suggestion.targetId);
+    // parseReplies already rejected unknown IDs
+    if (ref?.kind !== "tweet") return [];
+    const target = ref.item;
+    const draft: TweetDraft = {
+      id: `${suggestion.kind}-${target.id}`,
+      content: suggestion.content,
+      format: "single",
+      source: "twitter",
+      context: suggestion.context,
+      confidence: suggestion.confidence,
+      createdAt,
+      sourceIds: [suggestion.targetId],
+      sourceData: resolveSourceData([suggestion.targetId], catalog, input),
+      replyTo: {
+        kind: suggestion.kind,
+        tweetId: target.id,
+        url: tweetUrl(target),
+        authorHandle: target.authorHandle,
+        content: target.content,
+      },
+      profileId: profile.id,
+      promptVersion: config.prompts.version,
+    };
+    rememberOriginal(draft);
+    draft.lint = lintDraft(draft, lintRules);
+    if (fingerprint) {
+      draft.voiceDistance = scoreVoiceDistance(draft, fingerprint);
+    }
+    draft.factCheck = factCheckDraft(draft, input);
+    return [draft];
+  });
+
+  return success({
+    drafts,
+    tokensUsed: completed.data.tokensUsed,
+    modelUsed: completed.data.model,
+    generatedAt: createdAt,
+    promptVersion: config.prompts.version,
+  });
+}
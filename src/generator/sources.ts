@@ -0,0 +1,81 @@
+/**
+ * Source Provenance
+ *
+ * Gives every news item, tweet and on-chain metric in a generation input a
+ * stable ID ("news-1", "tweet-2", "onchain-tvl"). The prompt lists items
+ * under these IDs, the model returns the IDs it used, and the parser turns
+ * them back into the exact items for `TweetDraft.sourceData`.
+ *
+ * IDs follow input order, so they stay valid against the input saved
+ * alongside each day's drafts.
+ */
+
+import type { GenerationInput, NumericClaimKind, OnchainMetric, SourceRef, TweetDraft } from "../types";
+
+export const ONCHAIN_METRICS: Array<{ metric: OnchainMetric; kind: NumericClaimKind; label: string }> = [
+  { metric: "tvl", kind: "currency", label: "TVL" },
+  { metric: "tvlChange24h", kind: "percent", label: "TVL change (24h)" },
+  { metric: "tvlChange7d", kind: "percent", label: "TVL change (7d)" },
+  { metric: "volume24h", kind: "currency", label: "DEX volume (24h)" },
+  { metric: "fees24h", kind: "currency", label: "Fees (24h)" },
+  { metric: "transactions24h", kind: "count", label: "Transactions (24h)" },
+  { metric: "activeAddresses24h", kind: "count", label: "Active addresses (24h)" },
+];
+
+/**
+ * Every citable item in the input, keyed by ID, in prompt order
+ */
+export function buildSourceCatalog(input: GenerationInput): Map<string, SourceRef> {
+  const catalog = new Map<string, SourceRef>();
+
+  (input.news || []).forEach((item, i) => {
+    const id = `news-${i + 1}`;
+    catalog.set(id, { id, kind: "news", item });
+  });
+
+  (input.tweets || []).forEach((item, i) => {
+    const id = `tweet-${i + 1}`;
+    catalog.set(id, { id, kind: "tweet", item });
+  });
+
+  if (input.onchainData) {
+    for (const { metric, label } of ONCHAIN_METRICS) {
+      const value = input.onchainData[metric];
+      if (typeof value === "number") {
+        const id = `onchain-${metric}`;
+        catalog.set(id, { id, kind: "onchain", metric, label, value });
+      }
+    }
+  }
+
+  return catalog;
+}
+
+/**
+ * The items behind a draft's source IDs. Unknown IDs are ignored here;
+ * the parser rejects them before this runs.
+ */
+export function resolveSourceData(
+  ids: string[],
+  catalog: Map<string, SourceRef>,
+  input: GenerationInput
+): NonNullable<TweetDraft["sourceData"]> {
+  const refs = ids.map((id) => catalog.get(id)).filter((ref): ref is SourceRef => ref !== undefined);
+  const sourceData: NonNullable<TweetDraft["sourceData"]> = {};
+
+  const news = refs.flatMap((ref) => (ref.kind === "news" ? [ref.item] : []));
+  if (news.length > 0) sourceData.news = news;
+
+  const tweets = refs.flatMap((ref) => (ref.kind === "tweet" ? [ref.item] : []));
+  if (tweets.length > 0) sourceData.tweets = tweets;
+
+  const metrics = refs.flatMap((ref) => (ref.kind === "onchain" ? [ref] : []));
+  if (metrics.length > 0 && input.onchainData) {
+    sourceData.onchainData = { chain: input.onchainData.chain, timestamp: input.onchainData.timestamp };
+    for (const ref of metrics) {
+      sourceData.onchainData[ref.metric] = ref.value;
+    }
+  }
+
+  return sourceData;
+}
@@ -0,0 +1,84 @@
+/**
+ * Topic Slots
+ *
+ * The daily single-tweet task asks for one tweet per topic slot. Each slot
+ * is shown with a couple of the profile's own tweets of the matching kind
+ * (news, data, humor, ...) so the model sees how this voice writes that
+ * sort of tweet, not just how it sounds in general.
+ */
+
+import { config } from "../lib/config";
+import { categorizeTweet } from "../scrapers/voice-profile";
+import type { VoiceCategory, VoiceProfile } from "../types";
+
+export interface TopicSlot {
+  topic: string;
+  /** Most fitting first; later ones fill in when the profile has no examples of the first */
+  categories: VoiceCategory[];
+}
+
+export const TOPIC_SLOTS: TopicSlot[] = [
+  { topic: "Ecosystem news/partnerships (from the tweets above)", categories: ["news"] },
+  { topic: "On-chain metrics (TVL, volume, or fees)", categories: ["data"] },
+  { topic: "Community/tokenomics (burns, validators, staking)", categories: ["engagement", "data"] },
+  { topic: "Gaming/entertainment or builder activity", categories: ["humor", "news"] },
+  { topic: "RWAs/tokenization or institutional adoption", categories: ["news", "data"] },
+];
+
+/**
+ * The profile's tweets of one kind: examplesByCategory from the last
+ * rebuild, or its samples classified on the fly for hand-written profiles
+ */
+export function categoryExamples(profile: VoiceProfile, category: VoiceCategory): string[] {
+  const built = profile.examplesByCategory?.[category];
+  if (built?.length) return built;
+
+  return profile.samples
+    .filter((sample) => (sample.categories ?? categorizeTweet(sample.text)).includes(category))
+    .map((sample) => sample.text);
+}
+
+function quote(text: string): string {
+  return `"${text.replace(/\n+/g, " / ")}"`;
+}
+
+/**
+ * Numbered slots for `count` tweets (cycling through TOPIC_SLOTS), each
+ * with examples no earlier slot used. Thread openers are left out; a
+ * single tweet shouldn't copy their "1/" shape.
+ */
+export function buildSlotsSection(
+  profile: VoiceProfile,
+  count: number,
+  perSlot: number = config.generation.examplesPerSlot
+): string {
+  const used = new Set<string>();
+
+  return Array.from({ length: count }, (_, i) => {
+    const slot = TOPIC_SLOTS[i % TOPIC_SLOTS.length];
+    const examples = slot.categories
+      .flatMap((category) => categoryExamples(profile, category))
+      .filter((text) => !used.has(text) && !categorizeTweet(text).includes("thread"))
+      .filter((text, j, all) => all.indexOf(text) === j)
+      .slice(0, perSlot);
+    examples.forEach((text) => used.add(text));
+
+    const header = `${i + 1}. ${slot.topic}`;
+    if (examples.length === 0) return header;
+    return `${header}\n   Write it like these (${slot.categories.join("/")}):\n${examples
+      .map((text) => `   - ${quote(text)}`)
+      .join("\n")}`;
+  }).join("\n");
+}
+
+/**
+ * The profile's own thread openers, or "" when it has none
+ */
+export function buildThreadExamplesSection(
+  profile: VoiceProfile,
+  limit: number = config.generation.examplesPerSlot
+): string {
+  const examples = categoryExamples(profile, "thread").slice(0, limit);
+  if (examples.length === 0) return "";
+  return `Threads in this voice open like:\n${examples.map((text) => `- ${quote(text)}`).join("\n")}`;
+}
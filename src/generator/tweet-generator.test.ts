@@ -0,0 +1,67 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { GenerationInput, LLMFeature, LLMProvider, TweetDraftsOutput } from "../types";
+
+// Read by config on import
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "generator-"));
+process.env.DRAFTS_DIR = path.join(dir, "drafts");
+process.env.USAGE_LEDGER_PATH = path.join(dir, "ledger.jsonl");
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const input: GenerationInput = {
+  news: [
+    {
+      title: "Gaming L1 launches on Avalanche with 10,000 TPS",
+      summary: "A new gaming chain went live on Avalanche",
+      url: "https://example.com/gaming-l1",
+      source: "Example News",
+      publishedAt: "2026-10-18T08:00:00.000Z",
+    },
+  ],
+  onchainData: {
+    chain: "Avalanche",
+    timestamp: "2026-10-18T08:00:00.000Z",
+    tvl: 1_200_000_000,
+    tvlChange24h: 3.5,
+    transactions24h: 1_500_000,
+  },
+};
+
+test("the fake provider runs the whole pipeline offline and the drafts are saved", async () => {
+  const { createFakeProvider } = await import("../llm/fake");
+  const { generateTweets, saveDrafts } = await import("./tweet-generator");
+
+  const fake = createFakeProvider();
+  const features: LLMFeature[] = [];
+  const provider: LLMProvider = {
+    name: fake.name,
+    complete: (request) => {
+      features.push(request.feature);
+      return fake.complete(request);
+    },
+  };
+
+  const result = await generateTweets(input, provider, { mode: "single", history: [] });
+  assert.ok(result.success, !result.success ? result.error.message : undefined);
+  const { drafts } = result.data;
+
+  assert.deepEqual(features, ["generate", "critique", "rewrite"]);
+  assert.ok(drafts.length > 0);
+  assert.equal(new Set(drafts.map((d) => d.id)).size, drafts.length);
+  for (const draft of drafts) {
+    assert.equal(draft.format, "single");
+    // Only parseResponse resolves cited ids into sourceData
+    assert.ok(draft.sourceData, `${draft.id} has no sourceData`);
+    assert.ok(draft.sourceIds?.every((id) => id === "news-1" || id.startsWith("onchain-")));
+    assert.ok(draft.lint && draft.factCheck);
+  }
+
+  const saved = saveDrafts(drafts, input, result.data.promptVersion);
+  assert.ok(saved.success);
+  const day = JSON.parse(fs.readFileSync(saved.data, "utf-8")) as TweetDraftsOutput;
+  assert.deepEqual(day.drafts.map((d) => d.id), drafts.map((d) => d.id));
+  assert.deepEqual(day.inputs?.daily, input);
+});
@@ -1,7 +1,7 @@
 /**
  * Tweet Generator
  *
- * Uses Claude AI to generate tweet drafts based on:
+ * Uses the configured LLM provider to generate tweet drafts based on:
  * - Scraped news
  * - Twitter activity
  * - On-chain data
@@ -9,223 +9,522 @@
  * All in the voice/style of the configured user.
  */
 
-import Anthropic from "@anthropic-ai/sdk";
 import * as fs from "fs";
 import * as path from "path";
-import { config } from "../lib/config";
-import { success, fail, logError, tryCatch } from "../lib/errors";
-import { voiceSamples, styleGuidelines } from "../voice/samples";
+import { config, parseStages } from "../lib/config";
+import { success, fail } from "../lib/errors";
+import { getLLMProvider } from "../llm/provider";
+import { checkBudget } from "../llm/usage";
+import { draftsResponseSchema, toValidationIssues } from "./draft-schema";
+import { completeJson, parseJsonText } from "./json-completion";
+import type { JsonCompletion } from "./json-completion";
+import { lintDraft, lintRulesFromGuidelines } from "../lib/tweet-text";
+import { factCheckDraft } from "./fact-check";
+import { rememberOriginal } from "./preferences";
+import { loadHistory, buildRecentTopicsSection, flagDuplicates, draftText } from "./history";
+import { createSimilarityIndex } from "../lib/similarity";
+import { renderPrompt } from "../lib/prompt-templates";
+import { buildSourceCatalog, resolveSourceData } from "./sources";
+import { getCampaignPreset } from "./campaigns";
+import { buildBriefSection } from "./brief";
+import { buildSlotsSection, buildThreadExamplesSection } from "./topic-slots";
+import { critiqueDrafts, rewriteDrafts, DE_AI_CHECKLIST } from "./pipeline";
+import { draftGroup, draftRunKey, runKey } from "./draft-runs";
+import { getDefaultVoiceProfile } from "../voice/profiles";
+import { describeFingerprint, profileFingerprint, scoreVoiceDistance } from "../voice/fingerprint";
 import type {
+  CampaignContext,
+  CustomBrief,
   Result,
   TweetDraft,
   TweetDraftsOutput,
   GenerationInput,
   GenerationOutput,
+  GenerationMode,
+  GenerateOptions,
+  GenerationProgressEvent,
+  DraftCritique,
+  DraftValidationIssue,
+  LLMProvider,
+  LLMRequest,
+  OnchainMetric,
+  PipelineStage,
+  SimilarityIndex,
+  VoiceProfile,
 } from "../types";
 import { ErrorCode as EC } from "../types";
 
-const anthropic = new Anthropic();
-
 /**
- * Generate tweet drafts based on input data
+ * Generate tweet drafts based on input data.
+ * Drafts are written as options.profile (the default profile when omitted).
+ * Without an explicit mode, threads are added when the voice profile uses them.
+ * Recap campaigns always produce a single thread; a brief focuses every
+ * draft on it (recaps ignore briefs).
  */
 export async function generateTweets(
-  input: GenerationInput
+  input: GenerationInput,
+  provider: LLMProvider = getLLMProvider(),
+  options: GenerateOptions = {}
 ): Promise<Result<GenerationOutput>> {
-  const systemPrompt = buildSystemPrompt();
-  const userPrompt = buildUserPrompt(input);
-
-  try {
-    const response = await anthropic.messages.create({
-      model: config.ai.model,
-      max_tokens: config.ai.maxTokens,
-      system: systemPrompt,
-      messages: [{ role: "user", content: userPrompt }],
-    });
+  const { campaign } = options;
+  const brief = campaign ? undefined : options.brief;
+  const profile = options.profile ?? getDefaultVoiceProfile();
+  const modes: GenerationMode[] = campaign
+    ? ["thread"]
+    : options.mode
+    ? [options.mode]
+    : profile.guidelines.usesThreads
+    ? ["single", "thread"]
+    : ["single"];
+  const stages = options.stages ? parseStages(options.stages.join(",")) : config.generation.stages;
+
+  // Fail fast instead of partway through a multi-call run
+  const budget = checkBudget();
+  if (!budget.success) {
+    return budget;
+  }
 
-    const textBlock = response.content.find((block) => block.type === "text");
-    if (!textBlock || textBlock.type !== "text") {
-      return fail(EC.AI_INVALID_RESPONSE, "No text response from Claude");
+  // Each brief run is its own group of drafts in the day file
+  const briefId = brief ? `brief-${Date.now()}` : undefined;
+
+  // Recent drafts and posted tweets, so today's batch doesn't repeat them.
+  // A recap is meant to revisit the window's drafts, and a brief names its
+  // own topic, so those are only checked against posted tweets.
+  const currentRun = runKey(campaign?.preset ?? briefId ?? "daily", profile.id);
+  const loaded = options.history ?? loadHistory(undefined, undefined, profile, currentRun);
+  const history = campaign || brief ? loaded.filter((entry) => entry.source === "posted") : loaded;
+  const historyIndex = createSimilarityIndex(history);
+  const recentTopics = campaign || brief ? "" : buildRecentTopicsSection(history, historyIndex);
+  const emit = options.onProgress ?? (() => {});
+
+  emit({ type: "generate:start", modes, stages });
+
+  const drafts: TweetDraft[] = [];
+  let tokensUsed = 0;
+  let modelUsed: string = config.ai.model;
+
+  for (const mode of modes) {
+    const result = await generateForMode(input, provider, mode, stages, profile, historyIndex, recentTopics, emit, campaign, brief);
+    if (!result.success) {
+      return result;
     }
-
-    // Parse JSON response
-    const drafts = parseResponse(textBlock.text);
-    if (!drafts) {
-      return fail(EC.AI_INVALID_RESPONSE, "Failed to parse AI response as JSON");
+    for (const draft of result.data.drafts) {
+      if (briefId) draft.briefId = briefId;
+      emit({ type: "draft", draft });
     }
+    drafts.push(...result.data.drafts);
+    tokensUsed += result.data.tokensUsed;
+    modelUsed = result.data.modelUsed;
+  }
 
-    const output: GenerationOutput = {
-      drafts,
-      tokensUsed: response.usage.input_tokens + response.usage.output_tokens,
-      modelUsed: config.ai.model,
-      generatedAt: new Date().toISOString(),
-    };
+  return success({
+    drafts,
+    tokensUsed,
+    modelUsed,
+    generatedAt: new Date().toISOString(),
+    promptVersion: config.prompts.version,
+  });
+}
 
-    return success(output);
-  } catch (error) {
-    const apiError = error as { status?: number; message?: string };
+/**
+ * Run the pipeline stages (draft → critique → rewrite) for a single mode
+ */
+async function generateForMode(
+  input: GenerationInput,
+  provider: LLMProvider,
+  mode: GenerationMode,
+  stages: PipelineStage[],
+  profile: VoiceProfile,
+  historyIndex: SimilarityIndex,
+  recentTopics: string,
+  emit: (event: GenerationProgressEvent) => void,
+  campaign?: CampaignContext,
+  brief?: CustomBrief
+): Promise<Result<GenerationOutput>> {
+  const systemPrompt = buildSystemPrompt(mode, stages, profile, campaign, brief);
+  if (!systemPrompt.success) {
+    return systemPrompt;
+  }
+  const userPrompt = buildUserPrompt(input, mode, profile, recentTopics, campaign, brief);
+  if (!userPrompt.success) {
+    return userPrompt;
+  }
+
+  // Stage 1: initial drafts
+  const draftRequest: LLMRequest = {
+    feature: mode === "thread" ? "generate-thread" : "generate",
+    system: systemPrompt.data,
+    messages: [{ role: "user", content: userPrompt.data }],
+    model: config.ai.model,
+    maxTokens: config.ai.maxTokens,
+  };
+  emit({ type: "stage:start", mode, stage: "draft" });
+  const drafted = await completeJson(provider, draftRequest, draftCompletionOptions(mode, input));
+
+  if (!drafted.success) {
+    return drafted;
+  }
+
+  let tokensUsed = drafted.data.tokensUsed;
+  let modelUsed = drafted.data.model;
+  let initialDrafts = drafted.data.data;
 
-    // Handle specific API errors
-    if (apiError.status === 401 || apiError.status === 403) {
-      return fail(EC.AI_UNAVAILABLE, "Invalid or missing API key", { status: apiError.status });
+  // Swap out drafts that repeat recent ones before spending critique/rewrite calls on them
+  const repeats = config.history.regenerateDuplicates ? flagDuplicates(initialDrafts, historyIndex) : [];
+  if (repeats.length > 0) {
+    const replaced = await replaceDuplicates(initialDrafts, repeats, draftRequest, provider, mode, input);
+    if (!replaced.success) {
+      return replaced;
     }
-    if (apiError.status === 429) {
-      return fail(EC.AI_RATE_LIMITED, "Rate limited by AI provider", { status: apiError.status });
+    tokensUsed += replaced.data.tokensUsed;
+    modelUsed = replaced.data.model;
+    initialDrafts = replaced.data.data;
+  }
+  emit({ type: "stage:done", mode, stage: "draft", tokensUsed });
+
+  const drafts: TweetDraft[] = initialDrafts.map((draft) => ({
+    ...draft,
+    pipeline: {
+      stages: ["draft"],
+      initial: { content: draft.content, ...(draft.posts && { posts: draft.posts }) },
+    },
+  }));
+
+  // Stage 2: expert panel critique
+  let critiques: Record<string, DraftCritique> | undefined;
+  if (stages.includes("critique")) {
+    emit({ type: "stage:start", mode, stage: "critique" });
+    const critiqued = await critiqueDrafts(drafts, provider, profile);
+    if (!critiqued.success) {
+      return critiqued;
     }
-    if (apiError.status === 404) {
-      return fail(EC.AI_MODEL_NOT_FOUND, `Model not found: ${config.ai.model}`, { model: config.ai.model });
+    emit({ type: "stage:done", mode, stage: "critique", tokensUsed: critiqued.data.tokensUsed });
+    tokensUsed += critiqued.data.tokensUsed;
+    modelUsed = critiqued.data.model;
+    critiques = critiqued.data.byDraftId;
+
+    for (const draft of drafts) {
+      const critique = critiques[draft.id];
+      draft.pipeline!.stages.push("critique");
+      draft.pipeline!.critique = critique;
+      // The panel's verdict replaces the model's self-assessed confidence
+      draft.confidence = Math.round(critique.averageScore * 10) / 100;
     }
+  }
 
-    return fail(
-      EC.UNKNOWN_ERROR,
-      apiError.message || "Unknown error during generation",
-      error
-    );
+  // Stage 3: voice rewrite
+  if (stages.includes("rewrite")) {
+    emit({ type: "stage:start", mode, stage: "rewrite" });
+    const rewritten = await rewriteDrafts(drafts, critiques, provider, profile);
+    if (!rewritten.success) {
+      return rewritten;
+    }
+    emit({ type: "stage:done", mode, stage: "rewrite", tokensUsed: rewritten.data.tokensUsed });
+    tokensUsed += rewritten.data.tokensUsed;
+    modelUsed = rewritten.data.model;
+
+    for (const draft of drafts) {
+      const rewrite = rewritten.data.byDraftId[draft.id];
+      draft.pipeline!.stages.push("rewrite");
+      draft.pipeline!.rewrite = rewrite;
+      draft.content = rewrite.content;
+      if (rewrite.posts) {
+        draft.posts = rewrite.posts;
+      }
+    }
+  }
+
+  // Flag style problems, drift from the measured voice, numbers the input
+  // data doesn't back up, and repeats
+  const lintRules = lintRulesFromGuidelines(profile.guidelines, config.voice.tweetMaxLength);
+  const fingerprint = profileFingerprint(profile);
+  for (const draft of drafts) {
+    rememberOriginal(draft);
+    draft.lint = lintDraft(draft, lintRules);
+    if (fingerprint) {
+      draft.voiceDistance = scoreVoiceDistance(draft, fingerprint);
+    }
+    draft.factCheck = factCheckDraft(draft, input);
+    draft.promptVersion = config.prompts.version;
+    draft.profileId = profile.id;
+    if (campaign) {
+      draft.campaign = campaign.preset;
+    }
+    if (brief) {
+      draft.fromBrief = true;
+    }
   }
+  flagDuplicates(drafts, historyIndex);
+
+  return success({
+    drafts,
+    tokensUsed,
+    modelUsed,
+    generatedAt: new Date().toISOString(),
+    promptVersion: config.prompts.version,
+  });
 }
 
 /**
- * Build system prompt with voice profile and expert panel review
+ * Validation settings for draft-stage completions
  */
-function buildSystemPrompt(): string {
-  const sampleTweets = voiceSamples.map((s) => `- "${s.text}"`).join("\n");
-
-  return `You are an elite tweet generation system for @${config.voice.twitterHandle}, who works in the Avalanche ecosystem.
-
-## PROCESS: Generate tweets, then refine through a 10-expert panel before output
-
-### STEP 1: Understand the Voice Profile
-- Style: ${config.voice.style.join(", ")}
-- Uses emojis: ${styleGuidelines.usesEmojis ? `Yes, ${styleGuidelines.emojiFrequency}ly` : "Rarely"}
-- Data-driven: ${styleGuidelines.dataFirst ? "Leads with numbers/stats when available" : "No"}
-- Humor: ${styleGuidelines.includesHumor ? "Includes wit and jokes" : "Serious tone"}
-- Hashtags: ${styleGuidelines.usesHashtags ? `Uses hashtags like ${config.generation.defaultHashtags.join(", ")}` : "Avoids hashtags"}
-
-### Words to AVOID (overused crypto terms)
-${styleGuidelines.avoidWords.map((w) => `- "${w}"`).join("\n")}
-
-${sampleTweets.length > 0 ? `### Example Tweets (study this voice carefully)\n${sampleTweets}` : ""}
-
-### STEP 2: Generate Initial Drafts
-Create ${config.rateLimits.tweetsPerDay} diverse tweet drafts covering different topics.
-
-### STEP 3: Run Through Expert Panel (CRITICAL)
-Before outputting, mentally simulate each tweet being reviewed by these 10 experts:
-
-**1. Twitter Growth Expert** - Does it have a strong hook in the first 5 words? Will people stop scrolling?
-**2. Crypto Twitter (CT) Veteran** - Does it sound native to CT? Avoid cringe, feel authentic?
-**3. Legendary Copywriter (Gary Halbert style)** - Is every word earning its place? Cut the fluff.
-**4. Brand Voice Coach** - Does this sound like @${config.voice.twitterHandle}? Match the persona exactly.
-**5. Data Storyteller** - Are numbers presented compellingly, not just stated?
-**6. Comedy Writer** - Is the humor natural, not forced? Does the wit land?
-**7. Avalanche Community Expert** - Will the AVAX community engage? Does it resonate?
-**8. Institutional Investor** - Is it credible? Would a serious person share this?
-**9. Short-Form Master** - Is it punchy? Can any words be cut? Under ${config.voice.tweetMaxLength} chars?
-**10. Engagement Optimizer** - Does it invite replies, RTs, or discussion?
-
-### STEP 4: Apply Expert Feedback
-Refine each tweet based on the panel's critique.
-
-### STEP 5: FINAL VOICE AUTHENTICITY PASS (CRITICAL)
-After expert review, rewrite EVERY tweet through @${config.voice.twitterHandle}'s authentic voice:
-
-**Voice DNA to inject:**
-- Writes like they're texting a smart friend, not posting for clout
-- Uses "..." for dramatic pauses naturally
-- Drops occasional lowercase for casual feel
-- Has opinions but backs them with data
-- Self-aware humor, never try-hard
-- Would rather understate than hype
-- Uses specific numbers, not vague claims
-- Comfortable being contrarian when right
-- Sounds like a real person at a conference bar, not a brand account
-
-**De-AI checklist (remove these tells):**
-- NO starting with "Just" or "So"
-- NO "Here's why this matters:" - just say it
-- NO "Let's talk about..." - just talk about it
-- NO exclamation marks unless genuinely exciting!!
-- NO "Unpopular opinion:" - just state the opinion
-- NO formulaic structures (hook → context → CTA)
-- NO sounding like a LinkedIn post
-- NO corporate smooth edges - keep some rough authenticity
-
-**Final vibe check:** Would @${config.voice.twitterHandle} actually tweet this while walking to get coffee? If it sounds too polished or "content-y", rough it up.
-
-### RULES
-1. Max ${config.voice.tweetMaxLength} characters per tweet
-2. Each tweet MUST cover a DIFFERENT topic (no duplicates)
-3. Topics to cover: news, on-chain metrics, community, gaming/builders, RWAs/institutions
-4. NO generic crypto speak - be specific and authentic
-5. CRITICAL: Only use FRESH data. If a news article or tweet looks old, DO NOT use it. Focus on what's happening NOW, this week.
-
-## Output Format
-Return ONLY a JSON array with the FINAL refined tweets:
-[
-  {
-    "id": "unique-id",
-    "content": "The polished tweet (max ${config.voice.tweetMaxLength} chars)",
-    "source": "news|twitter|onchain|mixed",
-    "context": "What this tweet is about and why it works",
-    "confidence": 0.0-1.0,
-    "createdAt": "ISO timestamp",
-    "metadata": {
-      "newsTitle": "Title of specific news article used (if source=news)",
-      "twitterAuthor": "@handle of specific tweet referenced (if source=twitter)",
-      "onchainMetric": "Specific metric used like 'TVL' or 'volume' (if source=onchain)"
-    }
+function draftCompletionOptions(mode: GenerationMode, input: GenerationInput) {
+  return {
+    label: "Drafts",
+    parse: (text: string) => parseResponse(text, mode, input),
+    repairRules: [
+      `"content" (and every entry of "posts" for threads) must be non-empty and at most ${config.voice.tweetMaxLength} characters`,
+      `Threads need 2-${config.generation.maxThreadPosts} posts; shorten or split posts that are too long`,
+      `"source" must be one of: news, twitter, onchain, mixed`,
+      `"confidence" must be a number between 0 and 1`,
+      `"sourceIds" may only contain IDs shown in [brackets] in the data`,
+    ],
+  };
+}
+
+/**
+ * Ask the model (once) for replacements for drafts that repeat recent content.
+ * Replacements that still repeat are kept and flagged later.
+ */
+async function replaceDuplicates(
+  drafts: TweetDraft[],
+  repeats: TweetDraft[],
+  draftRequest: LLMRequest,
+  provider: LLMProvider,
+  mode: GenerationMode,
+  input: GenerationInput
+): Promise<Result<JsonCompletion<TweetDraft[]>>> {
+  const repeatList = repeats
+    .map((d) => `- "${draftText(d)}" (too close to ${d.duplicateOf!.entry.source === "posted" ? "a posted tweet" : `a ${d.duplicateOf!.entry.date} draft`}: "${d.duplicateOf!.entry.text}")`)
+    .join("\n");
+
+  const replaced = await completeJson(
+    provider,
+    {
+      ...draftRequest,
+      messages: [
+        ...draftRequest.messages,
+        // Echo the drafts as the model wrote them (sourceData is ours, not the model's)
+        { role: "assistant", content: JSON.stringify(drafts.map(({ sourceData, ...draft }) => draft), null, 2) },
+        {
+          role: "user",
+          content: `These drafts repeat content from the last ${config.history.lookbackDays} days:
+${repeatList}
+
+Write ${repeats.length} replacement ${mode === "thread" ? "thread" : "draft"}${repeats.length === 1 ? "" : "s"} on different topics or new angles. Return ONLY a JSON array of the replacements in the same format.`,
+        },
+      ],
+    },
+    draftCompletionOptions(mode, input)
+  );
+
+  if (!replaced.success) {
+    return replaced;
   }
-]`;
+
+  const keptIds = new Set(drafts.filter((d) => !repeats.includes(d)).map((d) => d.id));
+  const replacements = replaced.data.data.slice(0, repeats.length);
+  let next = 0;
+  const merged = drafts.map((draft) => {
+    if (!repeats.includes(draft) || next >= replacements.length) return draft;
+    const replacement = replacements[next++];
+    // Replacement ids come from a separate response and may collide
+    const id = keptIds.has(replacement.id) ? `${replacement.id}-r${next}` : replacement.id;
+    keptIds.add(id);
+    return { ...replacement, id };
+  });
+
+  return success({ ...replaced.data, data: merged });
+}
+
+/**
+ * Build the draft-stage system prompt with the voice profile.
+ * The voice guidance is inlined only when no rewrite stage follows.
+ */
+export function buildSystemPrompt(
+  mode: GenerationMode,
+  stages: PipelineStage[],
+  profile: VoiceProfile,
+  campaign?: CampaignContext,
+  brief?: CustomBrief
+): Result<string> {
+  const { guidelines } = profile;
+  const sampleTweets = profile.samples.map((s) => `- "${s.text}"`).join("\n");
+  const fingerprint = profileFingerprint(profile);
+  const laterStages = [
+    stages.includes("critique") ? "scored by a 10-expert panel" : "",
+    stages.includes("rewrite") ? `rewritten in @${profile.handle}'s voice` : "",
+  ].filter(Boolean);
+  const threadCount = config.generation.threadsPerRun;
+
+  const outputFormat = mode === "thread"
+    ? renderPrompt("generate-output-thread", { maxLength: config.voice.tweetMaxLength })
+    : renderPrompt("generate-output-single", { maxLength: config.voice.tweetMaxLength });
+  if (!outputFormat.success) {
+    return outputFormat;
+  }
+
+  return renderPrompt("generate-system", {
+    handle: profile.handle,
+    style: profile.style.join(", "),
+    emojiUsage: guidelines.usesEmojis ? `Yes, ${guidelines.emojiFrequency}ly` : "Rarely",
+    dataUsage: guidelines.dataFirst ? "Leads with numbers/stats when available" : "No",
+    humor: guidelines.includesHumor ? "Includes wit and jokes" : "Serious tone",
+    hashtags: guidelines.usesHashtags
+      ? `Uses hashtags like ${config.generation.defaultHashtags.join(", ")}`
+      : "Avoids hashtags",
+    fingerprint: fingerprint
+      ? `### Measured Writing Habits (from ${fingerprint.tweetCount} tweets - match these)\n${describeFingerprint(fingerprint).map((line) => `- ${line}`).join("\n")}`
+      : "",
+    avoidWords: guidelines.avoidWords.map((w) => `- "${w}"`).join("\n"),
+    preferredTerms: Object.keys(guidelines.preferredTerms).length > 0
+      ? `### Preferred Terms\n${Object.entries(guidelines.preferredTerms).map(([term, preferred]) => `- Say "${preferred}", not "${term}"`).join("\n")}`
+      : "",
+    sampleTweets: sampleTweets.length > 0 ? `### Example Tweets (study this voice carefully)\n${sampleTweets}` : "",
+    job: campaign
+      ? `Create ONE ${campaignLabel(campaign)} thread of up to ${config.generation.maxThreadPosts} posts covering ${campaign.window.label}. The first post is the hook; each following post covers ONE highlight, like the numbered recaps in the example tweets.`
+      : mode === "thread"
+      ? `Create ${threadCount} thread${threadCount === 1 ? "" : "s"} of 3-${config.generation.maxThreadPosts} posts${brief ? " about the brief you're given" : ""}. The first post is the hook; each following post covers ONE point, like the numbered recaps in the example tweets.`
+      : brief
+      ? `Create ${config.rateLimits.tweetsPerDay} tweet drafts about the brief you're given, each from a different angle (the news, the numbers, a take, a question).`
+      : `Create ${config.rateLimits.tweetsPerDay} diverse tweet drafts covering different topics.`,
+    laterStages: laterStages.length > 0
+      ? `Your drafts will then be ${laterStages.join(" and then ")}. Focus on strong, specific angles and accurate numbers.`
+      : "",
+    deAiChecklist: DE_AI_CHECKLIST.map((c) => `- ${c}`).join("\n"),
+    maxLength: config.voice.tweetMaxLength,
+    lengthUnit: mode === "thread" ? "post (every post in a thread)" : "tweet",
+    outputFormat: outputFormat.data,
+  });
 }
 
 /**
  * Build user prompt with current data
  */
-function buildUserPrompt(input: GenerationInput): string {
-  let prompt = `Generate ${config.rateLimits.tweetsPerDay} tweet drafts based on this data:\n\n`;
+function buildUserPrompt(
+  input: GenerationInput,
+  mode: GenerationMode,
+  profile: VoiceProfile,
+  recentTopics = "",
+  campaign?: CampaignContext,
+  brief?: CustomBrief
+): Result<string> {
+  const threadCount = config.generation.threadsPerRun;
+
+  if (campaign) {
+    return buildCampaignUserPrompt(input, campaign, profile);
+  }
+
+  const task = brief
+    ? renderPrompt("generate-task-brief", {
+        count: mode === "thread" ? threadCount : config.rateLimits.tweetsPerDay,
+        noun: mode === "thread" ? (threadCount === 1 ? "thread" : "threads") : "tweets",
+      })
+    : mode === "thread"
+    ? renderPrompt("generate-task-thread", {
+        count: threadCount,
+        threadNoun: threadCount === 1 ? "thread" : "threads",
+        maxLength: config.voice.tweetMaxLength,
+        examples: buildThreadExamplesSection(profile),
+      })
+    : renderPrompt("generate-task-single", {
+        count: config.rateLimits.tweetsPerDay,
+        slots: buildSlotsSection(profile, config.rateLimits.tweetsPerDay),
+      });
+  if (!task.success) {
+    return task;
+  }
+
+  const basis = brief ? "the brief below, using this data" : "this data";
+  return renderPrompt("generate-user", {
+    intro: mode === "thread"
+      ? `Generate ${threadCount} thread${threadCount === 1 ? "" : "s"} based on ${basis}:`
+      : `Generate ${config.rateLimits.tweetsPerDay} tweet drafts based on ${basis}:`,
+    // A text-only brief has no data; don't invite "general ecosystem" drafts
+    data: brief && !input.news?.length && !input.tweets?.length && !input.onchainData ? "" : buildDataSections(input),
+    brief: brief ? buildBriefSection(brief, input) : "",
+    highlights: "",
+    recentTopics: recentTopics.trim(),
+    task: task.data,
+    handle: profile.handle,
+  });
+}
+
+/**
+ * User prompt for a recap thread: the window's data plus what we drafted during it
+ */
+function buildCampaignUserPrompt(
+  input: GenerationInput,
+  campaign: CampaignContext,
+  profile: VoiceProfile
+): Result<string> {
+  const preset = getCampaignPreset(campaign.preset);
+  if (!preset.success) {
+    return preset;
+  }
+  if (!preset.data.taskTemplate) {
+    return fail(EC.INVALID_CONFIG, `Preset "${campaign.preset}" has no recap prompt`);
+  }
+
+  const task = renderPrompt(preset.data.taskTemplate, {
+    period: campaign.window.label,
+    handle: profile.handle,
+    maxPosts: config.generation.maxThreadPosts,
+    maxLength: config.voice.tweetMaxLength,
+  });
+  if (!task.success) {
+    return task;
+  }
 
-  if (input.news && input.news.length > 0) {
+  return renderPrompt("generate-user", {
+    intro: `Generate one ${campaignLabel(campaign)} thread for ${campaign.window.label} (${campaign.window.start} to ${campaign.window.end}) based on this data:`,
+    data: buildDataSections(input),
+    brief: "",
+    highlights: campaign.priorDrafts.length > 0
+      ? `## Drafted During This Period (context only - cite the data above, not these)\n${campaign.priorDrafts.map((d) => `- ${d}`).join("\n")}`
+      : "",
+    recentTopics: "",
+    task: task.data,
+    handle: profile.handle,
+  });
+}
+
+function campaignLabel(campaign: CampaignContext): string {
+  return campaign.preset === "monthly-report" ? "monthly investor report" : "weekly recap";
+}
+
+/**
+ * The input data as prompt sections
+ */
+export function buildDataSections(input: GenerationInput): string {
+  let prompt = "";
+  // Every item is tagged with the ID the model cites it by in "sourceIds"
+  const sources = [...buildSourceCatalog(input).values()];
+
+  const news = sources.filter((ref) => ref.kind === "news");
+  if (news.length > 0) {
     prompt += `## Latest News\n`;
-    input.news.forEach((n) => {
-      prompt += `- [${n.source}] ${n.title}: ${n.summary}\n`;
+    news.forEach(({ id, item: n }) => {
+      prompt += `- [${id}] [${n.source}] ${n.title}: ${n.summary}\n`;
     });
     prompt += "\n";
   }
 
-  if (input.tweets && input.tweets.length > 0) {
+  const tweets = sources.filter((ref) => ref.kind === "tweet");
+  if (tweets.length > 0) {
     prompt += `## Recent Tweets from Avalanche Accounts\n`;
-    input.tweets.forEach((t) => {
-      prompt += `- @${t.authorHandle}: "${t.content}"\n`;
+    tweets.forEach(({ id, item: t }) => {
+      prompt += `- [${id}] @${t.authorHandle}: "${t.content}"\n`;
     });
     prompt += "\n";
   }
 
-  if (input.onchainData) {
+  const metrics = sources.filter((ref) => ref.kind === "onchain");
+  if (input.onchainData && metrics.length > 0) {
     prompt += `## On-Chain Data (${input.onchainData.chain})\n`;
-    if (input.onchainData.tvl !== undefined) {
-      prompt += `- TVL: $${formatNumber(input.onchainData.tvl)}`;
-      if (input.onchainData.tvlChange24h !== undefined) {
-        const sign = input.onchainData.tvlChange24h >= 0 ? "+" : "";
-        prompt += ` (${sign}${input.onchainData.tvlChange24h.toFixed(1)}% 24h)`;
-      }
-      if (input.onchainData.tvlChange7d !== undefined) {
-        const sign = input.onchainData.tvlChange7d >= 0 ? "+" : "";
-        prompt += ` (${sign}${input.onchainData.tvlChange7d.toFixed(1)}% 7d)`;
-      }
-      prompt += "\n";
-    }
-    if (input.onchainData.volume24h !== undefined) {
-      prompt += `- DEX Volume (24h): $${formatNumber(input.onchainData.volume24h)}\n`;
-    }
-    if (input.onchainData.fees24h !== undefined) {
-      prompt += `- Fees (24h): $${formatNumber(input.onchainData.fees24h)}\n`;
-    }
-    if (input.onchainData.transactions24h !== undefined) {
-      prompt += `- 24h Transactions: ${input.onchainData.transactions24h.toLocaleString()}\n`;
-    }
-    if (input.onchainData.activeAddresses24h !== undefined) {
-      prompt += `- Active Addresses (24h): ${input.onchainData.activeAddresses24h.toLocaleString()}\n`;
-    }
+    metrics.forEach(({ id, metric, label, value }) => {
+      prompt += `- [${id}] ${label}: ${formatMetric(metric, value)}\n`;
+    });
     prompt += "\n";
   }
 
@@ -233,28 +532,24 @@ function buildUserPrompt(input: GenerationInput): string {
     prompt += `No specific data provided. Generate general Avalanche ecosystem tweets based on your knowledge.\n`;
   }
 
-  prompt += `
-## YOUR TASK
-Generate ${config.rateLimits.tweetsPerDay} tweets about DIFFERENT topics:
-1. Ecosystem news/partnerships (from the tweets above)
-2. On-chain metrics (TVL, volume, or fees)
-3. Community/tokenomics (burns, validators, staking)
-4. Gaming/entertainment or builder activity
-5. RWAs/tokenization or institutional adoption
-
-## REMEMBER THE EXPERT PANEL + VOICE PASS
-Before outputting each tweet:
-1. Run through the 10-expert panel critique
-2. Then apply the FINAL VOICE AUTHENTICITY PASS
-3. Ask: "Would @${config.voice.twitterHandle} actually type this while distracted?"
-4. If it sounds too "written" or "produced" - rough it up
-5. Remove any AI-sounding patterns (no "Just...", "Here's why...", "Let's...")
-
-The best tweet sounds like a thought someone had and quickly typed out - not content that was carefully crafted.
-
-Return ONLY the JSON array, no other text or markdown.`;
+  return prompt.trimEnd();
+}
 
-  return prompt;
+/**
+ * On-chain metric as shown in the prompt, e.g. "$1.20B", "+3.5%", "1,500,000"
+ */
+function formatMetric(metric: OnchainMetric, value: number): string {
+  switch (metric) {
+    case "tvlChange24h":
+    case "tvlChange7d":
+      return `${value >= 0 ? "+" : ""}${value.toFixed(1)}%`;
+    case "tvl":
+    case "volume24h":
+    case "fees24h":
+      return `$${formatNumber(value)}`;
+    default:
+      return value.toLocaleString();
+  }
 }
 
 /**
@@ -268,47 +563,94 @@ function formatNumber(num: number): string {
 }
 
 /**
- * Parse Claude's response into TweetDraft array
+ * Parse Claude's response into TweetDraft array.
+ * Fails with AI_INVALID_RESPONSE and per-field issues in `details.issues`.
+ * When a mode is given, every draft must have that format.
  */
-function parseResponse(text: string): TweetDraft[] | null {
-  try {
-    // Clean up response (remove markdown code blocks if present)
-    let jsonText = text.trim();
-    if (jsonText.startsWith("```json")) {
-      jsonText = jsonText.slice(7);
-    } else if (jsonText.startsWith("```")) {
-      jsonText = jsonText.slice(3);
-    }
-    if (jsonText.endsWith("```")) {
-      jsonText = jsonText.slice(0, -3);
-    }
+export function parseResponse(
+  text: string,
+  mode?: GenerationMode,
+  input?: GenerationInput
+): Result<TweetDraft[]> {
+  const json = parseJsonText(text);
+  if (!json.success) {
+    return json;
+  }
 
-    const parsed = JSON.parse(jsonText.trim());
+  const validated = draftsResponseSchema.safeParse(json.data);
+  if (!validated.success) {
+    const issues = toValidationIssues(validated.error);
+    return fail(EC.AI_INVALID_RESPONSE, "AI response failed draft validation", { issues });
+  }
 
-    // Validate structure
-    if (!Array.isArray(parsed)) {
-      return null;
+  if (mode) {
+    const issues: DraftValidationIssue[] = validated.data
+      .map((draft, index) => ({ draft, index }))
+      .filter(({ draft }) => draft.format !== mode)
+      .map(({ index }) => ({ path: `[${index}].format`, message: `format must be "${mode}"` }));
+    if (issues.length > 0) {
+      return fail(EC.AI_INVALID_RESPONSE, "AI response returned the wrong draft format", { issues });
     }
+  }
 
-    // Add missing fields
-    return parsed.map((draft: Partial<TweetDraft>, index: number) => ({
-      id: draft.id || `draft-${Date.now()}-${index}`,
-      content: draft.content || "",
-      source: draft.source || "mixed",
-      context: draft.context || "",
-      confidence: draft.confidence || 0.5,
-      createdAt: draft.createdAt || new Date().toISOString(),
-      metadata: draft.metadata || undefined,
-    }));
-  } catch {
-    return null;
+  // Source IDs must name items that were actually in the prompt
+  const catalog = input ? buildSourceCatalog(input) : undefined;
+  if (catalog) {
+    const issues: DraftValidationIssue[] = validated.data.flatMap((draft, index) =>
+      draft.sourceIds
+        .map((id, i) => ({ id, i }))
+        .filter(({ id }) => !catalog.has(id))
+        .map(({ id, i }) => ({
+          path: `[${index}].sourceIds[${i}]`,
+          message: `unknown source id "${id}"${catalog.size > 0 ? ` (valid: ${[...catalog.keys()].join(", ")})` : " (no data was provided; use [])"}`,
+        }))
+    );
+    if (issues.length > 0) {
+      return fail(EC.AI_INVALID_RESPONSE, "AI response cited sources that aren't in the data", { issues });
+    }
   }
+
+  // Fill bookkeeping fields the model is allowed to omit. Ids must be
+  // unique because later stages and edits address drafts by id.
+  const now = new Date().toISOString();
+  const seenIds = new Set<string>();
+  return success(
+    validated.data.map((draft, index) => {
+      const id = draft.id && !seenIds.has(draft.id)
+        ? draft.id
+        : `${draft.format === "thread" ? "thread" : "draft"}-${Date.now()}-${index}`;
+      seenIds.add(id);
+
+      return {
+        id,
+        content: draft.format === "thread" ? draft.posts[0] : draft.content,
+        format: draft.format,
+        ...(draft.format === "thread" && { posts: draft.posts }),
+        source: draft.source,
+        context: draft.context,
+        confidence: draft.confidence,
+        createdAt: draft.createdAt || now,
+        metadata: draft.metadata,
+        sourceIds: [...new Set(draft.sourceIds)],
+        ...(catalog && input && { sourceData: resolveSourceData(draft.sourceIds, catalog, input) }),
+      };
+    })
+  );
 }
 
 /**
- * Save drafts to file
+ * Save drafts to today's file. Only drafts from the same run (daily, a
+ * brief, a campaign, or reply suggestions) and voice profile are replaced,
+ * so a recap, reply, other brief or other persona's run doesn't wipe out
+ * the day's other drafts. The run's input (and brief) is stored under its
+ * run key, for fact-checking edits later.
  */
-export function saveDrafts(drafts: TweetDraft[], input?: GenerationInput): Result<string> {
+export function saveDrafts(
+  drafts: TweetDraft[],
+  input?: GenerationInput,
+  promptVersion: string = config.prompts.version,
+  brief?: CustomBrief
+): Result<string> {
   try {
     const date = new Date().toISOString().split("T")[0];
     const outputDir = config.output.draftsDir;
@@ -317,11 +659,41 @@ export function saveDrafts(drafts: TweetDraft[], input?: GenerationInput): Resul
     fs.mkdirSync(outputDir, { recursive: true });
 
     const filePath = path.join(outputDir, `${date}.json`);
+    const existing = fs.existsSync(filePath)
+      ? (JSON.parse(fs.readFileSync(filePath, "utf-8")) as TweetDraftsOutput)
+      : undefined;
+    const group = drafts[0] ? draftGroup(drafts[0]) : "daily";
+    const runKey = drafts[0] ? draftRunKey(drafts[0]) : group;
+    const kept = existing?.drafts.filter((draft) => draftRunKey(draft) !== runKey) || [];
+
+    // Edits address drafts by id within the day; renamed in place so callers see the saved ids
+    const keptIds = new Set(kept.map((draft) => draft.id));
+    for (const draft of drafts) {
+      if (keptIds.has(draft.id)) {
+        draft.id = `${draft.id}-${runKey}`;
+      }
+    }
+
+    // Inputs and briefs of runs that no longer have drafts are dropped
+    const all = [...drafts, ...kept];
+    const runKeys = new Set(all.map(draftRunKey));
+    const briefIds = new Set(all.map((draft) => draft.briefId));
+    const briefId = drafts[0]?.briefId;
+    const inputs = Object.entries({ ...existing?.inputs, ...(input && { [runKey]: input }) })
+      .filter(([key]) => runKeys.has(key));
+    const briefs = Object.entries({ ...existing?.briefs, ...(briefId && brief && { [briefId]: brief }) })
+      .filter(([id]) => briefIds.has(id));
+
     const output: TweetDraftsOutput = {
       date,
       generatedAt: new Date().toISOString(),
-      drafts,
-      input,
+      drafts: all,
+      // The day's scrape data comes from the regular run
+      input: group === "daily" ? input : existing?.input,
+      ...(inputs.length > 0 && { inputs: Object.fromEntries(inputs) }),
+      promptVersion: group === "daily" ? promptVersion : existing?.promptVersion ?? promptVersion,
+      ...(briefs.length > 0 && { briefs: Object.fromEntries(briefs) }),
+      ...(existing?.brief && { brief: existing.brief }),
     };
 
     fs.writeFileSync(filePath, JSON.stringify(output, null, 2));
@@ -0,0 +1,281 @@
+/**
+ * A/B Variants
+ *
+ * Rewrites of a stored draft that each change one thing (the hook, data vs.
+ * story first, a question or not). The original and its variants share a
+ * variantGroup and are saved next to each other in the draft's day file;
+ * picking one records chosen/rejected pairs in the preference ledger.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { config } from "../lib/config";
+import { success, fail } from "../lib/errors";
+import { getLLMProvider } from "../llm/provider";
+import { renderPrompt } from "../lib/prompt-templates";
+import { lintDraft, lintRulesFromGuidelines } from "../lib/tweet-text";
+import { completeJson, parseJsonText } from "./json-completion";
+import { variantsSchema, toValidationIssues } from "./draft-schema";
+import { readDraftsFiles } from "./history";
+import { draftInput } from "./draft-runs";
+import { buildDataSections } from "./tweet-generator";
+import { factCheckDraft } from "./fact-check";
+import { DE_AI_CHECKLIST } from "./pipeline";
+import { recordPreferences, rememberOriginal, toPreferenceSide } from "./preferences";
+import { getDraftProfile } from "../voice/profiles";
+import { profileFingerprint, scoreVoiceDistance } from "../voice/fingerprint";
+import type {
+  LLMProvider,
+  PreferencePair,
+  Result,
+  TweetDraft,
+  TweetDraftsOutput,
+  VariantAngle,
+} from "../types";
+import { ErrorCode as EC } from "../types";
+
+export const VARIANT_ANGLES: Array<{ angle: VariantAngle; description: string }> = [
+  { angle: "hook", description: "a different opening line - the first few words decide whether anyone reads on" },
+  { angle: "data-first", description: "lead with the number, then say why it matters" },
+  { angle: "story-first", description: "lead with what happened or who did it, the number comes second" },
+  { angle: "question", description: "end on a question the audience will want to answer" },
+  { angle: "no-question", description: "drop the question; end on a statement or a take" },
+];
+
+export interface VariantsResult {
+  /** The original followed by every variant in its group */
+  drafts: TweetDraft[];
+  tokensUsed: number;
+  modelUsed: string;
+}
+
+/**
+ * The stored day a draft lives in
+ */
+function findDraftDay(id: string): { day: TweetDraftsOutput; draft: TweetDraft } | undefined {
+  for (const day of readDraftsFiles("0000-00-00", "9999-12-31")) {
+    const draft = day.drafts.find((d) => d.id === id);
+    if (draft) return { day, draft };
+  }
+  return undefined;
+}
+
+function writeDay(day: TweetDraftsOutput): void {
+  fs.writeFileSync(path.join(config.output.draftsDir, `${day.date}.json`), JSON.stringify(day, null, 2));
+}
+
+/**
+ * Group members in day order, original first
+ */
+function groupDrafts(day: TweetDraftsOutput, group: string): TweetDraft[] {
+  return day.drafts
+    .filter((d) => d.variantGroup === group)
+    .sort((a, b) => Number(b.id === group) - Number(a.id === group));
+}
+
+/**
+ * Angles to offer: the ones the group hasn't tried yet, or all of them once
+ * too few are left for `count` variants
+ */
+function anglesToOffer(tried: Set<VariantAngle | undefined>, count: number): typeof VARIANT_ANGLES {
+  const fresh = VARIANT_ANGLES.filter(({ angle }) => !tried.has(angle));
+  return fresh.length >= count ? fresh : VARIANT_ANGLES;
+}
+
+function parseVariants(
+  text: string,
+  count: number
+): Result<Array<{ angle: VariantAngle; content: string; notes: string }>> {
+  const json = parseJsonText(text);
+  if (!json.success) {
+    return json;
+  }
+
+  const validated = variantsSchema.safeParse(json.data);
+  if (!validated.success) {
+    return fail(EC.AI_INVALID_RESPONSE, "AI response failed variant validation", {
+      issues: toValidationIssues(validated.error),
+    });
+  }
+
+  // Extra variants are dropped rather than repaired
+  return success(validated.data.slice(0, count));
+}
+
+/**
+ * Write `count` variants of a stored draft (or of the original, when given
+ * a variant) in the voice profile it was written as, and save them to its
+ * day file
+ */
+export async function generateVariants(
+  draftId: string,
+  count: number = config.variants.defaultCount,
+  provider: LLMProvider = getLLMProvider()
+): Promise<Result<VariantsResult>> {
+  const found = findDraftDay(draftId);
+  if (!found) {
+    return fail(EC.DRAFT_NOT_FOUND, `Draft "${draftId}" not found`);
+  }
+  const { day } = found;
+  const group = found.draft.variantGroup ?? found.draft.id;
+  const original = day.drafts.find((d) => d.id === group) ?? found.draft;
+  const n = Math.min(Math.max(1, Math.round(count)), config.variants.maxCount);
+
+  const angles = anglesToOffer(new Set(groupDrafts(day, group).map((d) => d.variantAngle)), n);
+  const input = draftInput(day, original);
+  const data = original.sourceData ?? input;
+  const profile = getDraftProfile(original.profileId);
+
+  const systemPrompt = renderPrompt("variants-system", {
+    handle: profile.handle,
+    style: profile.style.join(", "),
+    avoidWords: profile.guidelines.avoidWords.map((w) => `- "${w}"`).join("\n"),
+    sampleTweets: profile.samples.length > 0
+      ? `### Example Tweets (study this voice carefully)\n${profile.samples.map((s) => `- "${s.text}"`).join("\n")}`
+      : "",
+    angles: angles.map(({ angle, description }) => `- "${angle}": ${description}`).join("\n"),
+    deAiChecklist: DE_AI_CHECKLIST.map((c) => `- ${c}`).join("\n"),
+    maxLength: config.voice.tweetMaxLength,
+  });
+  if (!systemPrompt.success) {
+    return systemPrompt;
+  }
+  const userPrompt = renderPrompt("variants-user", {
+    original: original.content,
+    context: original.context,
+    data: data && (data.news?.length || data.tweets?.length || data.onchainData)
+      ? `Source data:\n${buildDataSections(data)}`
+      : "",
+    count: n,
+  });
+  if (!userPrompt.success) {
+    return userPrompt;
+  }
+
+  const completed = await completeJson(
+    provider,
+    {
+      feature: "variants",
+      system: systemPrompt.data,
+      messages: [{ role: "user", content: userPrompt.data }],
+      model: config.ai.model,
+      maxTokens: config.ai.maxTokens,
+    },
+    {
+      label: "Variants",
+      parse: (text) => parseVariants(text, n),
+      repairRules: [
+        `"content" must be non-empty and at most ${config.voice.tweetMaxLength} characters`,
+        `"angle" must be one of: ${angles.map(({ angle }) => angle).join(", ")}`,
+      ],
+    }
+  );
+  if (!completed.success) {
+    return completed;
+  }
+
+  // Numbered after the variants the group already has
+  const taken = new Set(day.drafts.map((d) => d.id));
+  let next = 1;
+  const createdAt = new Date().toISOString();
+  const lintRules = lintRulesFromGuidelines(profile.guidelines, config.voice.tweetMaxLength);
+  const fingerprint = profileFingerprint(profile);
+
+  const variants: TweetDraft[] = completed.data.data.map((variant) => {
+    while (taken.has(`${group}-v${next}`)) next++;
+    const id = `${group}-v${next++}`;
+    const draft: TweetDraft = {
+      id,
+      content: variant.content,
+      ...(original.format && { format: original.format }),
+      // Threads keep their body; only the hook changes
+      ...(original.posts && { posts: [variant.content, ...original.posts.slice(1)] }),
+      source: original.source,
+      context: variant.notes || original.context,
+      confidence: original.confidence,
+      createdAt,
+      ...(original.metadata && { metadata: original.metadata }),
+      ...(original.sourceIds && { sourceIds: original.sourceIds }),
+      ...(original.sourceData && { sourceData: original.sourceData }),
+      ...(original.replyTo && { replyTo: original.replyTo }),
+      ...(original.campaign && { campaign: original.campaign }),
+      ...(original.fromBrief && { fromBrief: true }),
+      ...(original.briefId && { briefId: original.briefId }),
+      ...(original.profileId && { profileId: original.profileId }),
+      variantGroup: group,
+      variantAngle: variant.angle,
+      promptVersion: config.prompts.version,
+    };
+    rememberOriginal(draft);
+    draft.lint = lintDraft(draft, lintRules);
+    if (fingerprint) {
+      draft.voiceDistance = scoreVoiceDistance(draft, fingerprint);
+    }
+    if (input) {
+      draft.factCheck = factCheckDraft(draft, input);
+    }
+    return draft;
+  });
+
+  original.variantGroup = group;
+  // Right after the last member of the group, so the day file reads in order
+  const members = groupDrafts(day, group);
+  const insertAt = Math.max(...members.map((m) => day.drafts.indexOf(m))) + 1;
+  day.drafts.splice(insertAt, 0, ...variants);
+
+  try {
+    writeDay(day);
+  } catch (error) {
+    return fail(EC.UNKNOWN_ERROR, "Failed to save variants", error);
+  }
+
+  return success({
+    drafts: groupDrafts(day, group),
+    tokensUsed: completed.data.tokensUsed,
+    modelUsed: completed.data.model,
+  });
+}
+
+/**
+ * Pick one draft of a variant group: marks it chosen and the rest rejected,
+ * and records a chosen/rejected pair against each of the others
+ */
+export function pickVariant(draftId: string): Result<TweetDraft[]> {
+  const found = findDraftDay(draftId);
+  const group = found?.draft.variantGroup;
+  if (!found || !group) {
+    return fail(EC.DRAFT_NOT_FOUND, `Draft "${draftId}" not found in a variant group`);
+  }
+  const { day, draft: chosen } = found;
+  const members = groupDrafts(day, group);
+
+  const timestamp = new Date().toISOString();
+  const pairs: PreferencePair[] = members
+    .filter((d) => d !== chosen)
+    .map((rejected) => ({
+      timestamp,
+      source: "variant-pick",
+      chosen: toPreferenceSide(chosen),
+      rejected: toPreferenceSide(rejected),
+      variantGroup: group,
+      promptVersion: chosen.promptVersion ?? day.promptVersion,
+      ...(chosen.profileId && { profileId: chosen.profileId }),
+    }));
+
+  for (const member of members) {
+    member.variantStatus = member === chosen ? "chosen" : "rejected";
+  }
+
+  try {
+    writeDay(day);
+  } catch (error) {
+    return fail(EC.UNKNOWN_ERROR, "Failed to save variant pick", error);
+  }
+
+  const recorded = recordPreferences(pairs);
+  if (!recorded.success) {
+    return recorded;
+  }
+
+  return success(members);
+}
@@ -5,15 +5,103 @@
  */
 
 import { generateTweets, saveDrafts } from "./generator/tweet-generator";
-import { config } from "./lib/config";
+import { buildCampaignInput, campaignWindow, getCampaignPreset, includesToday } from "./generator/campaigns";
+import { fetchBriefArticles, mergeBriefInput, validateBrief } from "./generator/brief";
+import { config, parseStages } from "./lib/config";
 import { isSuccess, logError } from "./lib/errors";
-import type { GenerationInput } from "./types";
+import { getVoiceProfile } from "./voice/profiles";
+import type { CampaignPresetName, CustomBrief, GenerationInput, GenerationMode, PipelineStage, VoiceProfile } from "./types";
+
+/**
+ * Read --mode=single|thread from the command line
+ */
+function parseModeArg(): GenerationMode | undefined {
+  const arg = process.argv.find((a) => a.startsWith("--mode="));
+  if (!arg) return undefined;
+
+  const mode = arg.slice("--mode=".length);
+  if (mode !== "single" && mode !== "thread") {
+    console.error(`❌ Unknown mode "${mode}". Use --mode=single or --mode=thread`);
+    process.exit(1);
+  }
+  return mode;
+}
+
+/**
+ * Read --stages=draft,critique,rewrite from the command line
+ */
+function parseStagesArg(): PipelineStage[] {
+  const arg = process.argv.find((a) => a.startsWith("--stages="));
+  return arg ? parseStages(arg.slice("--stages=".length)) : config.generation.stages;
+}
+
+/**
+ * Read --preset=daily|weekly-recap|monthly-report from the command line
+ */
+function parsePresetArg(): CampaignPresetName {
+  const arg = process.argv.find((a) => a.startsWith("--preset="));
+  if (!arg) return "daily";
+
+  const preset = getCampaignPreset(arg.slice("--preset=".length));
+  if (!preset.success) {
+    console.error(`❌ ${preset.error.message}`);
+    process.exit(1);
+  }
+  return preset.data.name;
+}
+
+/**
+ * Read --brief="text" and any number of --url=https://... from the command line
+ */
+function parseBriefArg(): CustomBrief | undefined {
+  const text = process.argv.find((a) => a.startsWith("--brief="))?.slice("--brief=".length);
+  const urls = process.argv.filter((a) => a.startsWith("--url=")).map((a) => a.slice("--url=".length));
+  if (text === undefined && urls.length === 0) return undefined;
+
+  const brief = validateBrief({ text, urls });
+  if (!brief.success) {
+    console.error(`❌ ${brief.error.message}`);
+    process.exit(1);
+  }
+  return brief.data;
+}
+
+/**
+ * Read --profile=<id> from the command line (config.voice.defaultProfile when omitted)
+ */
+function parseProfileArg(): VoiceProfile {
+  const arg = process.argv.find((a) => a.startsWith("--profile="));
+  const profile = getVoiceProfile(arg?.slice("--profile=".length));
+  if (!profile.success) {
+    console.error(`❌ ${profile.error.message}`);
+    process.exit(1);
+  }
+  return profile.data;
+}
 
 async function main() {
+  const mode = parseModeArg();
+  const stages = parseStagesArg();
+  const preset = parsePresetArg();
+  const brief = parseBriefArg();
+  const profile = parseProfileArg();
+  if (brief && preset !== "daily") {
+    console.error("❌ A brief can't be combined with a recap preset");
+    process.exit(1);
+  }
+
   console.log("🏔️  Avalanche Tweet Generator\n");
   console.log(`   Model: ${config.ai.model}`);
-  console.log(`   Voice: @${config.voice.twitterHandle}`);
-  console.log(`   Drafts per day: ${config.rateLimits.tweetsPerDay}\n`);
+  console.log(`   Voice: ${profile.name} (@${profile.handle})`);
+  console.log(`   Drafts per day: ${config.rateLimits.tweetsPerDay}`);
+  console.log(`   Preset: ${preset}${preset === "daily" ? "" : ` (${campaignWindow(preset).label})`}`);
+  console.log(`   Mode: ${preset === "daily" ? mode || "from voice profile" : "thread"}`);
+  console.log(`   Stages: ${stages.join(" → ")}`);
+  console.log(`   Prompts: ${config.prompts.version}`);
+  if (brief) {
+    console.log(`   Brief: ${brief.text || ""}${brief.urls ? ` (${brief.urls.length} URL${brief.urls.length === 1 ? "" : "s"})` : ""}`);
+  }
+  console.log("");
 
   // TODO: Replace with real scraped data from scrapers
   const mockInput: GenerationInput = {
@@ -45,17 +133,42 @@ async function main() {
     ],
   };
 
+  // A brief brings its own articles
+  let fresh: GenerationInput = mockInput;
+  if (brief) {
+    const { articles, errors } = await fetchBriefArticles(brief);
+    errors.forEach((error) => console.warn(`⚠️  ${error}`));
+    fresh = mergeBriefInput(articles);
+  }
+
+  // Recaps add the stored history in their window; a closed month gets no fresh data
+  const { input, campaign } = buildCampaignInput(
+    preset,
+    includesToday(campaignWindow(preset)) ? fresh : {}
+  );
+
   console.log("📊 Input data:");
-  console.log(`   - ${mockInput.news?.length || 0} news items`);
-  console.log(`   - ${mockInput.tweets?.length || 0} recent tweets`);
-  if (mockInput.onchainData?.tvl) {
-    console.log(`   - On-chain: $${(mockInput.onchainData.tvl / 1e9).toFixed(2)}B TVL`);
+  console.log(`   - ${input.news?.length || 0} news items`);
+  console.log(`   - ${input.tweets?.length || 0} recent tweets`);
+  if (input.onchainData?.tvl) {
+    console.log(`   - On-chain: $${(input.onchainData.tvl / 1e9).toFixed(2)}B TVL`);
+  }
+  if (campaign) {
+    console.log(`   - ${campaign.priorDrafts.length} drafts from ${campaign.window.start} to ${campaign.window.end}`);
+    if (!input.news?.length && !input.tweets?.length && !input.onchainData) {
+      console.error(`\n❌ No stored data for ${campaign.window.label}. Recaps are built from earlier daily runs.`);
+      process.exit(1);
+    }
+  }
+  if (brief && !brief.text && !input.news?.length) {
+    console.error("\n❌ None of the brief's URLs could be fetched.");
+    process.exit(1);
   }
   console.log("");
 
   console.log("⏳ Generating tweets...\n");
 
-  const result = await generateTweets(mockInput);
+  const result = await generateTweets(input, undefined, { mode, stages, campaign, brief, profile });
 
   if (!isSuccess(result)) {
     logError("Main", result.error);
@@ -63,21 +176,36 @@ async function main() {
     process.exit(1);
   }
 
-  const { drafts, tokensUsed, modelUsed } = result.data;
+  const { drafts, tokensUsed, modelUsed, promptVersion } = result.data;
 
   console.log(`✅ Generated ${drafts.length} tweet drafts\n`);
   console.log(`   Tokens used: ${tokensUsed}`);
   console.log(`   Model: ${modelUsed}\n`);
 
   drafts.forEach((draft, i) => {
-    console.log(`━━━ Draft ${i + 1} (${draft.source}) ━━━`);
-    console.log(`📝 ${draft.content}`);
+    console.log(`━━━ Draft ${i + 1} (${draft.source}${draft.format === "thread" ? ", thread" : ""}) ━━━`);
+    if (draft.format === "thread" && draft.posts) {
+      draft.posts.forEach((post, j) => console.log(`🧵 ${j + 1}/ ${post}`));
+    } else {
+      console.log(`📝 ${draft.content}`);
+    }
     console.log(`💡 Context: ${draft.context}`);
-    console.log(`🎯 Confidence: ${(draft.confidence * 100).toFixed(0)}%\n`);
+    console.log(`🎯 Confidence: ${(draft.confidence * 100).toFixed(0)}%`);
+    if (draft.pipeline?.critique) {
+      console.log(`🧑‍⚖️ Panel: ${draft.pipeline.critique.averageScore}/10 - ${draft.pipeline.critique.summary}`);
+    }
+    if (draft.pipeline?.rewrite) {
+      console.log(`✍️  Rewrite: ${draft.pipeline.rewrite.notes}`);
+    }
+    const flaggedClaims = draft.factCheck?.claims.filter((c) => c.status !== "verified") || [];
+    for (const claim of flaggedClaims) {
+      console.log(`⚠️  ${claim.text}: ${claim.status === "mismatch" ? `${claim.matchedSource} says ${claim.matchedValue}` : "not in input data"}`);
+    }
+    console.log("");
   });
 
   // Save drafts
-  const saveResult = saveDrafts(drafts);
+  const saveResult = saveDrafts(drafts, input, promptVersion, brief);
   if (isSuccess(saveResult)) {
     console.log(`💾 Saved to: ${saveResult.data}`);
   } else {
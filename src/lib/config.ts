@@ -9,24 +9,31 @@
 
 import { z } from "zod";
 import "dotenv/config";
+import type { ModelPrice, PipelineStage } from "../types";
 
 // ===========================================
 // ENVIRONMENT VALIDATION
 // ===========================================
 
-const envSchema = z.object({
-  // Required
-  ANTHROPIC_API_KEY: z.string().min(1, "ANTHROPIC_API_KEY is required"),
+const envSchema = z
+  .object({
+    // Required unless running against the offline fake provider
+    ANTHROPIC_API_KEY: z.string().optional(),
 
-  // Optional with defaults
-  AI_MODEL: z.string().optional(),
-  TWITTER_BEARER_TOKEN: z.string().optional(),
+    // Optional with defaults
+    AI_PROVIDER: z.enum(["anthropic", "fake"]).optional(),
+    AI_MODEL: z.string().optional(),
+    TWITTER_BEARER_TOKEN: z.string().optional(),
 
-  // Feature flags
-  ENABLE_NEWS_SCRAPER: z.string().optional(),
-  ENABLE_TWITTER_SCRAPER: z.string().optional(),
-  ENABLE_ONCHAIN_SCRAPER: z.string().optional(),
-});
+    // Feature flags
+    ENABLE_NEWS_SCRAPER: z.string().optional(),
+    ENABLE_TWITTER_SCRAPER: z.string().optional(),
+    ENABLE_ONCHAIN_SCRAPER: z.string().optional(),
+  })
+  .refine((e) => e.AI_PROVIDER === "fake" || !!e.ANTHROPIC_API_KEY, {
+    message: "ANTHROPIC_API_KEY is required",
+    path: ["ANTHROPIC_API_KEY"],
+  });
 
 const envParse = envSchema.safeParse(process.env);
 
@@ -38,6 +45,45 @@ if (!envParse.success) {
 
 const env = envParse.data;
 
+const PIPELINE_STAGES: PipelineStage[] = ["draft", "critique", "rewrite"];
+
+/**
+ * Parse GENERATION_STAGES ("draft,critique,rewrite"), keeping pipeline order.
+ * The draft stage always runs.
+ */
+export function parseStages(value: string | undefined): PipelineStage[] {
+  const requested = (value || PIPELINE_STAGES.join(",")).split(",").map((s) => s.trim());
+  return PIPELINE_STAGES.filter((stage) => stage === "draft" || requested.includes(stage));
+}
+
+/**
+ * Parse a non-negative integer env var, keeping an explicit 0
+ */
+function parseCount(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value !== undefined && value !== "" && Number.isInteger(n) && n >= 0 ? n : fallback;
+}
+
+/**
+ * Parse MODEL_PRICES ('{"my-model":{"input":1,"output":5}}'). Invalid JSON is
+ * reported and ignored rather than failing startup.
+ */
+function parseModelPrices(value: string | undefined): Record<string, ModelPrice> {
+  if (!value) return {};
+  let json: unknown;
+  try {
+    json = JSON.parse(value);
+  } catch {
+    json = undefined;
+  }
+  const parsed = z.record(z.object({ input: z.number().min(0), output: z.number().min(0) })).safeParse(json);
+  if (!parsed.success) {
+    console.warn('⚠️  Ignoring invalid MODEL_PRICES (expected {"model": {"input": n, "output": n}})');
+    return {};
+  }
+  return parsed.data;
+}
+
 // ===========================================
 // CONFIGURATION OBJECT
 // ===========================================
@@ -47,9 +93,14 @@ export const config = {
   // AI / LLM Settings
   // -----------------------------------------
   ai: {
+    provider: env.AI_PROVIDER || "anthropic",
     model: env.AI_MODEL || "claude-3-haiku-20240307",
     maxTokens: 2000,
     temperature: 0.7,
+    // Total attempts (first call + repair calls) before giving up on invalid output
+    maxParseAttempts: Number(process.env.AI_MAX_PARSE_ATTEMPTS) || 3,
+    // Per-attempt timeout for completion requests (they run much longer than scraper calls)
+    timeoutMs: Number(process.env.AI_TIMEOUT_MS) || 120000,
   },
 
   // -----------------------------------------
@@ -59,6 +110,35 @@ export const config = {
     twitterHandle: process.env.VOICE_TWITTER_HANDLE || "brianman1",
     style: (process.env.VOICE_STYLE || "casual,data-driven,humorous").split(","),
     tweetMaxLength: Number(process.env.TWEET_MAX_LENGTH) || 280,
+    // Profile used when a request doesn't pick one
+    defaultProfile: process.env.VOICE_PROFILE || "default",
+    // Folder of <id>.json voice profiles, read on every request (versions in history/<id>/)
+    profilesDir: process.env.VOICE_PROFILES_DIR || "./src/voice/profiles",
+    // Local copy of each account's tweets, so rebuilds only fetch what's new
+    corpus: {
+      dir: process.env.VOICE_CORPUS_DIR || "./src/data/voice-corpus",
+      // Tweets fetched per build (the latest with --full, else only newer ones)
+      fetchLimit: 200,
+      // Tweets younger than this get their engagement re-fetched on each build
+      metricsRefreshDays: Number(process.env.VOICE_METRICS_REFRESH_DAYS) || 14,
+      // Newest tweets kept
+      maxTweets: 2000,
+    },
+    // How the profile builder picks example tweets
+    sampleSelection: {
+      count: Number(process.env.VOICE_SAMPLE_COUNT) || 20,
+      // Engagement rate halves for every this many days of age
+      recencyHalfLifeDays: Number(process.env.VOICE_RECENCY_HALF_LIFE_DAYS) || 180,
+      // Samples reserved for each category (news, data, humor, engagement, thread) when available
+      minPerCategory: 2,
+      // Most samples sharing one top topic or one format
+      maxPerTopic: 4,
+      maxFormatShare: 0.5,
+      // TF-IDF cosine similarity at or above which a tweet counts as a near-duplicate
+      duplicateThreshold: 0.6,
+      // Tweets kept per category in examplesByCategory
+      examplesPerCategory: Number(process.env.VOICE_EXAMPLES_PER_CATEGORY) || 5,
+    },
   },
 
   // -----------------------------------------
@@ -75,8 +155,30 @@ export const config = {
   // -----------------------------------------
   rateLimits: {
     tweetsPerDay: Number(process.env.TWEETS_PER_DAY) || 5,
+    // Per host (news feeds, DeFiLlama, the AI provider); also the burst size before requests start being spaced out
     apiCallsPerMinute: Number(process.env.API_CALLS_PER_MINUTE) || 10,
-    scraperDelayMs: Number(process.env.SCRAPER_DELAY_MS) || 1000,
+    // X API calls per endpoint and 15-minute window, X's published app-auth
+    // limits; lower them to match a smaller plan. Each endpoint has its own budget.
+    twitter: {
+      windowMs: 15 * 60 * 1000,
+      userLookup: Number(process.env.TWITTER_USER_LOOKUP_PER_15_MIN) || 300,
+      userTimeline: Number(process.env.TWITTER_USER_TIMELINE_PER_15_MIN) || 1500,
+      tweetLookup: Number(process.env.TWITTER_TWEET_LOOKUP_PER_15_MIN) || 450,
+      search: Number(process.env.TWITTER_SEARCH_PER_15_MIN) || 450,
+    },
+  },
+
+  // -----------------------------------------
+  // Outbound HTTP (scrapers and AI provider)
+  // -----------------------------------------
+  http: {
+    timeoutMs: Number(process.env.HTTP_TIMEOUT_MS) || 15000,
+    maxRetries: parseCount(process.env.HTTP_MAX_RETRIES, 3),
+    // Backoff doubles from baseDelayMs up to maxDelayMs, with full jitter
+    baseDelayMs: 500,
+    maxDelayMs: 30000,
+    // Longest Retry-After / x-rate-limit-reset wait to sit out before giving up
+    maxRetryWaitMs: Number(process.env.HTTP_MAX_RETRY_WAIT_MS) || 60000,
   },
 
   // -----------------------------------------
@@ -122,6 +224,119 @@ export const config = {
     // Add more providers as needed
   },
 
+  // -----------------------------------------
+  // Usage & Cost
+  // -----------------------------------------
+  usage: {
+    ledgerPath: process.env.USAGE_LEDGER_PATH || "./src/data/usage/ledger.jsonl",
+    // USD; unset or 0 = no limit
+    dailyBudgetUsd: Number(process.env.DAILY_BUDGET_USD) || undefined,
+    monthlyBudgetUsd: Number(process.env.MONTHLY_BUDGET_USD) || undefined,
+    // USD per million tokens. MODEL_PRICES (JSON, same shape) adds or overrides entries.
+    prices: {
+      "claude-3-haiku-20240307": { input: 0.25, output: 1.25 },
+      "claude-3-5-haiku-20241022": { input: 0.8, output: 4 },
+      "claude-3-5-sonnet-20241022": { input: 3, output: 15 },
+      "claude-3-opus-20240229": { input: 15, output: 75 },
+      fake: { input: 0, output: 0 },
+      ...parseModelPrices(process.env.MODEL_PRICES),
+    } as Record<string, ModelPrice>,
+  },
+
+  // -----------------------------------------
+  // Prompt Templates
+  // -----------------------------------------
+  prompts: {
+    // Templates live in <dir>/<version>/<name>.md
+    dir: process.env.PROMPTS_DIR || "./src/prompts",
+    version: process.env.PROMPT_VERSION || "v1",
+  },
+
+  // -----------------------------------------
+  // Repetition Detection
+  // -----------------------------------------
+  history: {
+    // How far back earlier drafts and posted tweets count as "recently covered"
+    lookbackDays: Number(process.env.HISTORY_LOOKBACK_DAYS) || 7,
+    // TF-IDF cosine similarity at or above which a draft is flagged as a repeat
+    similarityThreshold: Number(process.env.DUPLICATE_SIMILARITY_THRESHOLD) || 0.5,
+    // Ask the model once for replacements instead of only flagging repeats
+    regenerateDuplicates: process.env.REGENERATE_DUPLICATES === "true",
+    // Recent drafts listed in the prompt
+    maxPromptItems: 15,
+  },
+
+  // -----------------------------------------
+  // Campaign Presets (weekly recap, monthly report)
+  // -----------------------------------------
+  campaigns: {
+    // The weekly recap covers this many days, ending today
+    weeklyRecapDays: Number(process.env.WEEKLY_RECAP_DAYS) || 7,
+    // Caps on stored items merged into a recap prompt (highest relevance/engagement first)
+    maxNewsItems: Number(process.env.CAMPAIGN_MAX_NEWS) || 30,
+    maxTweets: Number(process.env.CAMPAIGN_MAX_TWEETS) || 30,
+    maxPriorDrafts: 30,
+  },
+
+  // -----------------------------------------
+  // Reply / Quote-Tweet Suggestions
+  // -----------------------------------------
+  replies: {
+    // Scraped tweets drafted for per run (a reply and a quote each)
+    maxTargets: Number(process.env.REPLY_MAX_TARGETS) || 5,
+    // Older tweets aren't worth replying to
+    maxAgeHours: Number(process.env.REPLY_MAX_AGE_HOURS) || 48,
+    // Ranking halves a tweet's engagement score every this many hours
+    recencyHalfLifeHours: 12,
+  },
+
+  // -----------------------------------------
+  // Custom Briefs
+  // -----------------------------------------
+  brief: {
+    maxUrls: 5,
+    maxTextLength: 2000,
+    // Article text kept per fetched URL; more detail than a feed summary
+    maxArticleChars: Number(process.env.BRIEF_MAX_ARTICLE_CHARS) || 3000,
+    // Bytes of a page read before the rest is dropped
+    maxArticleBytes: Number(process.env.BRIEF_MAX_ARTICLE_BYTES) || 5_000_000,
+    // Redirects followed per URL, each checked like the URL itself
+    maxRedirects: 5,
+  },
+
+  // -----------------------------------------
+  // A/B Variants
+  // -----------------------------------------
+  variants: {
+    // Variants written per request, alongside the original
+    defaultCount: Number(process.env.VARIANT_COUNT) || 2,
+    maxCount: 4,
+  },
+
+  // -----------------------------------------
+  // Preference Data
+  // -----------------------------------------
+  preferences: {
+    // One JSON line per chosen/rejected pair
+    ledgerPath: process.env.PREFERENCES_PATH || "./src/data/preferences/pairs.jsonl",
+    // Pending voice profile refinements, one JSON file per profile
+    refinementsDir: process.env.REFINEMENTS_DIR || "./src/data/preferences/refinements",
+    // Edits a deletion or substitution must show up in before it's suggested
+    minOccurrences: 2,
+    // Edited final texts offered as new samples per run
+    maxSampleSuggestions: 5,
+  },
+
+  // -----------------------------------------
+  // Fact Checking
+  // -----------------------------------------
+  factCheck: {
+    // Relative difference allowed between a draft's number and the source ("$1.2B" vs 1.23B)
+    tolerance: Number(process.env.FACT_CHECK_TOLERANCE) || 0.05,
+    // Absolute difference allowed for percentages, in points ("+3.5%" vs 3.46)
+    percentTolerance: Number(process.env.FACT_CHECK_PERCENT_TOLERANCE) || 0.15,
+  },
+
   // -----------------------------------------
   // Output Settings
   // -----------------------------------------
@@ -138,6 +353,12 @@ export const config = {
     includeEmojis: process.env.INCLUDE_EMOJIS !== "false",
     includeHashtags: process.env.INCLUDE_HASHTAGS !== "false",
     defaultHashtags: (process.env.DEFAULT_HASHTAGS || "#Avalanche,#AVAX").split(","),
+    // Which pipeline stages run (e.g. "draft,rewrite" skips the expert panel)
+    stages: parseStages(process.env.GENERATION_STAGES),
+    threadsPerRun: Number(process.env.THREADS_PER_RUN) || 1,
+    maxThreadPosts: Number(process.env.MAX_THREAD_POSTS) || 10,
+    // Category-matched example tweets shown with each topic slot
+    examplesPerSlot: 2,
   },
 } as const;
 
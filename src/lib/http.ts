@@ -0,0 +1,182 @@
+/**
+ * Outbound HTTP
+ *
+ * Every call to an external API goes through httpFetch: a token bucket per
+ * host (config.rateLimits.apiCallsPerMinute) or, on the X API, per endpoint
+ * (config.rateLimits.twitter), per-attempt timeouts, and
+ * retries with exponential backoff + jitter that honor Retry-After and
+ * x-rate-limit-reset. It behaves like fetch: it resolves with the last
+ * response (callers still check `ok`) and throws once network errors or
+ * timeouts run out of retries.
+ */
+
+import { config } from "./config";
+import type { HttpRequestOptions } from "../types";
+
+// 529 is Anthropic's "overloaded"
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504, 529]);
+
+/** The budget a request draws from */
+interface RateLimit {
+  key: string;
+  capacity: number;
+  windowMs: number;
+}
+
+interface Bucket {
+  tokens: number;
+  refilledAt: number;
+  /** Set when a host answers 429 with a reset time; nobody calls it before then */
+  blockedUntil: number;
+}
+
+const buckets = new Map<string, Bucket>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// X API endpoints with their own limits, by path (after /2)
+const TWITTER_ENDPOINTS: Array<{ pattern: RegExp; limit: Exclude<keyof typeof config.rateLimits.twitter, "windowMs"> }> = [
+  { pattern: /^\/users\/by\b/, limit: "userLookup" },
+  { pattern: /^\/users\/[^/]+\/tweets\b/, limit: "userTimeline" },
+  { pattern: /^\/tweets\/search\b/, limit: "search" },
+  { pattern: /^\/tweets\b/, limit: "tweetLookup" },
+];
+
+/**
+ * X limits each endpoint separately; every other host gets one budget
+ */
+function rateLimitFor(url: URL): RateLimit {
+  if (url.host === "api.twitter.com" || url.host === "api.x.com") {
+    const path = url.pathname.replace(/^\/2/, "");
+    const endpoint = TWITTER_ENDPOINTS.find(({ pattern }) => pattern.test(path));
+    if (endpoint) {
+      const { windowMs, [endpoint.limit]: capacity } = config.rateLimits.twitter;
+      return { key: `${url.host}:${endpoint.limit}`, capacity, windowMs };
+    }
+  }
+  return { key: url.host, capacity: config.rateLimits.apiCallsPerMinute, windowMs: 60_000 };
+}
+
+/**
+ * Take a token from the request's budget, waiting for one to refill if the
+ * bucket is empty. Tokens are reserved up front, so concurrent callers
+ * queue in order.
+ */
+async function acquire({ key, capacity, windowMs }: RateLimit): Promise<void> {
+  const perMs = capacity / windowMs;
+  const now = Date.now();
+
+  const bucket = buckets.get(key) || { tokens: capacity, refilledAt: now, blockedUntil: 0 };
+  bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.refilledAt) * perMs) - 1;
+  bucket.refilledAt = now;
+  buckets.set(key, bucket);
+
+  const wait = Math.max(bucket.blockedUntil - now, bucket.tokens < 0 ? -bucket.tokens / perMs : 0);
+  if (wait > 0) {
+    await sleep(wait);
+  }
+}
+
+/**
+ * How long the server asked us to wait, in ms, or undefined if it didn't say.
+ * Retry-After is seconds or an HTTP date; x-rate-limit-reset (Twitter) is
+ * epoch seconds.
+ */
+function requestedWaitMs(response: Response): number | undefined {
+  const retryAfter = response.headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+    if (Number.isFinite(ms)) return Math.max(0, ms);
+  }
+
+  const reset = Number(response.headers.get("x-rate-limit-reset"));
+  if (reset > 0) {
+    return Math.max(0, reset * 1000 - Date.now());
+  }
+
+  return undefined;
+}
+
+function backoffMs(attempt: number): number {
+  const ceiling = Math.min(config.http.maxDelayMs, config.http.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * One attempt, aborted after `timeoutMs` or when the caller's signal fires
+ */
+async function attempt(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  init.signal?.addEventListener("abort", onAbort);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted && !init.signal?.aborted) {
+      const timeout = new Error(`Request to ${new URL(url).host} timed out after ${timeoutMs}ms`);
+      timeout.name = "TimeoutError";
+      throw timeout;
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    init.signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Rate-limited, retrying fetch for outbound API calls
+ */
+export async function httpFetch(url: string, options: HttpRequestOptions = {}): Promise<Response> {
+  const { timeoutMs = config.http.timeoutMs, maxRetries = config.http.maxRetries, ...init } = options;
+  const host = new URL(url).host;
+  const limit = rateLimitFor(new URL(url));
+
+  for (let retry = 0; ; retry++) {
+    await acquire(limit);
+
+    let response: Response;
+    try {
+      response = await attempt(url, init, timeoutMs);
+    } catch (error) {
+      // The caller cancelled; don't retry that
+      if (init.signal?.aborted || retry >= maxRetries) {
+        throw error;
+      }
+      const delay = backoffMs(retry);
+      console.warn(
+        `${host}: ${error instanceof Error ? error.message : "request failed"}, retrying in ${delay}ms (${retry + 1}/${maxRetries})`
+      );
+      await sleep(delay);
+      continue;
+    }
+
+    if (!RETRYABLE_STATUSES.has(response.status) || retry >= maxRetries) {
+      return response;
+    }
+
+    const requested = requestedWaitMs(response);
+    if (requested !== undefined && requested > config.http.maxRetryWaitMs) {
+      console.warn(`${host}: rate limited for ${Math.ceil(requested / 1000)}s, not waiting`);
+      return response;
+    }
+
+    const delay = requested ?? backoffMs(retry);
+    console.warn(`${host}: HTTP ${response.status}, retrying in ${delay}ms (${retry + 1}/${maxRetries})`);
+    // Free the connection before the next attempt
+    await response.body?.cancel().catch(() => {});
+
+    if (response.status === 429) {
+      // Hold back every caller on this budget, not just this one; acquire() waits it out
+      const bucket = buckets.get(limit.key);
+      if (bucket) bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + delay);
+    } else {
+      await sleep(delay);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Prompt Templates
+ *
+ * Prompts live as Markdown files in src/prompts/<version>/<name>.md with
+ * {{variable}} placeholders. Files are read on every render, so prompt
+ * edits apply without a restart; PROMPT_VERSION picks the folder.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { config } from "./config";
+import { success, fail } from "./errors";
+import { ErrorCode } from "../types";
+import type { PromptTemplateName, PromptTemplateVariables, Result } from "../types";
+
+const PLACEHOLDER_REGEX = /\{\{\s*(\w+)\s*\}\}/g;
+const STANDALONE_PLACEHOLDER_REGEX = /^[ \t]*\{\{\s*(\w+)\s*\}\}[ \t]*(?:\n|$)/gm;
+
+/**
+ * Render a template with its typed variables. Fails with INVALID_CONFIG if
+ * the file is missing or uses a placeholder that wasn't provided.
+ */
+export function renderPrompt<K extends PromptTemplateName>(
+  name: K,
+  variables: PromptTemplateVariables[K],
+  version: string = config.prompts.version
+): Result<string> {
+  const filePath = path.join(config.prompts.dir, version, `${name}.md`);
+
+  let template: string;
+  try {
+    template = fs.readFileSync(filePath, "utf-8");
+  } catch (error) {
+    return fail(ErrorCode.INVALID_CONFIG, `Prompt template not found: ${filePath}`, error);
+  }
+
+  const values = variables as Record<string, string | number>;
+  const unknown = [...template.matchAll(PLACEHOLDER_REGEX)]
+    .map((m) => m[1])
+    .filter((key) => !(key in values));
+  if (unknown.length > 0) {
+    return fail(
+      ErrorCode.INVALID_CONFIG,
+      `Prompt template ${version}/${name} uses unknown variables: ${[...new Set(unknown)].join(", ")}`
+    );
+  }
+
+  const rendered = template
+    // Drop lines holding only an empty optional section, then the blank runs they leave
+    .replace(STANDALONE_PLACEHOLDER_REGEX, (line, key: string) => (String(values[key]) === "" ? "" : line))
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(PLACEHOLDER_REGEX, (_, key: string) => String(values[key]))
+    .trim();
+
+  return success(rendered);
+}
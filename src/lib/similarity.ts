@@ -0,0 +1,102 @@
+/**
+ * Text Similarity
+ *
+ * Local TF-IDF over word unigrams and bigrams, compared with cosine
+ * similarity. Good enough to catch "same TVL angle, new wording" without
+ * an embeddings API.
+ */
+
+import type { HistoryEntry, SimilarityIndex } from "../types";
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "has", "have",
+  "in", "is", "it", "its", "of", "on", "or", "so", "that", "the", "this", "to", "was",
+  "were", "what", "with", "we", "you", "your", "our", "just", "now", "more", "all",
+  "avalanche", "avax",
+]);
+
+type TermVector = Map<string, number>;
+
+/**
+ * Lowercased content words, without URLs, mentions or punctuation.
+ * Numbers are kept ("1.2b", "$50m") since they often carry the topic.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/\b(?:https?:\/\/|www\.)\S+/g, " ")
+    .replace(/@\w+/g, " ")
+    .replace(/(\d),(?=\d{3})/g, "$1")
+    .replace(/[^\p{L}\p{N}$.%\s-]/gu, " ")
+    .split(/\s+/)
+    .map((token) => token.replace(/^[.-]+|[.-]+$/g, ""))
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+function terms(text: string): string[] {
+  const tokens = tokenize(text);
+  const bigrams = tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`);
+  return [...tokens, ...bigrams];
+}
+
+function termCounts(text: string): TermVector {
+  const counts: TermVector = new Map();
+  for (const term of terms(text)) {
+    counts.set(term, (counts.get(term) || 0) + 1);
+  }
+  return counts;
+}
+
+function cosine(a: TermVector, b: TermVector): number {
+  let dot = 0;
+  for (const [term, weight] of a) {
+    dot += weight * (b.get(term) || 0);
+  }
+  const norm = (v: TermVector) => Math.sqrt([...v.values()].reduce((sum, w) => sum + w * w, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator === 0 ? 0 : dot / denominator;
+}
+
+/**
+ * Build a TF-IDF index over history entries
+ */
+export function createSimilarityIndex(entries: HistoryEntry[]): SimilarityIndex {
+  const counts = entries.map((entry) => termCounts(entry.text));
+
+  const documentFrequency = new Map<string, number>();
+  for (const vector of counts) {
+    for (const term of vector.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  // Smoothed so terms unseen in history still get a weight
+  const idf = (term: string) =>
+    Math.log((entries.length + 1) / ((documentFrequency.get(term) || 0) + 1)) + 1;
+
+  const weigh = (vector: TermVector): TermVector =>
+    new Map([...vector].map(([term, count]) => [term, count * idf(term)]));
+
+  const vectors = counts.map(weigh);
+
+  return {
+    size: entries.length,
+
+    findSimilar(text, limit = 1) {
+      const query = weigh(termCounts(text));
+      return entries
+        .map((entry, i) => ({ entry, score: Number(cosine(query, vectors[i]).toFixed(3)) }))
+        .filter((match) => match.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+
+    recurringPhrases(limit, minEntries = 2) {
+      return [...documentFrequency]
+        .filter(([term, df]) => term.includes(" ") && df >= minEntries)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit)
+        .map(([term]) => term);
+    },
+  };
+}
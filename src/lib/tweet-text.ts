@@ -0,0 +1,150 @@
+/**
+ * Tweet Text Utilities
+ *
+ * X-accurate weighted length counting and a style linter for drafts.
+ * Shared by the generator and the dashboard, so this module must stay free
+ * of server-only imports (config, fs, SDKs).
+ */
+
+import type { LintRules, LintViolation, StyleGuidelines, TweetDraft } from "../types";
+
+/** X's limit in weighted characters */
+export const TWEET_MAX_WEIGHTED_LENGTH = 280;
+
+/** Every URL counts as this many characters once t.co-wrapped */
+const URL_WEIGHT = 23;
+
+/**
+ * Code point ranges X counts as weight 1 (Latin, common punctuation, etc.).
+ * Everything else (CJK, most symbols) counts as 2. From twitter-text v3 config.
+ */
+const LIGHT_RANGES: Array<[number, number]> = [
+  [0x0000, 0x10ff],
+  [0x2000, 0x200d],
+  [0x2010, 0x201f],
+  [0x2032, 0x2037],
+];
+
+export const URL_REGEX = /\b(?:https?:\/\/|www\.)[^\s<>"]+/gi;
+
+// One emoji "character": pictograph or flag, with modifiers and ZWJ joins
+export const EMOJI_REGEX =
+  /(?:\p{Regional_Indicator}{2}|\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier})?(?:\u200D\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier})?)*)/gu;
+
+/**
+ * Openers from the De-AI checklist
+ */
+export const BANNED_OPENERS = ["Just", "So", "Here's why", "Let's talk about", "Unpopular opinion"];
+
+function codePointWeight(codePoint: number): number {
+  return LIGHT_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end) ? 1 : 2;
+}
+
+/**
+ * Length of a tweet as X counts it: URLs are 23, emoji and CJK are 2
+ */
+export function weightedLength(text: string): number {
+  let length = 0;
+
+  const withoutUrls = text.normalize("NFC").replace(URL_REGEX, () => {
+    length += URL_WEIGHT;
+    return "";
+  });
+
+  const withoutEmoji = withoutUrls.replace(EMOJI_REGEX, () => {
+    length += 2;
+    return "";
+  });
+
+  for (const char of withoutEmoji) {
+    length += codePointWeight(char.codePointAt(0)!);
+  }
+
+  return length;
+}
+
+/**
+ * Build lint rules from the voice profile's style guidelines
+ */
+export function lintRulesFromGuidelines(
+  guidelines: StyleGuidelines,
+  maxLength: number = TWEET_MAX_WEIGHTED_LENGTH
+): LintRules {
+  return {
+    maxLength,
+    avoidWords: guidelines.avoidWords,
+    preferredTerms: guidelines.preferredTerms,
+    bannedOpeners: BANNED_OPENERS,
+    allowHashtags: guidelines.usesHashtags,
+  };
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Whole-word, case-insensitive phrase matcher
+ */
+function phraseRegex(phrase: string): RegExp {
+  return new RegExp(`(?<![\\w@#$-])${escapeRegex(phrase)}(?![\\w-])`, "i");
+}
+
+/**
+ * Lint a single tweet's text
+ */
+export function lintText(text: string, rules: LintRules): LintViolation[] {
+  const violations: LintViolation[] = [];
+
+  const length = weightedLength(text);
+  if (length > rules.maxLength) {
+    violations.push({
+      rule: "length",
+      message: `${length} / ${rules.maxLength} weighted characters (${length - rules.maxLength} over)`,
+    });
+  }
+
+  const opener = rules.bannedOpeners.find((o) => new RegExp(`^${escapeRegex(o)}(?!\\w)`, "i").test(text.trim()));
+  if (opener) {
+    violations.push({ rule: "banned-opener", message: `Starts with "${opener}"`, match: opener });
+  }
+
+  for (const word of rules.avoidWords) {
+    const match = text.match(phraseRegex(word));
+    if (match) {
+      violations.push({ rule: "avoid-word", message: `Uses "${match[0]}"`, match: match[0] });
+    }
+  }
+
+  for (const [term, preferred] of Object.entries(rules.preferredTerms)) {
+    const match = text.match(phraseRegex(term));
+    if (match) {
+      violations.push({
+        rule: "preferred-term",
+        message: `Say "${preferred}" instead of "${match[0]}"`,
+        match: match[0],
+        suggestion: preferred,
+      });
+    }
+  }
+
+  if (!rules.allowHashtags) {
+    for (const hashtag of text.match(/(?<![\w&])#[A-Za-z]\w*/g) || []) {
+      violations.push({ rule: "hashtag", message: `Hashtag ${hashtag} (voice avoids hashtags)`, match: hashtag });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Lint a draft; thread violations are tagged with their post index
+ */
+export function lintDraft(draft: Pick<TweetDraft, "content" | "format" | "posts">, rules: LintRules): LintViolation[] {
+  if (draft.format === "thread" && draft.posts) {
+    return draft.posts.flatMap((post, index) =>
+      lintText(post, rules).map((violation) => ({ ...violation, post: index }))
+    );
+  }
+  return lintText(draft.content, rules);
+}
@@ -0,0 +1,76 @@
+/**
+ * Anthropic Provider
+ * Sends completions to Claude via the official SDK
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import { config } from "../lib/config";
+import { success, fail } from "../lib/errors";
+import { httpFetch } from "../lib/http";
+import type { Result, LLMProvider, LLMRequest, LLMResponse } from "../types";
+import { ErrorCode } from "../types";
+
+/**
+ * SDK client whose requests go through the shared HTTP layer. The SDK's own
+ * retries are off so backoff and rate limiting happen in one place.
+ */
+function createClient(): Anthropic {
+  return new Anthropic({
+    maxRetries: 0,
+    timeout: config.ai.timeoutMs,
+    fetch: (url, init) => httpFetch(String(url), { ...init, timeoutMs: config.ai.timeoutMs }),
+  });
+}
+
+/**
+ * Create a provider backed by the Anthropic Messages API
+ */
+export function createAnthropicProvider(client: Anthropic = createClient()): LLMProvider {
+  return {
+    name: "anthropic",
+    async complete(request: LLMRequest): Promise<Result<LLMResponse>> {
+      const model = request.model || config.ai.model;
+
+      try {
+        const response = await client.messages.create({
+          model,
+          max_tokens: request.maxTokens ?? config.ai.maxTokens,
+          ...(request.temperature !== undefined && { temperature: request.temperature }),
+          ...(request.system && { system: request.system }),
+          messages: request.messages,
+        });
+
+        const usage = {
+          inputTokens: response.usage.input_tokens,
+          outputTokens: response.usage.output_tokens,
+        };
+        const textBlock = response.content.find((block) => block.type === "text");
+        if (!textBlock || textBlock.type !== "text" || !textBlock.text.trim()) {
+          // The tokens were still spent; the usage ledger records them
+          return fail(ErrorCode.AI_INVALID_RESPONSE, "No text response from Claude", { usage, model });
+        }
+
+        return success({ text: textBlock.text, usage, model });
+      } catch (error) {
+        const apiError = error as { status?: number; message?: string };
+
+        // Handle specific API errors
+        if (apiError.status === 401 || apiError.status === 403) {
+          return fail(ErrorCode.AI_UNAVAILABLE, "Invalid or missing API key", { status: apiError.status });
+        }
+        if (apiError.status === 429) {
+          return fail(ErrorCode.AI_RATE_LIMITED, "Rate limited by AI provider", { status: apiError.status });
+        }
+        if (apiError.status === 404) {
+          return fail(ErrorCode.AI_MODEL_NOT_FOUND, `Model not found: ${model}`, { model });
+        }
+
+        return fail(
+          ErrorCode.UNKNOWN_ERROR,
+          apiError.message || "Unknown error during completion",
+          error
+        );
+      }
+    },
+  };
+}
@@ -0,0 +1,247 @@
+/**
+ * Fake Provider
+ * Deterministic offline stand-in for the LLM. Returns canned drafts so the
+ * whole pipeline can run without network access or an API key.
+ */
+
+import { config } from "../lib/config";
+import { success } from "../lib/errors";
+import { EXPERT_PANEL } from "../generator/pipeline";
+import type {
+  Result,
+  LLMFeature,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  TweetDraft,
+} from "../types";
+
+type FakeResponder = string | ((request: LLMRequest) => string);
+
+const CANNED_DRAFTS: Array<Omit<TweetDraft, "id" | "createdAt">> = [
+  {
+    content: "Avalanche TVL sitting at $1.2B and up 3.5% on the day...\n\nquietly one of the better weeks on-chain this quarter",
+    source: "onchain",
+    context: "TVL trend from DeFiLlama",
+    confidence: 0.82,
+    sourceIds: ["onchain-tvl", "onchain-tvlChange24h"],
+  },
+  {
+    content: "a new gaming L1 went live on @avax with 10,000 TPS\n\nnot a roadmap slide, it's actually running",
+    source: "news",
+    context: "Gaming subnet launch",
+    confidence: 0.78,
+    sourceIds: ["news-1"],
+  },
+  {
+    content: "1.5M transactions in 24h on the C-Chain\n\npeople keep asking where the users are. they're right here",
+    source: "onchain",
+    context: "Daily transaction count",
+    confidence: 0.8,
+    sourceIds: ["onchain-transactions24h"],
+  },
+  {
+    content: "the @avax team has been hinting at something all week 👀\n\nmy guess: more funds going on-chain. what's yours?",
+    source: "twitter",
+    context: "Teaser from the official account",
+    confidence: 0.7,
+    sourceIds: ["tweet-1"],
+  },
+  {
+    content: "tokenized funds on Avalanche keep stacking up\n\ninstitutions don't announce the boring infra stuff. they just quietly use it",
+    source: "mixed",
+    context: "RWA / institutional adoption angle",
+    confidence: 0.75,
+    sourceIds: ["news-1", "tweet-1"],
+  },
+];
+
+const CANNED_THREAD: Omit<TweetDraft, "id" | "createdAt" | "content"> = {
+  format: "thread",
+  posts: [
+    "🔺 The Unofficial @avax Weekly Recap 🔺\n\nbusy week. here's what actually happened",
+    "TVL at $1.2B, +3.5% on the day. quiet grind up, no airdrop farming required",
+    "a new gaming L1 went live pushing 10,000 TPS. actual players, not a testnet demo",
+    "1.5M transactions in 24h. the C-Chain is not a ghost town, whatever the timeline says",
+    "that's the week. what did I miss?",
+  ],
+  source: "mixed",
+  context: "Weekly recap thread across on-chain data and news",
+  confidence: 0.77,
+  sourceIds: ["onchain-tvl", "onchain-tvlChange24h", "news-1", "onchain-transactions24h"],
+};
+
+const CANNED_REVISION =
+  "tighter take: Avalanche TVL up 3.5% in a day, 1.5M txs... the chain is busy";
+
+/**
+ * Source IDs the prompt offered ("- [news-1] ..."), so canned drafts only
+ * cite data that was actually there
+ */
+function offeredSourceIds(request: LLMRequest): Set<string> {
+  const prompt = request.messages[0]?.content || "";
+  return new Set([...prompt.matchAll(/^- \[([\w-]+)\]/gm)].map((m) => m[1]));
+}
+
+/**
+ * Canned drafts as the JSON array the generator expects, padded or trimmed
+ * to the configured number of drafts
+ */
+function cannedDraftsJson(request: LLMRequest): string {
+  const offered = offeredSourceIds(request);
+  const drafts = Array.from({ length: config.rateLimits.tweetsPerDay }, (_, i) => {
+    const draft = CANNED_DRAFTS[i % CANNED_DRAFTS.length];
+    return {
+      id: `fake-draft-${i + 1}`,
+      ...draft,
+      sourceIds: draft.sourceIds?.filter((id) => offered.has(id)),
+    };
+  });
+  return JSON.stringify(drafts, null, 2);
+}
+
+/**
+ * Canned threads as the JSON array the generator expects in thread mode
+ */
+function cannedThreadsJson(request: LLMRequest): string {
+  const offered = offeredSourceIds(request);
+  const threads = Array.from({ length: config.generation.threadsPerRun }, (_, i) => ({
+    id: `fake-thread-${i + 1}`,
+    ...CANNED_THREAD,
+    sourceIds: CANNED_THREAD.sourceIds?.filter((id) => offered.has(id)),
+  }));
+  return JSON.stringify(threads, null, 2);
+}
+
+/**
+ * A reply and a quote for every tweet the prompt lists ("- [tweet-1] @handle ...")
+ */
+function cannedRepliesJson(request: LLMRequest): string {
+  const prompt = request.messages[0]?.content || "";
+  const targets = [...prompt.matchAll(/^- \[(tweet-\d+)\] @(\w+)/gm)];
+  const suggestions = targets.flatMap(([, targetId, handle]) => [
+    {
+      targetId,
+      kind: "reply",
+      content: "this is the part people are sleeping on... the numbers back it up too",
+      context: `Adds a take under @${handle}'s tweet`,
+      confidence: 0.72,
+    },
+    {
+      targetId,
+      kind: "quote",
+      content: "if you only read one thing about @avax today, make it this",
+      context: `Points followers at @${handle}'s tweet`,
+      confidence: 0.68,
+    },
+  ]);
+  return JSON.stringify(suggestions, null, 2);
+}
+
+/**
+ * As many variants as the prompt asks for, one per offered angle
+ */
+function cannedVariantsJson(request: LLMRequest): string {
+  const count = Number(request.messages[0]?.content.match(/Write (\d+) variants/)?.[1]) || 1;
+  const angles = [...(request.system || "").matchAll(/^- "([\w-]+)":/gm)].map(([, angle]) => angle);
+  const variants = angles.slice(0, count).map((angle, i) => ({
+    angle,
+    content: [
+      "ok this one surprised me\n\nthe numbers on @avax this week are worth a second look",
+      "the chart says it better than I can. @avax keeps climbing",
+      "what would you build if fees were basically zero? @avax is finding out",
+      "no thread, no hype. just a chain that keeps shipping",
+    ][i % 4],
+    notes: `Canned "${angle}" variant`,
+  }));
+  return JSON.stringify(variants, null, 2);
+}
+
+/**
+ * Drafts the critique/rewrite stages sent, read back from the prompt's JSON block
+ */
+function promptDrafts(request: LLMRequest): Array<Pick<TweetDraft, "id" | "content" | "posts">> {
+  const last = request.messages[request.messages.length - 1]?.content || "";
+  const match = last.match(/```json\n([\s\S]*?)\n```/);
+  if (!match) return [];
+  try {
+    return JSON.parse(match[1]);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Every draft gets the same middling panel scores
+ */
+function cannedCritiqueJson(request: LLMRequest): string {
+  const critiques = promptDrafts(request).map((draft) => ({
+    id: draft.id,
+    scores: EXPERT_PANEL.map(({ expert }, i) => ({
+      expert,
+      score: 6 + (i % 3),
+      feedback: "fine, but the hook could be sharper",
+    })),
+    summary: "Solid draft, lead with the number",
+    suggestions: ["Move the strongest number into the first line"],
+  }));
+  return JSON.stringify(critiques, null, 2);
+}
+
+/**
+ * Rewrites hand the drafts back unchanged
+ */
+function cannedRewriteJson(request: LLMRequest): string {
+  const rewrites = promptDrafts(request).map((draft) => ({
+    id: draft.id,
+    ...(draft.posts ? { posts: draft.posts } : { content: draft.content }),
+    notes: "fake rewrite (unchanged)",
+  }));
+  return JSON.stringify(rewrites, null, 2);
+}
+
+/**
+ * Rough token estimate (~4 chars per token)
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+const DEFAULT_RESPONDERS: Record<LLMFeature, FakeResponder> = {
+  generate: cannedDraftsJson,
+  "generate-thread": cannedThreadsJson,
+  critique: cannedCritiqueJson,
+  rewrite: cannedRewriteJson,
+  revise: CANNED_REVISION,
+  reply: cannedRepliesJson,
+  variants: cannedVariantsJson,
+};
+
+/**
+ * Create a fake provider. Responses can be overridden per feature, either
+ * with a fixed string or a function of the request (repair calls carry
+ * `repairAttempt`, so a function can fail first and recover later).
+ */
+export function createFakeProvider(
+  overrides: Partial<Record<LLMFeature, FakeResponder>> = {}
+): LLMProvider {
+  const responders = { ...DEFAULT_RESPONDERS, ...overrides };
+
+  return {
+    name: "fake",
+    async complete(request: LLMRequest): Promise<Result<LLMResponse>> {
+      const responder = responders[request.feature];
+      const text = typeof responder === "function" ? responder(request) : responder;
+      const promptText = [request.system || "", ...request.messages.map((m) => m.content)].join("\n");
+
+      return success({
+        text,
+        usage: {
+          inputTokens: estimateTokens(promptText),
+          outputTokens: estimateTokens(text),
+        },
+        model: "fake",
+      });
+    },
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * LLM Provider Registry
+ *
+ * Single place that decides which LLM backend handles completions.
+ * Callers ask for a provider and never construct SDK clients themselves.
+ */
+
+import { config } from "../lib/config";
+import { createAnthropicProvider } from "./anthropic";
+import { createFakeProvider } from "./fake";
+import { withUsageTracking } from "./usage";
+import type { LLMProvider, LLMProviderName } from "../types";
+
+const providers = new Map<LLMProviderName, LLMProvider>();
+
+/**
+ * Get the provider for a name (defaults to config.ai.provider), with calls
+ * recorded in the usage ledger under `route` and blocked once over budget.
+ * Instances are cached so SDK clients are created once per process.
+ */
+export function getLLMProvider(
+  name: LLMProviderName = config.ai.provider,
+  route: string = "cli"
+): LLMProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = name === "fake" ? createFakeProvider() : createAnthropicProvider();
+    providers.set(name, provider);
+  }
+  return withUsageTracking(provider, route);
+}
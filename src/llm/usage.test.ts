@@ -0,0 +1,68 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { fail } from "../lib/errors";
+import { ErrorCode } from "../types";
+import type { LLMProvider, LLMRequest } from "../types";
+
+// Read by config on import
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "usage-"));
+process.env.USAGE_LEDGER_PATH = path.join(dir, "ledger.jsonl");
+process.env.DAILY_BUDGET_USD = "0.02";
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const request: LLMRequest = {
+  feature: "generate",
+  model: "claude-3-5-sonnet-20241022",
+  messages: [{ role: "user", content: "Write a tweet" }],
+};
+
+/** Answers with no text, having used tokens */
+const emptyProvider: LLMProvider = {
+  name: "anthropic",
+  async complete(req) {
+    return fail(ErrorCode.AI_INVALID_RESPONSE, "No text response from Claude", {
+      usage: { inputTokens: 2000, outputTokens: 500 },
+      model: req.model,
+    });
+  },
+};
+
+test("failed attempts are recorded with their error and usage, and count toward the budget", async () => {
+  const { checkBudget, readUsage, withUsageTracking } = await import("./usage");
+  const provider = withUsageTracking(emptyProvider, "test");
+
+  assert.equal((await provider.complete(request)).success, false);
+  assert.equal((await provider.complete({ ...request, repairAttempt: 1 })).success, false);
+
+  const records = readUsage();
+  assert.equal(records.length, 2);
+  assert.equal(records[0].error?.code, ErrorCode.AI_INVALID_RESPONSE);
+  assert.equal(records[1].repairAttempt, 1);
+  assert.equal(records[0].inputTokens, 2000);
+  assert.ok(records[0].costUsd > 0);
+
+  // $0.0135 per attempt: the retry is what crosses the budget
+  const budget = checkBudget();
+  assert.equal(!budget.success && budget.error.code, ErrorCode.BUDGET_EXCEEDED);
+});
+
+test("a call that never ran is recorded without tokens", async () => {
+  const { readUsage, withUsageTracking } = await import("./usage");
+  fs.rmSync(process.env.USAGE_LEDGER_PATH!, { force: true });
+
+  const unavailable: LLMProvider = {
+    name: "anthropic",
+    async complete() {
+      return fail(ErrorCode.AI_UNAVAILABLE, "Invalid or missing API key", { status: 401 });
+    },
+  };
+  await withUsageTracking(unavailable, "test").complete(request);
+
+  const [record] = readUsage();
+  assert.equal(record.error?.code, ErrorCode.AI_UNAVAILABLE);
+  assert.equal(record.inputTokens + record.outputTokens, 0);
+  assert.equal(record.model, request.model);
+});
@@ -0,0 +1,213 @@
+/**
+ * Usage Ledger
+ *
+ * Appends one JSON line per completion attempt (tokens, model, route,
+ * estimated cost, and the error of a failed one) to config.usage.ledgerPath,
+ * and enforces the daily/monthly budgets before each call.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { config } from "../lib/config";
+import { success, fail } from "../lib/errors";
+import type {
+  AppError,
+  LLMFeature,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMUsage,
+  Result,
+  UsageRecord,
+  UsageSummary,
+  UsageTotals,
+} from "../types";
+import { ErrorCode } from "../types";
+
+/**
+ * Estimated USD cost of a call; 0 for models missing from the price table
+ */
+export function estimateCost(model: string, usage: LLMUsage): number {
+  const price = config.usage.prices[model];
+  if (!price) return 0;
+  const cost = (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+  return Number(cost.toFixed(6));
+}
+
+/**
+ * Append a record to the ledger. Failures are logged, never thrown: losing
+ * a ledger line shouldn't lose the completion it describes.
+ */
+export function recordUsage(record: UsageRecord): void {
+  try {
+    fs.mkdirSync(path.dirname(config.usage.ledgerPath), { recursive: true });
+    fs.appendFileSync(config.usage.ledgerPath, JSON.stringify(record) + "\n");
+  } catch (error) {
+    console.warn("Could not write usage ledger:", error);
+  }
+}
+
+/**
+ * Ledger records on or after `since` (YYYY-MM-DD, UTC), oldest first
+ */
+export function readUsage(since?: string): UsageRecord[] {
+  if (!fs.existsSync(config.usage.ledgerPath)) return [];
+
+  return fs
+    .readFileSync(config.usage.ledgerPath, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as UsageRecord];
+      } catch {
+        return [];
+      }
+    })
+    .filter((record) => !since || record.timestamp.slice(0, 10) >= since);
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function monthStart(date: Date): string {
+  return `${date.toISOString().slice(0, 7)}-01`;
+}
+
+function sumCost(records: UsageRecord[]): number {
+  return Number(records.reduce((sum, r) => sum + r.costUsd, 0).toFixed(6));
+}
+
+/**
+ * Fail with BUDGET_EXCEEDED once today's or this month's spend reaches its limit
+ */
+export function checkBudget(now: Date = new Date()): Result<void> {
+  const { dailyBudgetUsd, monthlyBudgetUsd } = config.usage;
+  if (!dailyBudgetUsd && !monthlyBudgetUsd) {
+    return success(undefined);
+  }
+
+  const monthRecords = readUsage(monthStart(now));
+  const today = dayKey(now);
+  const todayUsd = sumCost(monthRecords.filter((r) => r.timestamp.slice(0, 10) === today));
+  const monthUsd = sumCost(monthRecords);
+
+  if (dailyBudgetUsd && todayUsd >= dailyBudgetUsd) {
+    return fail(
+      ErrorCode.BUDGET_EXCEEDED,
+      `Daily AI budget of $${dailyBudgetUsd.toFixed(2)} reached ($${todayUsd.toFixed(2)} spent today)`,
+      { period: "day", spentUsd: todayUsd, budgetUsd: dailyBudgetUsd }
+    );
+  }
+  if (monthlyBudgetUsd && monthUsd >= monthlyBudgetUsd) {
+    return fail(
+      ErrorCode.BUDGET_EXCEEDED,
+      `Monthly AI budget of $${monthlyBudgetUsd.toFixed(2)} reached ($${monthUsd.toFixed(2)} spent this month)`,
+      { period: "month", spentUsd: monthUsd, budgetUsd: monthlyBudgetUsd }
+    );
+  }
+
+  return success(undefined);
+}
+
+/**
+ * What a failed call used: providers put `usage` and `model` in the error
+ * details when the model answered unusably; nothing when it never ran
+ */
+function failedCallUsage(error: AppError): { usage: LLMUsage; model?: string } {
+  const details = (error.details ?? {}) as { usage?: Partial<LLMUsage>; model?: unknown };
+  return {
+    usage: {
+      inputTokens: Number(details.usage?.inputTokens) || 0,
+      outputTokens: Number(details.usage?.outputTokens) || 0,
+    },
+    ...(typeof details.model === "string" && { model: details.model }),
+  };
+}
+
+/**
+ * Wrap a provider so every call is budget-checked first and recorded after,
+ * failed ones included
+ */
+export function withUsageTracking(provider: LLMProvider, route: string): LLMProvider {
+  return {
+    name: provider.name,
+    async complete(request: LLMRequest): Promise<Result<LLMResponse>> {
+      const budget = checkBudget();
+      if (!budget.success) {
+        return budget;
+      }
+
+      const result = await provider.complete(request);
+      const reported = result.success ? result.data : failedCallUsage(result.error);
+      const model = reported.model ?? request.model ?? config.ai.model;
+      recordUsage({
+        timestamp: new Date().toISOString(),
+        route,
+        feature: request.feature,
+        provider: provider.name,
+        model,
+        inputTokens: reported.usage.inputTokens,
+        outputTokens: reported.usage.outputTokens,
+        costUsd: estimateCost(model, reported.usage),
+        ...(request.repairAttempt && { repairAttempt: request.repairAttempt }),
+        ...(!result.success && { error: { code: result.error.code, message: result.error.message } }),
+      });
+      return result;
+    },
+  };
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord): void {
+  totals.calls += 1;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.costUsd = Number((totals.costUsd + record.costUsd).toFixed(6));
+}
+
+function groupBy(records: UsageRecord[], key: (record: UsageRecord) => string): Map<string, UsageTotals> {
+  const groups = new Map<string, UsageTotals>();
+  for (const record of records) {
+    const k = key(record);
+    const totals = groups.get(k) || emptyTotals();
+    addToTotals(totals, record);
+    groups.set(k, totals);
+  }
+  return groups;
+}
+
+/**
+ * Spend over the last `days` days (including today), by day, feature and route
+ */
+export function summarizeUsage(days: number = 30, now: Date = new Date()): UsageSummary {
+  const since = dayKey(new Date(now.getTime() - (days - 1) * 24 * 60 * 60 * 1000));
+  const earliest = since < monthStart(now) ? since : monthStart(now);
+  const all = readUsage(earliest);
+  const records = all.filter((r) => r.timestamp.slice(0, 10) >= since);
+  const today = dayKey(now);
+
+  return {
+    since,
+    byDay: [...groupBy(records, (r) => r.timestamp.slice(0, 10))]
+      .map(([date, totals]) => ({ date, ...totals }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    byFeature: [...groupBy(records, (r) => r.feature)]
+      .map(([feature, totals]) => ({ feature: feature as LLMFeature, ...totals }))
+      .sort((a, b) => b.costUsd - a.costUsd),
+    byRoute: [...groupBy(records, (r) => r.route)]
+      .map(([route, totals]) => ({ route, ...totals }))
+      .sort((a, b) => b.costUsd - a.costUsd),
+    todayUsd: sumCost(all.filter((r) => r.timestamp.slice(0, 10) === today)),
+    monthUsd: sumCost(all.filter((r) => r.timestamp.slice(0, 10) >= monthStart(now))),
+    budget: {
+      dailyUsd: config.usage.dailyBudgetUsd,
+      monthlyUsd: config.usage.monthlyBudgetUsd,
+    },
+    unpricedModels: [...new Set(records.map((r) => r.model))].filter((m) => !config.usage.prices[m]),
+  };
+}
@@ -0,0 +1,264 @@
+/**
+ * Article Scraper
+ * Fetches a single web page and extracts its title, date and body text as a
+ * NewsItem, for URLs pasted into a custom brief. The URLs come from users,
+ * so hosts that resolve to loopback, private or link-local addresses are
+ * refused (redirects included) and only the first config.brief.maxArticleBytes
+ * of a page are read.
+ */
+
+import { BlockList, isIP } from "net";
+import { promises as dns } from "dns";
+import { config } from "../lib/config";
+import { success, fail } from "../lib/errors";
+import { httpFetch } from "../lib/http";
+import type { Result, NewsItem } from "../types";
+import { ErrorCode } from "../types";
+
+// Addresses a pasted URL must not reach: this machine, the local network,
+// cloud metadata endpoints and the like
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Blocks that never hold the article text
+const NOISE_BLOCKS = /<(script|style|noscript|svg|nav|header|footer|aside|form|iframe)\b[\s\S]*?<\/\1>/gi;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  rsquo: "'",
+  lsquo: "'",
+  rdquo: '"',
+  ldquo: '"',
+  mdash: "—",
+  ndash: "–",
+  hellip: "...",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : Number(entity.slice(1));
+      return code >= 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function toText(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Content of the first <meta> whose name/property is one of `keys`
+ */
+function metaContent(html: string, keys: string[]): string | undefined {
+  for (const tag of html.match(/<meta\s[^>]*>/gi) || []) {
+    const attrs: Record<string, string> = {};
+    for (const [, name, , double, single] of tag.matchAll(/([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+      attrs[name.toLowerCase()] = double ?? single;
+    }
+    const key = (attrs.property || attrs.name || attrs.itemprop || "").toLowerCase();
+    if (keys.includes(key) && attrs.content) {
+      return decodeEntities(attrs.content).trim();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Paragraph text from <article> (or <main>, or the whole page), skipping
+ * navigation, scripts and one-word fragments
+ */
+function extractBody(html: string): string {
+  const cleaned = html.replace(/<!--[\s\S]*?-->/g, "").replace(NOISE_BLOCKS, " ");
+  const container =
+    cleaned.match(/<article\b[\s\S]*<\/article>/i)?.[0] ||
+    cleaned.match(/<main\b[\s\S]*<\/main>/i)?.[0] ||
+    cleaned;
+
+  const paragraphs = [...container.matchAll(/<(p|h2|h3|li)\b[^>]*>([\s\S]*?)<\/\1>/gi)]
+    .map(([, , inner]) => toText(inner))
+    .filter((text) => text.split(" ").length >= 4);
+
+  // One line, like feed summaries, so it sits in the prompt's news list
+  return paragraphs.length > 0 ? paragraphs.join(" ") : toText(container);
+}
+
+/**
+ * BlockList checks IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) against the IPv4 subnets
+ */
+function isBlockedAddress(address: string): boolean {
+  return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Refuse non-http(s) URLs and hosts with any loopback, private or
+ * link-local address
+ */
+async function checkUrl(url: URL): Promise<Result<void>> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return fail(ErrorCode.INVALID_DATA_FORMAT, `Only http(s) URLs can be fetched: ${url}`);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname) ? [hostname] : (await dns.lookup(hostname, { all: true })).map((a) => a.address);
+  } catch (error) {
+    return fail(ErrorCode.SCRAPER_FAILED, `Could not resolve ${url.host}`, error);
+  }
+  if (addresses.some(isBlockedAddress)) {
+    return fail(ErrorCode.INVALID_DATA_FORMAT, `${url.host} is a local or private address and can't be fetched`);
+  }
+
+  return success(undefined);
+}
+
+/**
+ * Fetch, following redirects by hand so every hop is checked
+ */
+async function fetchPublic(url: URL): Promise<Result<{ url: URL; response: Response }>> {
+  for (let redirects = 0; ; redirects++) {
+    const allowed = await checkUrl(url);
+    if (!allowed.success) {
+      return allowed;
+    }
+
+    const response = await httpFetch(url.toString(), {
+      redirect: "manual",
+      headers: {
+        "User-Agent": "AvalancheTweetBot/1.0",
+        Accept: "text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.5",
+      },
+    });
+    const location = response.headers.get("location");
+    if (!REDIRECT_STATUSES.has(response.status) || !location) {
+      return success({ url, response });
+    }
+
+    await response.body?.cancel().catch(() => {});
+    if (redirects >= config.brief.maxRedirects) {
+      return fail(ErrorCode.SCRAPER_FAILED, `Too many redirects from ${url.host}`);
+    }
+    url = new URL(location, url);
+  }
+}
+
+/**
+ * The body as text, stopping after `maxBytes`
+ */
+async function readText(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return "";
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let bytes = 0;
+  while (bytes < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) return text + decoder.decode();
+    const chunk = value.subarray(0, maxBytes - bytes);
+    bytes += chunk.byteLength;
+    text += decoder.decode(chunk, { stream: true });
+  }
+  await reader.cancel().catch(() => {});
+  return text + decoder.decode();
+}
+
+function parseDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+/**
+ * Fetch a page and extract it as a NewsItem. The summary holds the article
+ * text (description first), capped at config.brief.maxArticleChars.
+ */
+export async function scrapeArticle(url: string): Promise<Result<NewsItem>> {
+  let requestedUrl: URL;
+  try {
+    requestedUrl = new URL(url);
+  } catch {
+    return fail(ErrorCode.INVALID_DATA_FORMAT, `Not a valid URL: ${url}`);
+  }
+
+  try {
+    const fetched = await fetchPublic(requestedUrl);
+    if (!fetched.success) {
+      return fetched;
+    }
+    const { url: parsedUrl, response } = fetched.data;
+    if (!response.ok) {
+      return fail(ErrorCode.SCRAPER_FAILED, `${parsedUrl.host} returned HTTP ${response.status}`, { url });
+    }
+
+    const contentType = response.headers.get("content-type") || "";
+    if (!/text\/(html|plain)|application\/xhtml/.test(contentType)) {
+      return fail(ErrorCode.INVALID_DATA_FORMAT, `${url} is not a web page (${contentType || "unknown type"})`);
+    }
+
+    const raw = await readText(response, config.brief.maxArticleBytes);
+    const isHtml = !contentType.includes("text/plain");
+    const title = isHtml
+      ? metaContent(raw, ["og:title", "twitter:title"]) || toText(raw.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] || "")
+      : "";
+    const description = isHtml ? metaContent(raw, ["og:description", "description", "twitter:description"]) : undefined;
+    const body = isHtml ? extractBody(raw) : raw.replace(/\s+/g, " ").trim();
+
+    const text = description && !body.startsWith(description) ? `${description} ${body}` : body;
+    if (!title && !text) {
+      return fail(ErrorCode.NO_DATA_AVAILABLE, `No readable text found at ${url}`);
+    }
+
+    const now = new Date().toISOString();
+    return success({
+      title: title || parsedUrl.host,
+      summary: text.slice(0, config.brief.maxArticleChars),
+      url: parsedUrl.toString(),
+      source: parsedUrl.host.replace(/^www\./, ""),
+      publishedAt:
+        parseDate(isHtml ? metaContent(raw, ["article:published_time", "datepublished", "date"]) : undefined) ||
+        parseDate(raw.match(/<time[^>]*datetime="([^"]+)"/i)?.[1]) ||
+        now,
+      // Picked by hand for this brief
+      relevanceScore: 1,
+      verified: true,
+      verifiedAt: now,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      return fail(ErrorCode.SCRAPER_TIMEOUT, error.message, { url });
+    }
+    return fail(ErrorCode.SCRAPER_FAILED, `Could not fetch ${url}`, error);
+  }
+}
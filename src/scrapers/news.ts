@@ -6,6 +6,7 @@
 import Parser from "rss-parser";
 import { config } from "../lib/config";
 import { success, fail } from "../lib/errors";
+import { httpFetch } from "../lib/http";
 import type { Result, NewsItem } from "../types";
 import { ErrorCode } from "../types";
 
@@ -118,7 +119,7 @@ function isFresh(dateStr: string | number): boolean {
 async function fetchReddit(url: string): Promise<NewsItem[]> {
   const items: NewsItem[] = [];
   try {
-    const response = await fetch(url, {
+    const response = await httpFetch(url, {
       headers: {
         'User-Agent': 'AvalancheTweetBot/1.0',
       },
@@ -166,7 +167,17 @@ export async function scrapeNews(): Promise<Result<NewsItem[]>> {
         continue;
       }
 
-      const parsed = await parser.parseURL(feed.url);
+      const response = await httpFetch(feed.url, {
+        headers: {
+          'User-Agent': 'AvalancheTweetBot/1.0',
+          'Accept': 'application/rss+xml, application/xml, text/xml;q=0.9, */*;q=0.8',
+        },
+      });
+      if (!response.ok) {
+        console.warn(`Error fetching from ${feed.source}: HTTP ${response.status}`);
+        continue;
+      }
+      const parsed = await parser.parseString(await response.text());
 
       for (const item of parsed.items.slice(0, 50)) { // Check more items
         const title = item.title || "";
@@ -192,9 +203,6 @@ export async function scrapeNews(): Promise<Result<NewsItem[]>> {
           relevanceScore: feedConfig.skipKeywordFilter ? 0.9 : calculateRelevance(title, summary),
         });
       }
-
-      // Rate limit protection
-      await new Promise(resolve => setTimeout(resolve, 500));
     } catch (error) {
       console.warn(`Error fetching from ${feed.source}:`, error);
     }
@@ -219,8 +227,9 @@ export async function scrapeNews(): Promise<Result<NewsItem[]>> {
  */
 export async function verifyNewsUrl(url: string): Promise<boolean> {
   try {
-    const response = await fetch(url, {
+    const response = await httpFetch(url, {
       method: "HEAD",
+      maxRetries: 0,
       headers: {
         "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36",
       },
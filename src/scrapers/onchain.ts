@@ -5,6 +5,7 @@
  */
 
 import { success, fail } from "../lib/errors";
+import { httpFetch } from "../lib/http";
 import type { Result, OnchainData } from "../types";
 import { ErrorCode } from "../types";
 
@@ -51,7 +52,7 @@ export async function scrapeOnchainData(): Promise<Result<OnchainData>> {
     console.log(`Using DeFiLlama API${API_KEY ? ' (with Pro key)' : ''}`);
 
     // Fetch TVL data for Avalanche (free API)
-    const tvlResponse = await fetch(`${DEFILLAMA_FREE_API}/v2/chains`, { headers });
+    const tvlResponse = await httpFetch(`${DEFILLAMA_FREE_API}/v2/chains`, { headers });
 
     if (!tvlResponse.ok) {
       return fail(ErrorCode.SCRAPER_FAILED, `DeFiLlama API error: ${tvlResponse.status}`);
@@ -65,7 +66,7 @@ export async function scrapeOnchainData(): Promise<Result<OnchainData>> {
     }
 
     // Fetch historical TVL for change calculation (free API)
-    const historyResponse = await fetch(`${DEFILLAMA_FREE_API}/v2/historicalChainTvl/Avalanche`, { headers });
+    const historyResponse = await httpFetch(`${DEFILLAMA_FREE_API}/v2/historicalChainTvl/Avalanche`, { headers });
     let tvlChange24h = 0;
     let tvlChange7d = 0;
 
@@ -84,7 +85,7 @@ export async function scrapeOnchainData(): Promise<Result<OnchainData>> {
     // Fetch DEX volume (free API)
     let volume24h: number | undefined;
     try {
-      const volumeResponse = await fetch(
+      const volumeResponse = await httpFetch(
         `${DEFILLAMA_FREE_API}/overview/dexs/Avalanche?excludeTotalDataChart=true&excludeTotalDataChartBreakdown=true`,
         { headers }
       );
@@ -99,7 +100,7 @@ export async function scrapeOnchainData(): Promise<Result<OnchainData>> {
     // Fetch fees data (free API)
     let fees24h: number | undefined;
     try {
-      const feesResponse = await fetch(
+      const feesResponse = await httpFetch(
         `${DEFILLAMA_FREE_API}/overview/fees/Avalanche?excludeTotalDataChart=true&excludeTotalDataChartBreakdown=true`,
         { headers }
       );
@@ -114,7 +115,7 @@ export async function scrapeOnchainData(): Promise<Result<OnchainData>> {
     // Fetch stablecoin data for Avalanche (free API)
     let stablecoinTvl: number | undefined;
     try {
-      const stableResponse = await fetch(`${DEFILLAMA_FREE_API}/v2/stablecoins`, { headers });
+      const stableResponse = await httpFetch(`${DEFILLAMA_FREE_API}/v2/stablecoins`, { headers });
       if (stableResponse.ok) {
         const stableData = await stableResponse.json() as {
           peggedAssets: Array<{
@@ -138,7 +139,7 @@ export async function scrapeOnchainData(): Promise<Result<OnchainData>> {
       const yieldsUrl = API_KEY
         ? addApiKey(`${DEFILLAMA_PRO_API}/yields/pools`)
         : `${DEFILLAMA_FREE_API}/pools`;
-      const yieldsResponse = await fetch(yieldsUrl, { headers });
+      const yieldsResponse = await httpFetch(yieldsUrl, { headers });
       if (yieldsResponse.ok) {
         const yieldsData = await yieldsResponse.json() as {
           data: Array<{ chain: string; project: string; apy: number; tvlUsd: number }>
@@ -189,7 +190,7 @@ export async function scrapeOnchainData(): Promise<Result<OnchainData>> {
 export async function getProtocolData(protocolSlug: string): Promise<Result<{ name: string; tvl: number; change24h: number }>> {
   try {
     const headers = getHeaders();
-    const response = await fetch(`${DEFILLAMA_FREE_API}/protocol/${protocolSlug}`, { headers });
+    const response = await httpFetch(`${DEFILLAMA_FREE_API}/protocol/${protocolSlug}`, { headers });
 
     if (!response.ok) {
       return fail(ErrorCode.SCRAPER_FAILED, `Protocol fetch failed: ${response.status}`);
@@ -220,7 +221,7 @@ export async function getProtocolData(protocolSlug: string): Promise<Result<{ na
 export async function getTopProtocols(limit: number = 10): Promise<Result<Array<{ name: string; tvl: number; category: string }>>> {
   try {
     const headers = getHeaders();
-    const response = await fetch(`${DEFILLAMA_FREE_API}/protocols`, { headers });
+    const response = await httpFetch(`${DEFILLAMA_FREE_API}/protocols`, { headers });
 
     if (!response.ok) {
       return fail(ErrorCode.SCRAPER_FAILED, `Protocols fetch failed: ${response.status}`);
@@ -3,8 +3,8 @@
  * Fetches real tweets from Avalanche-related accounts
  */
 
-import { config } from "../lib/config";
 import { success, fail } from "../lib/errors";
+import { httpFetch } from "../lib/http";
 import type { Result, TwitterPost } from "../types";
 import { ErrorCode } from "../types";
 
@@ -81,11 +81,12 @@ export async function scrapeTwitter(): Promise<Result<TwitterPost[]>> {
   }
 
   const allTweets: TwitterPost[] = [];
+  let rateLimited = false;
 
   for (const username of AVALANCHE_ACCOUNTS) {
     try {
       // First get user ID
-      const userResponse = await fetch(
+      const userResponse = await httpFetch(
         `${TWITTER_API_BASE}/users/by/username/${username}`,
         {
           headers: {
@@ -94,6 +95,11 @@ export async function scrapeTwitter(): Promise<Result<TwitterPost[]>> {
         }
       );
 
+      // Retries are exhausted by now; every other account would hit the same limit
+      if (userResponse.status === 429) {
+        rateLimited = true;
+        break;
+      }
       if (!userResponse.ok) {
         console.warn(`Failed to fetch user ${username}: ${userResponse.status}`);
         continue;
@@ -105,7 +111,7 @@ export async function scrapeTwitter(): Promise<Result<TwitterPost[]>> {
       const userId = userData.data.id;
 
       // Get recent tweets (5 per account to stay within rate limits)
-      const tweetsResponse = await fetch(
+      const tweetsResponse = await httpFetch(
         `${TWITTER_API_BASE}/users/${userId}/tweets?max_results=5&tweet.fields=created_at,public_metrics&expansions=author_id&user.fields=name,username`,
         {
           headers: {
@@ -114,6 +120,10 @@ export async function scrapeTwitter(): Promise<Result<TwitterPost[]>> {
         }
       );
 
+      if (tweetsResponse.status === 429) {
+        rateLimited = true;
+        break;
+      }
       if (!tweetsResponse.ok) {
         console.warn(`Failed to fetch tweets for ${username}: ${tweetsResponse.status}`);
         continue;
@@ -137,16 +147,19 @@ export async function scrapeTwitter(): Promise<Result<TwitterPost[]>> {
           });
         }
       }
-
-      // Rate limit protection
-      await new Promise(resolve => setTimeout(resolve, config.rateLimits.scraperDelayMs));
     } catch (error) {
       console.warn(`Error fetching tweets for ${username}:`, error);
     }
   }
 
+  if (rateLimited) {
+    console.warn(`Twitter rate limit reached after ${allTweets.length} tweets`);
+  }
+
   if (allTweets.length === 0) {
-    return fail(ErrorCode.NO_DATA_AVAILABLE, "No tweets found from monitored accounts");
+    return rateLimited
+      ? fail(ErrorCode.SCRAPER_RATE_LIMITED, "Twitter rate limit reached before any tweets were fetched")
+      : fail(ErrorCode.NO_DATA_AVAILABLE, "No tweets found from monitored accounts");
   }
 
   // Sort by date, most recent first
@@ -166,7 +179,7 @@ export async function searchAvalancheTweets(query: string = "Avalanche AVAX"): P
   }
 
   try {
-    const response = await fetch(
+    const response = await httpFetch(
       `${TWITTER_API_BASE}/tweets/search/recent?query=${encodeURIComponent(query)}&max_results=20&tweet.fields=created_at,public_metrics,author_id&expansions=author_id&user.fields=name,username`,
       {
         headers: {
@@ -175,6 +188,9 @@ export async function searchAvalancheTweets(query: string = "Avalanche AVAX"): P
       }
     );
 
+    if (response.status === 429) {
+      return fail(ErrorCode.SCRAPER_RATE_LIMITED, "Twitter search rate limited");
+    }
     if (!response.ok) {
       return fail(ErrorCode.SCRAPER_FAILED, `Twitter search failed: ${response.status}`);
     }
@@ -0,0 +1,233 @@
+/**
+ * Voice Archive Import
+ *
+ * Reads tweets from the official X data archive (data/tweets.js) or a CSV
+ * (X analytics export, or any file with id/text/date columns) into the
+ * TwitterTweet shape the API returns, so a voice profile can be built
+ * without an API token. Retweets and replies are skipped, as they are
+ * when fetching.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { success, fail } from "../lib/errors";
+import type { TwitterTweet } from "./voice-profile";
+import type { Result } from "../types";
+import { ErrorCode } from "../types";
+
+export interface ImportedTweets {
+  tweets: TwitterTweet[];
+  skipped: { retweets: number; replies: number; invalid: number };
+}
+
+/** One entry of window.YTD.tweets.part0 (counts are strings in the archive) */
+interface ArchiveTweet {
+  id_str?: string;
+  id?: string;
+  full_text?: string;
+  text?: string;
+  created_at?: string;
+  favorite_count?: string | number;
+  retweet_count?: string | number;
+  in_reply_to_status_id_str?: string | null;
+  in_reply_to_user_id_str?: string | null;
+  retweeted_status?: unknown;
+}
+
+/** Accepted CSV headers (lowercased) for each field */
+const CSV_COLUMNS = {
+  id: ["id", "id_str", "tweet id", "tweet_id"],
+  text: ["text", "full_text", "tweet text", "tweet_text", "content"],
+  createdAt: ["created_at", "time", "date", "timestamp", "created at"],
+  likes: ["likes", "like_count", "favorite_count", "favorites"],
+  retweets: ["retweets", "retweet_count", "reposts"],
+  replies: ["replies", "reply_count"],
+  impressions: ["impressions", "impression_count", "views"],
+  replyTo: ["in_reply_to_status_id", "in_reply_to_status_id_str", "in_reply_to_tweet_id"],
+} as const;
+
+function count(value: string | number | undefined): number {
+  const n = Number(typeof value === "string" ? value.replace(/,/g, "") : value);
+  return Number.isFinite(n) && n >= 0 ? n : 0;
+}
+
+function toIsoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Sort a candidate into the result. The archive and CSVs have no reply
+ * counts (and the archive no impressions), so those are 0 / unset.
+ */
+function collect(
+  result: ImportedTweets,
+  fields: { id?: string; text?: string; createdAt?: string; likes: number; retweets: number; replies?: number; impressions?: number; isReply: boolean }
+): void {
+  const createdAt = toIsoDate(fields.createdAt);
+  if (!fields.id || !fields.text?.trim() || !createdAt) {
+    result.skipped.invalid++;
+    return;
+  }
+  if (/^RT @\w+:/.test(fields.text)) {
+    result.skipped.retweets++;
+    return;
+  }
+  if (fields.isReply) {
+    result.skipped.replies++;
+    return;
+  }
+
+  result.tweets.push({
+    id: fields.id,
+    text: fields.text,
+    created_at: createdAt,
+    public_metrics: {
+      like_count: fields.likes,
+      retweet_count: fields.retweets,
+      reply_count: fields.replies ?? 0,
+      ...(fields.impressions && { impression_count: fields.impressions }),
+    },
+  });
+}
+
+/**
+ * Parse tweets.js from the X archive (`window.YTD.tweets.part0 = [...]`;
+ * plain JSON arrays work too)
+ */
+export function parseArchiveTweets(content: string): Result<ImportedTweets> {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(content.slice(content.indexOf("[")));
+  } catch (error) {
+    return fail(ErrorCode.INVALID_DATA_FORMAT, `Not an X archive tweets file: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!Array.isArray(entries)) {
+    return fail(ErrorCode.INVALID_DATA_FORMAT, "Not an X archive tweets file: expected an array of tweets");
+  }
+
+  const result: ImportedTweets = { tweets: [], skipped: { retweets: 0, replies: 0, invalid: 0 } };
+  for (const entry of entries as Array<{ tweet?: ArchiveTweet } & ArchiveTweet>) {
+    const tweet = entry.tweet ?? entry;
+    collect(result, {
+      id: tweet.id_str ?? tweet.id,
+      text: tweet.full_text ?? tweet.text,
+      createdAt: tweet.created_at,
+      likes: count(tweet.favorite_count),
+      retweets: count(tweet.retweet_count),
+      isReply: Boolean(tweet.in_reply_to_status_id_str || tweet.in_reply_to_user_id_str),
+    });
+  }
+  return success(result);
+}
+
+/**
+ * RFC 4180 rows: quoted fields may hold commas, newlines and "" escapes
+ */
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim()));
+}
+
+/**
+ * Parse a CSV with a header row. Needs id, text and date columns; tweets
+ * starting with an @mention count as replies unless a reply-to column says
+ * otherwise.
+ */
+export function parseCsvTweets(content: string): Result<ImportedTweets> {
+  const [header, ...rows] = parseCsvRows(content.replace(/^﻿/, ""));
+  if (!header) {
+    return fail(ErrorCode.INVALID_DATA_FORMAT, "CSV is empty");
+  }
+
+  const names = header.map((h) => h.trim().toLowerCase());
+  const column = (aliases: readonly string[]) => names.findIndex((name) => aliases.includes(name));
+  const columns = Object.fromEntries(
+    Object.entries(CSV_COLUMNS).map(([field, aliases]) => [field, column(aliases)])
+  ) as Record<keyof typeof CSV_COLUMNS, number>;
+
+  const missing = (["id", "text", "createdAt"] as const).filter((field) => columns[field] === -1);
+  if (missing.length > 0) {
+    return fail(
+      ErrorCode.INVALID_DATA_FORMAT,
+      `CSV is missing ${missing.map((field) => `a "${CSV_COLUMNS[field][0]}" column`).join(", ")} (found: ${names.join(", ")})`
+    );
+  }
+
+  const result: ImportedTweets = { tweets: [], skipped: { retweets: 0, replies: 0, invalid: 0 } };
+  for (const row of rows) {
+    const value = (index: number) => (index === -1 ? undefined : row[index]?.trim() || undefined);
+    const text = row[columns.text];
+    collect(result, {
+      id: value(columns.id),
+      text,
+      createdAt: value(columns.createdAt),
+      likes: count(value(columns.likes)),
+      retweets: count(value(columns.retweets)),
+      replies: columns.replies === -1 ? undefined : count(value(columns.replies)),
+      impressions: columns.impressions === -1 ? undefined : count(value(columns.impressions)),
+      isReply: columns.replyTo !== -1 ? Boolean(value(columns.replyTo)) : /^@\w+/.test(text?.trim() ?? ""),
+    });
+  }
+  return success(result);
+}
+
+/**
+ * Read an archive (.js / .json) or CSV (.csv) file, newest tweets first
+ */
+export function importTweetsFile(filePath: string): Result<ImportedTweets> {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, "utf-8");
+  } catch (error) {
+    return fail(ErrorCode.NO_DATA_AVAILABLE, `Could not read ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const extension = path.extname(filePath).toLowerCase();
+  const parsed = extension === ".csv" ? parseCsvTweets(content) : parseArchiveTweets(content);
+  if (!parsed.success) {
+    return parsed;
+  }
+  if (parsed.data.tweets.length === 0) {
+    return fail(ErrorCode.NO_DATA_AVAILABLE, `No original tweets in ${filePath}`);
+  }
+
+  parsed.data.tweets.sort((a, b) => b.created_at.localeCompare(a.created_at));
+  return parsed;
+}
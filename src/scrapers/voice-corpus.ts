@@ -0,0 +1,86 @@
+/**
+ * Voice Corpus
+ *
+ * Every original tweet fetched for an account, kept in
+ * config.voice.corpus.dir/<username>.json so a profile rebuild only has to
+ * fetch tweets newer than the newest one stored.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { config } from "../lib/config";
+import type { TwitterTweet } from "./voice-profile";
+
+export interface VoiceCorpus {
+  username: string;
+  /** Unset until the API has been used; archive imports don't carry it */
+  userId?: string;
+  updatedAt: string;
+  /** Newest first */
+  tweets: TwitterTweet[];
+}
+
+function corpusPath(username: string): string {
+  return path.join(config.voice.corpus.dir, `${username.toLowerCase()}.json`);
+}
+
+/**
+ * Tweet ids are 64-bit snowflakes; compare them as such, not as numbers
+ */
+function compareIds(a: string, b: string): number {
+  return a.length !== b.length ? a.length - b.length : a < b ? -1 : a > b ? 1 : 0;
+}
+
+export function readCorpus(username: string): VoiceCorpus | undefined {
+  const filePath = corpusPath(username);
+  if (!fs.existsSync(filePath)) return undefined;
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as VoiceCorpus;
+  } catch {
+    console.warn(`⚠️  Ignoring unreadable voice corpus: ${filePath}`);
+    return undefined;
+  }
+}
+
+export function writeCorpus(corpus: VoiceCorpus): void {
+  fs.mkdirSync(config.voice.corpus.dir, { recursive: true });
+  fs.writeFileSync(corpusPath(corpus.username), JSON.stringify(corpus, null, 2) + "\n");
+}
+
+export function newestTweetId(corpus: VoiceCorpus): string | undefined {
+  return corpus.tweets.map((t) => t.id).sort(compareIds).pop();
+}
+
+/**
+ * Ids of stored tweets younger than `days`, whose engagement is still moving
+ */
+export function recentTweetIds(corpus: VoiceCorpus, now: Date, days: number): string[] {
+  const cutoff = now.getTime() - days * 24 * 60 * 60 * 1000;
+  return corpus.tweets.filter((t) => new Date(t.created_at).getTime() >= cutoff).map((t) => t.id);
+}
+
+/**
+ * Add fetched tweets (replacing stored copies) and apply refreshed metrics,
+ * keeping the newest config.voice.corpus.maxTweets
+ */
+export function mergeCorpus(
+  corpus: VoiceCorpus,
+  fetched: TwitterTweet[],
+  metrics: Map<string, TwitterTweet["public_metrics"]> = new Map()
+): VoiceCorpus {
+  const byId = new Map(corpus.tweets.map((t) => [t.id, t]));
+  for (const tweet of fetched) {
+    byId.set(tweet.id, tweet);
+  }
+  for (const [id, publicMetrics] of metrics) {
+    const tweet = byId.get(id);
+    if (tweet && publicMetrics) byId.set(id, { ...tweet, public_metrics: publicMetrics });
+  }
+
+  return {
+    ...corpus,
+    updatedAt: new Date().toISOString(),
+    tweets: [...byId.values()].sort((a, b) => compareIds(b.id, a.id)).slice(0, config.voice.corpus.maxTweets),
+  };
+}
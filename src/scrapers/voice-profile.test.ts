@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { analyzeTweets } from "./voice-profile";
+import type { TwitterTweet } from "./voice-profile";
+import { ErrorCode } from "../types";
+
+function tweet(id: string, text: string): TwitterTweet {
+  return {
+    id,
+    text,
+    created_at: "2026-10-01T12:00:00.000Z",
+    public_metrics: { like_count: 10, retweet_count: 2, reply_count: 1 },
+  };
+}
+
+test("analyzing no tweets fails instead of averaging nothing", () => {
+  const result = analyzeTweets([]);
+  assert.equal(result.success, false);
+  assert.equal(!result.success && result.error.code, ErrorCode.NO_DATA_AVAILABLE);
+});
+
+test("analyzing only links and one-liners fails", () => {
+  const result = analyzeTweets([tweet("1", "gm"), tweet("2", "https://t.co/abc123 nice")]);
+  assert.equal(result.success, false);
+});
+
+test("substantive tweets produce finite averages", () => {
+  const result = analyzeTweets([
+    tweet("1", "Avalanche C-Chain fees dropped again this week, builders keep shipping"),
+    tweet("2", "gm"),
+  ]);
+  assert.ok(result.success);
+  const { stats } = result.data;
+  assert.equal(stats.totalTweets, 1);
+  for (const value of [stats.avgLength, stats.avgLikes, stats.avgRetweets]) {
+    assert.ok(Number.isFinite(value));
+  }
+});
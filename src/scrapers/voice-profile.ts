@@ -3,12 +3,22 @@
  * Fetches and analyzes tweets from a user to build their voice profile
  */
 
+import * as path from "path";
 import { config } from "../lib/config";
 import { success, fail } from "../lib/errors";
-import type { Result, VoiceSample, StyleGuidelines } from "../types";
+import { httpFetch } from "../lib/http";
+import { createSimilarityIndex } from "../lib/similarity";
+import { measureFingerprint } from "../voice/fingerprint";
+import { mergeCorpus, newestTweetId, readCorpus, recentTweetIds, writeCorpus } from "./voice-corpus";
+import type { VoiceCorpus } from "./voice-corpus";
+import { importTweetsFile } from "./voice-archive";
+import type { Result, VoiceCategory, VoiceFingerprint, VoiceSample, VoiceStats, StyleGuidelines } from "../types";
 import { ErrorCode } from "../types";
 
 const TWITTER_API_BASE = "https://api.twitter.com/2";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const VOICE_CATEGORIES: VoiceCategory[] = ["news", "data", "humor", "engagement", "thread"];
 
 interface TwitterUser {
   id: string;
@@ -21,7 +31,7 @@ interface TwitterUser {
   };
 }
 
-interface TwitterTweet {
+export interface TwitterTweet {
   id: string;
   text: string;
   created_at: string;
@@ -43,60 +53,87 @@ interface TwitterTimelineResponse {
 
 export interface VoiceAnalysis {
   samples: VoiceSample[];
+  /** Only the fields that can be measured; the rest are curated on the profile */
   guidelines: Partial<StyleGuidelines>;
-  stats: {
-    totalTweets: number;
-    avgLength: number;
-    avgLikes: number;
-    avgRetweets: number;
-    topTopics: string[];
-    emojiCount: number;
-    hashtagCount: number;
-    questionCount: number;
-  };
+  stats: VoiceStats;
+  examplesByCategory: Partial<Record<VoiceCategory, string[]>>;
+  fingerprint: VoiceFingerprint;
 }
 
 /**
- * Fetch tweets from a specific user
+ * Only tweets newer than `sinceId`; `userId` skips the username lookup
+ */
+export interface FetchTweetsOptions {
+  sinceId?: string;
+  userId?: string;
+}
+
+export interface FetchedTweets {
+  userId: string;
+  /** Newest first */
+  tweets: TwitterTweet[];
+  /** Stopped at maxTweets with more left to fetch */
+  truncated: boolean;
+}
+
+function twitterBearerToken(): string | undefined {
+  const bearerToken = process.env.TWITTER_BEARER_TOKEN;
+  return bearerToken && bearerToken !== "your-twitter-bearer-token" ? bearerToken : undefined;
+}
+
+async function lookupUserId(username: string, bearerToken: string): Promise<Result<string>> {
+  const userResponse = await httpFetch(
+    `${TWITTER_API_BASE}/users/by/username/${username}?user.fields=public_metrics`,
+    {
+      headers: {
+        Authorization: `Bearer ${bearerToken}`,
+      },
+    }
+  );
+
+  if (!userResponse.ok) {
+    const errorText = await userResponse.text();
+    return fail(
+      ErrorCode.SCRAPER_FAILED,
+      `Failed to fetch user @${username}: ${userResponse.status} - ${errorText}`
+    );
+  }
+
+  const userData = (await userResponse.json()) as { data?: TwitterUser };
+  if (!userData.data) {
+    return fail(ErrorCode.NO_DATA_AVAILABLE, `User @${username} not found`);
+  }
+
+  console.log(`Found @${username} (ID: ${userData.data.id})`);
+  console.log(`  Total tweets: ${userData.data.public_metrics?.tweet_count || "unknown"}`);
+  return success(userData.data.id);
+}
+
+/**
+ * Fetch tweets from a specific user. With a sinceId, finding nothing new
+ * is not an error.
  */
 export async function fetchUserTweets(
   username: string,
-  maxTweets: number = 100
-): Promise<Result<TwitterTweet[]>> {
-  const bearerToken = process.env.TWITTER_BEARER_TOKEN;
+  maxTweets: number = 100,
+  { sinceId, userId: knownUserId }: FetchTweetsOptions = {}
+): Promise<Result<FetchedTweets>> {
+  const bearerToken = twitterBearerToken();
 
-  if (!bearerToken || bearerToken === "your-twitter-bearer-token") {
+  if (!bearerToken) {
     return fail(ErrorCode.MISSING_ENV_VAR, "Twitter bearer token not configured");
   }
 
   try {
-    // First get user ID
-    const userResponse = await fetch(
-      `${TWITTER_API_BASE}/users/by/username/${username}?user.fields=public_metrics`,
-      {
-        headers: {
-          Authorization: `Bearer ${bearerToken}`,
-        },
+    let userId = knownUserId;
+    if (!userId) {
+      const lookedUp = await lookupUserId(username, bearerToken);
+      if (!lookedUp.success) {
+        return lookedUp;
       }
-    );
-
-    if (!userResponse.ok) {
-      const errorText = await userResponse.text();
-      return fail(
-        ErrorCode.SCRAPER_FAILED,
-        `Failed to fetch user @${username}: ${userResponse.status} - ${errorText}`
-      );
-    }
-
-    const userData = (await userResponse.json()) as { data?: TwitterUser };
-    if (!userData.data) {
-      return fail(ErrorCode.NO_DATA_AVAILABLE, `User @${username} not found`);
+      userId = lookedUp.data;
     }
 
-    const userId = userData.data.id;
-    console.log(`Found @${username} (ID: ${userId})`);
-    console.log(`  Total tweets: ${userData.data.public_metrics?.tweet_count || "unknown"}`);
-
     const allTweets: TwitterTweet[] = [];
     let nextToken: string | undefined;
     let requestCount = 0;
@@ -110,17 +147,28 @@ export async function fetchUserTweets(
       // Exclude retweets and replies to get original content
       url.searchParams.set("exclude", "retweets,replies");
 
+      if (sinceId) {
+        url.searchParams.set("since_id", sinceId);
+      }
       if (nextToken) {
         url.searchParams.set("pagination_token", nextToken);
       }
 
-      const tweetsResponse = await fetch(url.toString(), {
+      const tweetsResponse = await httpFetch(url.toString(), {
         headers: {
           Authorization: `Bearer ${bearerToken}`,
         },
       });
 
       if (!tweetsResponse.ok) {
+        // Without the first page there's nothing to report, not "0 new tweets"
+        if (requestCount === 0) {
+          return fail(
+            tweetsResponse.status === 429 ? ErrorCode.SCRAPER_RATE_LIMITED : ErrorCode.SCRAPER_FAILED,
+            `Failed to fetch tweets for @${username}: ${tweetsResponse.status}`,
+            { status: tweetsResponse.status }
+          );
+        }
         console.warn(`Failed to fetch tweets page: ${tweetsResponse.status}`);
         break;
       }
@@ -136,30 +184,73 @@ export async function fetchUserTweets(
       if (!nextToken) break;
 
       requestCount++;
-      // Rate limit protection
-      await new Promise((resolve) => setTimeout(resolve, 1000));
     }
 
-    if (allTweets.length === 0) {
+    if (allTweets.length === 0 && !sinceId) {
       return fail(ErrorCode.NO_DATA_AVAILABLE, `No tweets found for @${username}`);
     }
 
-    console.log(`Total: ${allTweets.length} original tweets fetched`);
-    return success(allTweets);
+    console.log(`Total: ${allTweets.length} ${sinceId ? "new " : ""}original tweets fetched`);
+    return success({ userId, tweets: allTweets, truncated: nextToken !== undefined });
   } catch (error) {
     return fail(ErrorCode.SCRAPER_FAILED, `Failed to fetch tweets: ${error}`);
   }
 }
 
 /**
- * Analyze tweets to extract voice patterns
+ * Current public metrics for up to 100 tweets at a time. Tweets that were
+ * deleted or are no longer visible are left out.
+ */
+export async function fetchTweetMetrics(ids: string[]): Promise<Result<Map<string, TwitterTweet["public_metrics"]>>> {
+  const bearerToken = twitterBearerToken();
+
+  if (!bearerToken) {
+    return fail(ErrorCode.MISSING_ENV_VAR, "Twitter bearer token not configured");
+  }
+
+  const metrics = new Map<string, TwitterTweet["public_metrics"]>();
+  try {
+    for (let i = 0; i < ids.length; i += 100) {
+      const url = new URL(`${TWITTER_API_BASE}/tweets`);
+      url.searchParams.set("ids", ids.slice(i, i + 100).join(","));
+      url.searchParams.set("tweet.fields", "public_metrics");
+
+      const response = await httpFetch(url.toString(), {
+        headers: {
+          Authorization: `Bearer ${bearerToken}`,
+        },
+      });
+      if (!response.ok) {
+        return fail(ErrorCode.SCRAPER_FAILED, `Failed to refresh tweet metrics: ${response.status}`);
+      }
+
+      const data = (await response.json()) as { data?: Array<Pick<TwitterTweet, "id" | "public_metrics">> };
+      for (const tweet of data.data ?? []) {
+        metrics.set(tweet.id, tweet.public_metrics);
+      }
+    }
+    return success(metrics);
+  } catch (error) {
+    return fail(ErrorCode.SCRAPER_FAILED, `Failed to refresh tweet metrics: ${error}`);
+  }
+}
+
+/**
+ * Analyze tweets to extract voice patterns. Fails when none are long enough
+ * to measure, rather than saving a profile of NaN averages.
  */
-export function analyzeTweets(tweets: TwitterTweet[]): VoiceAnalysis {
+export function analyzeTweets(tweets: TwitterTweet[], now: Date = new Date()): Result<VoiceAnalysis> {
   // Filter out tweets that are mostly links or very short
   const substantiveTweets = tweets.filter((t) => {
     const text = t.text.replace(/https?:\/\/\S+/g, "").trim();
     return text.length > 30;
   });
+  if (substantiveTweets.length === 0) {
+    return fail(
+      ErrorCode.NO_DATA_AVAILABLE,
+      `None of the ${tweets.length} tweets has enough text to analyze (over 30 characters besides links)`
+    );
+  }
 
   // Calculate stats
   const lengths = substantiveTweets.map((t) => t.text.length);
@@ -238,24 +329,8 @@ export function analyzeTweets(tweets: TwitterTweet[]): VoiceAnalysis {
   const avgLengthCategory =
     avgLength > 220 ? "long" : avgLength > 140 ? "medium" : "short";
 
-  // Select best performing tweets as samples
-  const sortedByEngagement = [...substantiveTweets].sort((a, b) => {
-    const aScore =
-      (a.public_metrics?.like_count || 0) + (a.public_metrics?.retweet_count || 0) * 2;
-    const bScore =
-      (b.public_metrics?.like_count || 0) + (b.public_metrics?.retweet_count || 0) * 2;
-    return bScore - aScore;
-  });
-
-  // Get top 20 tweets as samples
-  const samples: VoiceSample[] = sortedByEngagement.slice(0, 20).map((tweet) => ({
-    text: tweet.text,
-    topics: extractTopics(tweet.text, topTopics),
-    engagement: {
-      likes: tweet.public_metrics?.like_count || 0,
-      retweets: tweet.public_metrics?.retweet_count || 0,
-    },
-  }));
+  const samples = selectSamples(substantiveTweets, topTopics, now);
+  const examplesByCategory = selectCategoryExamples(substantiveTweets, now);
 
   const guidelines: Partial<StyleGuidelines> = {
     usesEmojis: emojiCount > substantiveTweets.length * 0.2,
@@ -263,11 +338,12 @@ export function analyzeTweets(tweets: TwitterTweet[]): VoiceAnalysis {
     usesHashtags: hashtagCount > substantiveTweets.length * 0.1,
     averageLength: avgLengthCategory,
     asksQuestions: questionCount > substantiveTweets.length * 0.15,
+    usesThreads: detectThreadPatterns(substantiveTweets),
     dataFirst: containsDataPatterns(substantiveTweets),
     includesHumor: detectHumorPatterns(substantiveTweets),
   };
 
-  return {
+  return success({
     samples,
     guidelines,
     stats: {
@@ -280,7 +356,10 @@ export function analyzeTweets(tweets: TwitterTweet[]): VoiceAnalysis {
       hashtagCount,
       questionCount,
     },
-  };
+    examplesByCategory,
+    // Short tweets are part of the voice too
+    fingerprint: measureFingerprint(tweets.map((t) => t.text)),
+  });
 }
 
 /**
@@ -291,25 +370,62 @@ function extractTopics(text: string, topTopics: string[]): string[] {
   return topTopics.filter((topic) => lowerText.includes(topic)).slice(0, 5);
 }
 
+const DATA_PATTERNS = [
+  /\d+%/,
+  /\$[\d,.]+[BMK]?/i,
+  /\d+[BMK]\+?/i,
+  /\d{1,3}(,\d{3})+/,
+  /\d+x/i,
+];
+
+const HUMOR_INDICATORS = [
+  /lol/i,
+  /lmao/i,
+  /haha/i,
+  /\ud83d\ude02|\ud83d\ude05|\ud83d\ude06|\ud83d\ude23/u, // laughing emojis
+  /\ud83d\udc80/u, // skull
+  /tbh/i,
+  /ngl/i,
+  /lowkey/i,
+  /highkey/i,
+];
+
+const THREAD_INDICATORS = [
+  /\u{1F9F5}/u, // thread emoji
+  /(^|\n)\s*1\/\s/,
+  /(^|\n)\s*1\.\s/,
+  /\bthread\b/i,
+];
+
+const NEWS_INDICATORS = [
+  /https?:\/\/\S+/,
+  /\b(announc\w*|launch\w*|live|partner\w*|ships?|shipped|breaking|unveil\w*|introduc\w*|went live|goes live)\b/i,
+];
+
+const ENGAGEMENT_INDICATORS = [
+  /\?\s*(https?:\/\/\S+\s*)?$/,
+  /\b(what do you think|reply|drop (your|a)|who else|tell me)\b|\bthoughts\?/i,
+];
+
+/**
+ * Which kinds of tweet this is, by local heuristics (a tweet can be several)
+ */
+export function categorizeTweet(text: string): VoiceCategory[] {
+  const checks: Record<VoiceCategory, RegExp[]> = {
+    news: NEWS_INDICATORS,
+    data: DATA_PATTERNS,
+    humor: HUMOR_INDICATORS,
+    engagement: ENGAGEMENT_INDICATORS,
+    thread: THREAD_INDICATORS,
+  };
+  return VOICE_CATEGORIES.filter((category) => checks[category].some((p) => p.test(text)));
+}
+
 /**
  * Check if tweets commonly lead with data/numbers
  */
 function containsDataPatterns(tweets: TwitterTweet[]): boolean {
-  const dataPatterns = [
-    /\d+%/,
-    /\$[\d,.]+[BMK]?/i,
-    /\d+[BMK]\+?/i,
-    /\d{1,3}(,\d{3})+/,
-    /\d+x/i,
-  ];
-
-  let dataCount = 0;
-  for (const tweet of tweets) {
-    if (dataPatterns.some((p) => p.test(tweet.text))) {
-      dataCount++;
-    }
-  }
-
+  const dataCount = tweets.filter((t) => DATA_PATTERNS.some((p) => p.test(t.text))).length;
   return dataCount > tweets.length * 0.15;
 }
 
@@ -317,42 +433,294 @@ function containsDataPatterns(tweets: TwitterTweet[]): boolean {
  * Detect humor patterns (simplified heuristic)
  */
 function detectHumorPatterns(tweets: TwitterTweet[]): boolean {
-  const humorIndicators = [
-    /lol/i,
-    /lmao/i,
-    /haha/i,
-    /\ud83d\ude02|\ud83d\ude05|\ud83d\ude06|\ud83d\ude23/u, // laughing emojis
-    /\ud83d\udc80/u, // skull
-    /tbh/i,
-    /ngl/i,
-    /lowkey/i,
-    /highkey/i,
-  ];
-
-  let humorCount = 0;
-  for (const tweet of tweets) {
-    if (humorIndicators.some((p) => p.test(tweet.text))) {
-      humorCount++;
+  const humorCount = tweets.filter((t) => HUMOR_INDICATORS.some((p) => p.test(t.text))).length;
+  return humorCount > tweets.length * 0.05;
+}
+
+/**
+ * Detect numbered threads / recaps ("🧵", "1/", "1.")
+ */
+function detectThreadPatterns(tweets: TwitterTweet[]): boolean {
+  const threadCount = tweets.filter((t) => THREAD_INDICATORS.some((p) => p.test(t.text))).length;
+  return threadCount > tweets.length * 0.05;
+}
+
+// ===========================================
+// SAMPLE SELECTION
+// ===========================================
+
+interface SampleCandidate {
+  tweet: TwitterTweet;
+  score: number;
+  rate: number;
+  impressions?: number;
+  ageDays: number;
+  categories: VoiceCategory[];
+  topic?: string;
+  format: string;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Rough shape of a tweet, so the samples don't all look alike
+ */
+function tweetFormat(text: string, categories: VoiceCategory[]): string {
+  if (categories.includes("thread")) return "thread";
+  if (/https?:\/\/\S+/.test(text)) return "link";
+  if (text.includes("\n")) return "multiline";
+  return text.length > 140 ? "long" : "short";
+}
+
+/**
+ * Engagement (likes + 2×retweets + replies) per impression, halved every
+ * recencyHalfLifeDays. Tweets without an impression count are measured
+ * against the median impressions of the rest.
+ */
+function scoreCandidates(tweets: TwitterTweet[], topTopics: string[], now: Date): SampleCandidate[] {
+  const { recencyHalfLifeDays } = config.voice.sampleSelection;
+  const typicalImpressions = median(
+    tweets.map((t) => t.public_metrics?.impression_count || 0).filter((n) => n > 0)
+  );
+
+  return tweets.map((tweet) => {
+    const m = tweet.public_metrics;
+    const engagement = (m?.like_count || 0) + (m?.retweet_count || 0) * 2 + (m?.reply_count || 0);
+    const impressions = m?.impression_count || undefined;
+    const rate = engagement / (impressions || typicalImpressions || 1);
+    const ageDays = Math.max(0, now.getTime() - new Date(tweet.created_at).getTime()) / DAY_MS;
+    const categories = categorizeTweet(tweet.text);
+
+    return {
+      tweet,
+      score: rate * 0.5 ** (ageDays / recencyHalfLifeDays),
+      rate,
+      impressions,
+      ageDays,
+      categories,
+      topic: extractTopics(tweet.text, topTopics)[0],
+      format: tweetFormat(tweet.text, categories),
+    };
+  });
+}
+
+function describeCandidate(candidate: SampleCandidate): string {
+  const engagement = candidate.impressions
+    ? `${(candidate.rate * 100).toFixed(1)}% engagement on ${candidate.impressions.toLocaleString("en-US")} impressions`
+    : `~${(candidate.rate * 100).toFixed(1)}% engagement (no impression count; typical reach assumed)`;
+  return `${engagement}, ${Math.round(candidate.ageDays)}d old`;
+}
+
+/**
+ * Pick example tweets: the best-scoring tweets of each category first, then
+ * the best of the rest, skipping near-duplicates and capping how many share
+ * a top topic or format (so the set may come up short). Each sample records
+ * why it was picked.
+ */
+export function selectSamples(
+  tweets: TwitterTweet[],
+  topTopics: string[],
+  now: Date = new Date(),
+  count: number = config.voice.sampleSelection.count
+): VoiceSample[] {
+  const { minPerCategory, maxPerTopic, maxFormatShare, duplicateThreshold } = config.voice.sampleSelection;
+  const candidates = scoreCandidates(tweets, topTopics, now).sort((a, b) => b.score - a.score);
+  const chosen: Array<{ candidate: SampleCandidate; reasons: string[] }> = [];
+  const maxPerFormat = Math.max(1, Math.ceil(count * maxFormatShare));
+
+  const isNearDuplicate = (candidate: SampleCandidate) => {
+    const index = createSimilarityIndex(
+      chosen.map(({ candidate: c }) => ({ id: c.tweet.id, text: c.tweet.text, source: "posted" as const }))
+    );
+    const [best] = index.findSimilar(candidate.tweet.text, 1);
+    return best !== undefined && best.score >= duplicateThreshold;
+  };
+  const withinCaps = (candidate: SampleCandidate) =>
+    (!candidate.topic || chosen.filter(({ candidate: c }) => c.topic === candidate.topic).length < maxPerTopic) &&
+    chosen.filter(({ candidate: c }) => c.format === candidate.format).length < maxPerFormat;
+  const add = (candidate: SampleCandidate, reason: string) =>
+    chosen.push({ candidate, reasons: [reason, describeCandidate(candidate)] });
+  const remaining = () => candidates.filter((c) => !chosen.some(({ candidate }) => candidate === c));
+
+  // Coverage: the best few of every category the account actually posts
+  for (const category of VOICE_CATEGORIES) {
+    for (let i = 0; i < minPerCategory && chosen.length < count; i++) {
+      const pick = remaining().find((c) => c.categories.includes(category) && withinCaps(c) && !isNearDuplicate(c));
+      if (!pick) break;
+      add(pick, `covers ${category}`);
     }
   }
 
-  return humorCount > tweets.length * 0.05;
+  // Then the best of the rest. A short set beats one that's all the same kind of tweet.
+  for (const candidate of remaining()) {
+    if (chosen.length >= count) break;
+    if (!withinCaps(candidate) || isNearDuplicate(candidate)) continue;
+    add(candidate, "high engagement rate");
+  }
+
+  return chosen
+    .sort((a, b) => b.candidate.score - a.candidate.score)
+    .map(({ candidate: { tweet, score, categories }, reasons }) => ({
+      text: tweet.text,
+      topics: extractTopics(tweet.text, topTopics),
+      engagement: {
+        likes: tweet.public_metrics?.like_count || 0,
+        retweets: tweet.public_metrics?.retweet_count || 0,
+        replies: tweet.public_metrics?.reply_count || 0,
+        ...(tweet.public_metrics?.impression_count && { impressions: tweet.public_metrics.impression_count }),
+      },
+      postedAt: tweet.created_at,
+      categories,
+      selection: { score: Number(score.toPrecision(4)), reasons },
+    }));
+}
+
+/**
+ * The best-scoring tweets of each category, skipping near-duplicates of
+ * ones already kept for it. Categories the account never posts are left out.
+ */
+export function selectCategoryExamples(
+  tweets: TwitterTweet[],
+  now: Date = new Date(),
+  perCategory: number = config.voice.sampleSelection.examplesPerCategory
+): Partial<Record<VoiceCategory, string[]>> {
+  const { duplicateThreshold } = config.voice.sampleSelection;
+  const candidates = scoreCandidates(tweets, [], now).sort((a, b) => b.score - a.score);
+  const examples: Partial<Record<VoiceCategory, string[]>> = {};
+
+  for (const category of VOICE_CATEGORIES) {
+    const kept: string[] = [];
+    for (const candidate of candidates) {
+      if (kept.length >= perCategory) break;
+      if (!candidate.categories.includes(category)) continue;
+      const index = createSimilarityIndex(kept.map((text, i) => ({ id: String(i), text, source: "posted" as const })));
+      const [best] = index.findSimilar(candidate.tweet.text, 1);
+      if (best && best.score >= duplicateThreshold) continue;
+      kept.push(candidate.tweet.text);
+    }
+    if (kept.length > 0) examples[category] = kept;
+  }
+
+  return examples;
+}
+
+export interface BuildVoiceOptions {
+  /** Refetch the latest tweets, not only those newer than the stored corpus; stored tweets are kept */
+  full?: boolean;
+  /** Read tweets from an X archive (tweets.js) or CSV instead of the API */
+  archivePath?: string;
+  now?: Date;
 }
 
 /**
- * Build complete voice profile
+ * Merge an archive or CSV export into the stored corpus. Tweets the corpus
+ * already has keep their API copy, which carries replies and impressions.
+ */
+function importCorpus(username: string, archivePath: string, now: Date): Result<VoiceCorpus> {
+  const imported = importTweetsFile(archivePath);
+  if (!imported.success) {
+    return imported;
+  }
+
+  const stored = readCorpus(username) ?? { username, updatedAt: now.toISOString(), tweets: [] };
+  const storedIds = new Set(stored.tweets.map((t) => t.id));
+  const added = imported.data.tweets.filter((t) => !storedIds.has(t.id));
+  const corpus = mergeCorpus(stored, added);
+
+  const { retweets, replies, invalid } = imported.data.skipped;
+  console.log(
+    `\n📚 Corpus: ${corpus.tweets.length} tweets (${added.length} imported from ${path.basename(archivePath)}; ` +
+      `skipped ${retweets} retweets, ${replies} replies${invalid > 0 ? `, ${invalid} unreadable` : ""})`
+  );
+  return success(corpus);
+}
+
+/**
+ * Bring the stored corpus up to date: the latest tweets on the first build
+ * or with `full`, otherwise only newer tweets plus fresh metrics for recent
+ * ones. Either way fetched tweets are merged in, so older and imported
+ * tweets stay.
+ */
+async function refreshCorpus(username: string, { full = false, now = new Date() }: BuildVoiceOptions): Promise<Result<VoiceCorpus>> {
+  const { fetchLimit, metricsRefreshDays } = config.voice.corpus;
+  const stored = readCorpus(username);
+
+  if (!stored || full) {
+    const fetched = await fetchUserTweets(username, fetchLimit, { userId: stored?.userId });
+    if (!fetched.success) {
+      return fetched;
+    }
+    const corpus = mergeCorpus(
+      { ...(stored ?? { username, tweets: [] }), userId: fetched.data.userId, updatedAt: now.toISOString() },
+      fetched.data.tweets
+    );
+    console.log(
+      `\n📚 Corpus: ${corpus.tweets.length} tweets (full fetch of ${fetched.data.tweets.length}` +
+        `${stored ? `, merged into ${stored.tweets.length} stored` : ""})`
+    );
+    return success(corpus);
+  }
+
+  const fetched = await fetchUserTweets(username, fetchLimit, { sinceId: newestTweetId(stored), userId: stored.userId });
+  if (!fetched.success) {
+    return fetched;
+  }
+  if (fetched.data.truncated) {
+    console.warn(`⚠️  More than ${fetchLimit} new tweets; older ones in between are missing until a --full build`);
+  }
+
+  const recentIds = recentTweetIds(stored, now, metricsRefreshDays);
+  let metrics = new Map<string, TwitterTweet["public_metrics"]>();
+  if (recentIds.length > 0) {
+    const refreshed = await fetchTweetMetrics(recentIds);
+    if (refreshed.success) {
+      metrics = refreshed.data;
+    } else {
+      console.warn(`⚠️  Keeping stored metrics: ${refreshed.error.message}`);
+    }
+  }
+
+  const corpus = mergeCorpus({ ...stored, userId: fetched.data.userId }, fetched.data.tweets, metrics);
+  console.log(
+    `\n📚 Corpus: ${corpus.tweets.length} tweets (${fetched.data.tweets.length} new, metrics refreshed for ${metrics.size})`
+  );
+  return success(corpus);
+}
+
+/**
+ * Build complete voice profile from the account's stored corpus, fetching
+ * only what's new unless `full` is set. With `archivePath` the tweets come
+ * from the file and no API token is needed.
  */
 export async function buildVoiceProfile(
-  username: string
+  username: string,
+  options: BuildVoiceOptions = {}
 ): Promise<Result<VoiceAnalysis>> {
   console.log(`\n🎤 Building voice profile for @${username}...\n`);
 
-  const tweetsResult = await fetchUserTweets(username, 200);
-  if (!tweetsResult.success) {
-    return fail(tweetsResult.error.code, tweetsResult.error.message);
+  const corpus = options.archivePath
+    ? importCorpus(username, options.archivePath, options.now ?? new Date())
+    : await refreshCorpus(username, options);
+  if (!corpus.success) {
+    return fail(corpus.error.code, corpus.error.message);
+  }
+
+  try {
+    writeCorpus(corpus.data);
+  } catch (error) {
+    console.warn(`⚠️  Could not save the voice corpus: ${error instanceof Error ? error.message : error}`);
   }
 
-  const analysis = analyzeTweets(tweetsResult.data);
+  const analyzed = analyzeTweets(corpus.data.tweets, options.now);
+  if (!analyzed.success) {
+    return analyzed;
+  }
+  const analysis = analyzed.data;
 
   console.log("\n📊 Voice Analysis Results:");
   console.log(`   Total tweets analyzed: ${analysis.stats.totalTweets}`);
@@ -363,102 +731,10 @@ export async function buildVoiceProfile(
   console.log(`   Emoji usage: ${analysis.guidelines.emojiFrequency}`);
   console.log(`   Uses hashtags: ${analysis.guidelines.usesHashtags}`);
   console.log(`   Asks questions: ${analysis.guidelines.asksQuestions}`);
+  console.log(`   Uses threads: ${analysis.guidelines.usesThreads}`);
   console.log(`   Data-driven: ${analysis.guidelines.dataFirst}`);
   console.log(`   Includes humor: ${analysis.guidelines.includesHumor}`);
   console.log(`\n✅ Found ${analysis.samples.length} high-performing sample tweets\n`);
 
   return success(analysis);
 }
-
-/**
- * Generate samples.ts file content
- */
-export function generateSamplesFile(
-  username: string,
-  analysis: VoiceAnalysis
-): string {
-  const samplesJson = JSON.stringify(analysis.samples, null, 2)
-    .replace(/"/g, "'")
-    .replace(/\\n/g, "\\n")
-    .replace(/'/g, '"');
-
-  const topicsStr = analysis.stats.topTopics.slice(0, 10).join(", ");
-
-  return `/**
- * Voice Samples & Style Guidelines
- *
- * Auto-generated from @${username}'s tweets
- * Generated at: ${new Date().toISOString()}
- * Tweets analyzed: ${analysis.stats.totalTweets}
- */
-
-import type { VoiceSample, StyleGuidelines } from "../types";
-
-/**
- * Top-performing tweets from @${username}
- * These are used to teach the AI your writing style.
- */
-export const voiceSamples: VoiceSample[] = ${samplesJson};
-
-/**
- * Style guidelines extracted from @${username}'s tweets
- *
- * Stats:
- * - Average tweet length: ${analysis.stats.avgLength} chars
- * - Average likes: ${analysis.stats.avgLikes}
- * - Average retweets: ${analysis.stats.avgRetweets}
- * - Top topics: ${topicsStr}
- */
-export const styleGuidelines: StyleGuidelines = {
-  // Tone
-  usesEmojis: ${analysis.guidelines.usesEmojis},
-  emojiFrequency: "${analysis.guidelines.emojiFrequency}",
-
-  // Structure
-  usesThreads: false,
-  averageLength: "${analysis.guidelines.averageLength}",
-  usesHashtags: ${analysis.guidelines.usesHashtags},
-
-  // Content style
-  dataFirst: ${analysis.guidelines.dataFirst},
-  includesHumor: ${analysis.guidelines.includesHumor},
-  asksQuestions: ${analysis.guidelines.asksQuestions},
-  usesCTA: false,
-
-  // Vocabulary - common crypto terms to avoid
-  avoidWords: [
-    "bullish",
-    "bearish",
-    "to the moon",
-    "wagmi",
-    "ngmi",
-    "wen",
-    "ser",
-    "fren",
-    "probably nothing",
-    "few understand",
-    "this is huge",
-    "game changer",
-    "revolutionary",
-  ],
-  preferredTerms: {
-    "cryptocurrency": "crypto",
-    "decentralized finance": "DeFi",
-    "non-fungible token": "NFT",
-    "layer 1": "L1",
-    "layer 2": "L2",
-  },
-};
-
-/**
- * Example tweets by category (for AI reference)
- */
-export const examplesByCategory: Record<string, string[]> = {
-  // Categorized samples could be added here
-  news: [],
-  data: [],
-  humor: [],
-  engagement: [],
-};
-`;
-}
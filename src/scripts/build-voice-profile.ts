@@ -2,30 +2,47 @@
 /**
  * Build Voice Profile Script
  *
- * Fetches tweets from a user and generates their voice profile
+ * Fetches tweets from a user and merges the analysis into their voice
+ * profile JSON (config.voice.profilesDir/<id>.json). Hand-curated fields
+ * (avoidWords, preferredTerms, pinned samples, ...) survive the rebuild and
+ * the previous version is kept in the profile's history. Tweets are kept in
+ * a local corpus, so later builds only fetch new ones (and refresh recent
+ * engagement); --full refetches the latest tweets regardless, still keeping
+ * the stored ones. --archive reads an X archive (data/tweets.js) or a CSV
+ * export instead, so no API token is needed.
  *
  * Usage:
- *   npm run build:voice              # Uses VOICE_TWITTER_HANDLE from .env
- *   npm run build:voice -- brianman1 # Explicit username
+ *   npm run build:voice                                # VOICE_TWITTER_HANDLE into the default profile
+ *   npm run build:voice -- brianman1                   # Explicit username
+ *   npm run build:voice -- avax --profile=avalanche    # Into another profile
+ *   npm run build:voice -- --full                      # Refetch the latest tweets too
+ *   npm run build:voice -- --archive=./data/tweets.js  # Import an X archive (or a .csv)
  */
 
-import * as fs from "fs";
-import * as path from "path";
 import "dotenv/config";
-import { buildVoiceProfile, generateSamplesFile } from "../scrapers/voice-profile";
+import { config } from "../lib/config";
+import { buildVoiceProfile } from "../scrapers/voice-profile";
+import { mergeRebuild, profileForRebuild, saveVoiceProfile } from "../voice/profiles";
+import { describeFingerprint } from "../voice/fingerprint";
 
 async function main() {
+  const args = process.argv.slice(2);
   // Get username from args or env
-  const username =
-    process.argv[2] ||
+  const username = (
+    args.find((a) => !a.startsWith("--")) ||
     process.env.VOICE_TWITTER_HANDLE ||
-    "brianman1";
+    "brianman1"
+  ).replace(/^@/, "");
+  const profileId =
+    args.find((a) => a.startsWith("--profile="))?.slice("--profile=".length) || config.voice.defaultProfile;
 
   console.log("=".repeat(60));
   console.log("🎤 Voice Profile Builder");
   console.log("=".repeat(60));
 
-  const result = await buildVoiceProfile(username);
+  const archivePath = args.find((a) => a.startsWith("--archive="))?.slice("--archive=".length);
+
+  const result = await buildVoiceProfile(username, { full: args.includes("--full"), archivePath });
 
   if (!result.success) {
     console.error(`\n❌ Error: ${result.error.message}`);
@@ -33,18 +50,32 @@ async function main() {
   }
 
   const analysis = result.data;
+  const current = profileForRebuild(profileId, username);
+  const pinned = current.samples.filter((s) => s.pinned).length;
 
-  // Generate the samples.ts file content
-  const fileContent = generateSamplesFile(username, analysis);
-
-  // Write to file
-  const outputPath = path.join(__dirname, "..", "voice", "samples.ts");
-  fs.writeFileSync(outputPath, fileContent);
+  const saved = saveVoiceProfile(mergeRebuild(current, analysis));
+  if (!saved.success) {
+    console.error(`\n❌ Could not save profile "${profileId}": ${saved.error.message}`);
+    process.exit(1);
+  }
 
-  console.log(`\n✅ Voice profile saved to: ${outputPath}`);
+  console.log(`\n✅ Voice profile "${saved.data.id}" saved as version ${saved.data.version}`);
+  if (pinned > 0) {
+    console.log(`   Kept ${pinned} pinned sample${pinned === 1 ? "" : "s"}`);
+  }
+  const categories = Object.entries(saved.data.examplesByCategory ?? {});
+  if (categories.length > 0) {
+    console.log(`   Examples by category: ${categories.map(([category, texts]) => `${category} ${texts.length}`).join(", ")}`);
+  }
+  if (saved.data.fingerprint) {
+    console.log(`\n🔍 Writing habits (from ${saved.data.fingerprint.tweetCount} tweets):`);
+    for (const line of describeFingerprint(saved.data.fingerprint)) {
+      console.log(`   ${line}`);
+    }
+  }
   console.log("\n📝 Sample tweets saved:");
 
-  for (const sample of analysis.samples.slice(0, 5)) {
+  for (const sample of saved.data.samples.slice(0, 5)) {
     console.log(`\n   "${sample.text.slice(0, 80)}${sample.text.length > 80 ? "..." : ""}"`);
     console.log(`   👍 ${sample.engagement?.likes || 0} likes | 🔁 ${sample.engagement?.retweets || 0} RTs`);
   }
@@ -0,0 +1,49 @@
+#!/usr/bin/env npx ts-node
+/**
+ * Refine Voice Profile Script
+ *
+ * Mines the edit and revision pairs in the preference ledger for avoidWords,
+ * preferredTerms and sample suggestions. Nothing is applied here; review
+ * the suggestions in the dashboard ("Refine Voice").
+ *
+ * Usage:
+ *   npm run refine:voice                        # The default profile
+ *   npm run refine:voice -- --profile=avalanche # Another profile
+ */
+
+import "dotenv/config";
+import { config } from "../lib/config";
+import { runRefinement } from "../voice/refinement";
+
+function main() {
+  const profileId =
+    process.argv.slice(2).find((a) => a.startsWith("--profile="))?.slice("--profile=".length) ||
+    config.voice.defaultProfile;
+
+  const result = runRefinement(profileId);
+  if (!result.success) {
+    console.error(`\n❌ Error: ${result.error.message}`);
+    process.exit(1);
+  }
+
+  const { pairCount, suggestions, dismissed } = result.data;
+  console.log(`\n🔧 Refinement for "${profileId}" from ${pairCount} edit${pairCount === 1 ? "" : "s"}`);
+  if (suggestions.length === 0) {
+    console.log("   Nothing new to suggest");
+    return;
+  }
+
+  for (const s of suggestions) {
+    const what =
+      s.kind === "preferred-term" ? `"${s.text}" → "${s.replacement}"` :
+      s.kind === "sample" ? `"${s.text.slice(0, 70)}${s.text.length > 70 ? "..." : ""}"` :
+      `"${s.text}"`;
+    console.log(`   [${s.kind}] ${what}${s.kind === "sample" ? "" : ` (${s.count} edits)`}`);
+  }
+  if (dismissed.length > 0) {
+    console.log(`   (${dismissed.length} dismissed earlier, not shown)`);
+  }
+  console.log("\n👀 Review and apply them in the dashboard: Refine Voice\n");
+}
+
+main();
@@ -17,6 +17,7 @@ export enum ErrorCode {
   AI_RATE_LIMITED = "AI_RATE_LIMITED",
   AI_INVALID_RESPONSE = "AI_INVALID_RESPONSE",
   AI_MODEL_NOT_FOUND = "AI_MODEL_NOT_FOUND",
+  BUDGET_EXCEEDED = "BUDGET_EXCEEDED",
 
   // Scraper errors
   SCRAPER_FAILED = "SCRAPER_FAILED",
@@ -26,10 +27,12 @@ export enum ErrorCode {
   // Data errors
   NO_DATA_AVAILABLE = "NO_DATA_AVAILABLE",
   INVALID_DATA_FORMAT = "INVALID_DATA_FORMAT",
+  DRAFT_NOT_FOUND = "DRAFT_NOT_FOUND",
 
   // Config errors
   MISSING_ENV_VAR = "MISSING_ENV_VAR",
   INVALID_CONFIG = "INVALID_CONFIG",
+  PROFILE_NOT_FOUND = "PROFILE_NOT_FOUND",
 
   // General
   UNKNOWN_ERROR = "UNKNOWN_ERROR",
@@ -51,9 +54,19 @@ export type Result<T> =
 
 export type TweetSource = "news" | "twitter" | "onchain" | "mixed";
 
+/**
+ * Standalone post or thread. Drafts saved before threads existed
+ * have no format and are treated as "single".
+ */
+export type DraftFormat = "single" | "thread";
+
 export interface TweetDraft {
   id: string;
+  /** Post text. For threads this mirrors the first (hook) post. */
   content: string;
+  format?: DraftFormat;
+  /** Ordered thread posts, without "1/" numbering (threads only) */
+  posts?: string[];
   source: TweetSource;
   context: string;
   confidence: number;
@@ -64,18 +77,216 @@ export interface TweetDraft {
     twitterAuthor?: string;
     onchainMetric?: string;
   };
+  /** IDs of the input items the model says it used, e.g. ["news-1", "onchain-tvl"] */
+  sourceIds?: string[];
+  /** Exactly the items named by sourceIds (on-chain data trimmed to the cited metrics) */
   sourceData?: {
     news?: NewsItem[];
     tweets?: TwitterPost[];
     onchainData?: OnchainData;
   };
+  /** What each generation stage produced for this draft */
+  pipeline?: DraftPipelineTrace;
+  /** Style/length problems found after generation */
+  lint?: LintViolation[];
+  /** Numbers in the draft checked against the input data */
+  factCheck?: FactCheckResult;
+  /** Closest recent draft or posted tweet, when it's too similar */
+  duplicateOf?: DuplicateMatch;
+  /** How far the draft is from its profile's measured writing habits */
+  voiceDistance?: VoiceDistance;
+  /** Set on reply / quote-tweet suggestions: the tweet they respond to */
+  replyTo?: ReplyTarget;
+  /** Campaign preset that produced the draft; unset for regular daily drafts */
+  campaign?: CampaignPresetName;
+  /** Shared by a draft and its A/B variants: the original draft's id */
+  variantGroup?: string;
+  /** How a variant differs from the original; unset on the original */
+  variantAngle?: VariantAngle;
+  /** Set on every draft in a variant group once one has been picked */
+  variantStatus?: "chosen" | "rejected";
+  /** The text as generated, before any edit; edit preference pairs are recorded against it */
+  original?: { content: string; posts?: string[] };
+  /** Written for a custom brief rather than the day's scraped data */
+  fromBrief?: boolean;
+  /** The brief run it was written in; each brief run replaces only its own drafts */
+  briefId?: string;
+  /** Voice profile it was written as; unset on drafts from before profiles ("default") */
+  profileId?: string;
+  /** Prompt template version that produced this draft */
+  promptVersion?: string;
+}
+
+/**
+ * "draft" = an earlier generated draft, "posted" = one of our own tweets
+ */
+export type HistorySource = "draft" | "posted";
+
+/**
+ * Past text a new draft is compared against
+ */
+export interface HistoryEntry {
+  id: string;
+  text: string;
+  source: HistorySource;
+  /** YYYY-MM-DD; undated posted tweets are always included */
+  date?: string;
+}
+
+export interface DuplicateMatch {
+  /** Cosine similarity, 0-1 */
+  score: number;
+  entry: HistoryEntry;
+}
+
+export interface SimilarityIndex {
+  size: number;
+  /** Entries most similar to the text, best first */
+  findSimilar(text: string, limit?: number): DuplicateMatch[];
+  /** Phrases that show up in at least `minEntries` entries, most common first */
+  recurringPhrases(limit: number, minEntries?: number): string[];
+}
+
+export type NumericClaimKind = "currency" | "percent" | "count";
+
+export type ClaimStatus = "verified" | "unsupported" | "mismatch";
+
+export interface ClaimCheck {
+  /** The claim as written, e.g. "$1.2B" or "+3.5%" */
+  text: string;
+  value: number;
+  kind: NumericClaimKind;
+  /** Metric named near the number, e.g. "tvl" for "$1.2B TVL" */
+  metric?: string;
+  status: ClaimStatus;
+  /** Where the matching (or contradicting) number came from */
+  matchedSource?: string;
+  matchedValue?: number;
+  /** Thread post index (0-based), for threads */
+  post?: number;
+}
+
+export interface FactCheckResult {
+  /** "mismatch" if any claim disagrees, else "unsupported" if any has no source */
+  status: ClaimStatus | "no-claims";
+  claims: ClaimCheck[];
+  checkedAt: string;
+}
+
+export type LintRule = "length" | "avoid-word" | "preferred-term" | "banned-opener" | "hashtag";
+
+export interface LintViolation {
+  rule: LintRule;
+  message: string;
+  /** The offending text, e.g. "bullish" or "#AVAX" */
+  match?: string;
+  /** Replacement to use instead, when there is one */
+  suggestion?: string;
+  /** Thread post index (0-based), for threads */
+  post?: number;
+}
+
+export interface LintRules {
+  maxLength: number;
+  avoidWords: string[];
+  preferredTerms: Record<string, string>;
+  bannedOpeners: string[];
+  allowHashtags: boolean;
+}
+
+/**
+ * Generation stages, in the order they run. "draft" always runs;
+ * "critique" and "rewrite" can be skipped for cheaper runs.
+ */
+export type PipelineStage = "draft" | "critique" | "rewrite";
+
+export interface ExpertScore {
+  expert: string;
+  /** 1-10 */
+  score: number;
+  feedback: string;
+}
+
+export interface DraftCritique {
+  scores: ExpertScore[];
+  averageScore: number;
+  summary: string;
+  suggestions: string[];
+}
+
+/**
+ * Text of a draft at one point in the pipeline
+ */
+export interface DraftSnapshot {
+  content: string;
+  posts?: string[];
+}
+
+export interface DraftPipelineTrace {
+  stages: PipelineStage[];
+  /** Output of the "draft" stage, before critique and rewrite */
+  initial: DraftSnapshot;
+  critique?: DraftCritique;
+  rewrite?: DraftSnapshot & { notes: string };
+}
+
+/**
+ * A single schema failure when validating model output,
+ * e.g. { path: "[2].content", message: "Tweet is 312 chars (max 280)" }
+ */
+export interface DraftValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Rewrites an A/B variant can try: a new hook, leading with the numbers or
+ * the story, or adding / dropping a question
+ */
+export type VariantAngle = "hook" | "data-first" | "story-first" | "question" | "no-question";
+
+export type ReplyKind = "reply" | "quote";
+
+/**
+ * The scraped tweet a reply or quote-tweet suggestion responds to
+ */
+export interface ReplyTarget {
+  kind: ReplyKind;
+  tweetId: string;
+  url: string;
+  authorHandle: string;
+  /** Target tweet text at suggestion time */
+  content: string;
 }
 
 export interface TweetDraftsOutput {
   date: string;
   generatedAt: string;
   drafts: TweetDraft[];
+  /** The day's scrape data, from the regular run */
   input?: GenerationInput;
+  /** What each run was generated from, by run key (see draftRunKey) */
+  inputs?: Record<string, GenerationInput>;
+  /** Prompt template version (src/prompts/<version>) that produced the drafts */
+  promptVersion?: string;
+  /** Every custom brief drafted for that day, by briefId */
+  briefs?: Record<string, CustomBrief>;
+  /** The one brief of day files from before briefs were kept per run */
+  brief?: CustomBrief;
+}
+
+// ===========================================
+// HTTP TYPES
+// ===========================================
+
+/**
+ * fetch() options plus the per-request overrides the shared HTTP layer accepts
+ */
+export interface HttpRequestOptions extends RequestInit {
+  /** Abort the attempt after this long; defaults to config.http.timeoutMs */
+  timeoutMs?: number;
+  /** Retries after the first attempt; defaults to config.http.maxRetries */
+  maxRetries?: number;
 }
 
 // ===========================================
@@ -130,26 +341,428 @@ export interface GenerationInput {
   onchainData?: OnchainData;
 }
 
+export type OnchainMetric = Exclude<keyof OnchainData, "chain" | "timestamp">;
+
+/**
+ * One input item as shown to the model, under the ID it cites it by
+ */
+export type SourceRef =
+  | { id: string; kind: "news"; item: NewsItem }
+  | { id: string; kind: "tweet"; item: TwitterPost }
+  | { id: string; kind: "onchain"; metric: OnchainMetric; label: string; value: number };
+
+/**
+ * Which kind of drafts a generation run asks the model for
+ */
+export type GenerationMode = DraftFormat;
+
+export interface GenerateOptions {
+  /** Omit to follow the voice profile (singles, plus threads when usesThreads) */
+  mode?: GenerationMode;
+  /** Omit to use config.generation.stages */
+  stages?: PipelineStage[];
+  /** Omit to load recent drafts and posted tweets from disk */
+  history?: HistoryEntry[];
+  /** Called as stages start/finish and drafts are produced */
+  onProgress?: (event: GenerationProgressEvent) => void;
+  /** Recap presets: the window the input covers. Omit for a daily run. */
+  campaign?: CampaignContext;
+  /** Focus every draft on this brief; its articles are already in the input */
+  brief?: CustomBrief;
+  /** Persona to write as; omit for config.voice.defaultProfile */
+  profile?: VoiceProfile;
+}
+
+/**
+ * "Write about this": free text and/or article URLs entered by hand.
+ * The URLs are fetched into NewsItems before generation.
+ */
+export interface CustomBrief {
+  text?: string;
+  urls?: string[];
+}
+
+export type CampaignPresetName = "daily" | "weekly-recap" | "monthly-report";
+
+/**
+ * A named generation preset. Recaps produce one thread over a date window
+ * of stored scrape history; daily is the regular run.
+ */
+export interface CampaignPreset {
+  name: CampaignPresetName;
+  label: string;
+  description: string;
+  /** Task prompt for recap threads; daily uses the regular task prompts */
+  taskTemplate?: "generate-task-weekly-recap" | "generate-task-monthly-report";
+}
+
+/**
+ * Inclusive YYYY-MM-DD range a preset covers, with its display label
+ * (e.g. "September 2026")
+ */
+export interface CampaignWindow {
+  start: string;
+  end: string;
+  label: string;
+}
+
+export interface CampaignContext {
+  preset: CampaignPresetName;
+  window: CampaignWindow;
+  /** Drafts written during the window (first line each), for highlights */
+  priorDrafts: string[];
+}
+
+/**
+ * "brief" = fetching the URLs of a custom brief
+ */
+export type ScrapeSourceName = "twitter" | "news" | "onchain" | "brief";
+
+/**
+ * Progress of a scrape + generate run, streamed to the dashboard over SSE
+ */
+export type GenerationProgressEvent =
+  | { type: "scrape:start"; source: ScrapeSourceName }
+  | { type: "scrape:done"; source: ScrapeSourceName; count: number; error?: string }
+  | { type: "generate:start"; modes: GenerationMode[]; stages: PipelineStage[] }
+  | { type: "stage:start"; mode: GenerationMode; stage: PipelineStage }
+  | { type: "stage:done"; mode: GenerationMode; stage: PipelineStage; tokensUsed: number }
+  | { type: "draft"; draft: TweetDraft }
+  | { type: "done"; output: GenerationOutput; input: GenerationInput; brief?: CustomBrief }
+  | { type: "error"; message: string; code?: ErrorCode };
+
 export interface GenerationOutput {
   drafts: TweetDraft[];
   tokensUsed: number;
   modelUsed: string;
   generatedAt: string;
+  promptVersion: string;
+}
+
+// ===========================================
+// PROMPT TEMPLATE TYPES
+// ===========================================
+
+/**
+ * Variables each template in src/prompts/<version>/<name>.md is rendered with.
+ * Values are pre-formatted text; optional sections are passed as "".
+ */
+export interface PromptTemplateVariables {
+  "generate-system": {
+    handle: string;
+    style: string;
+    emojiUsage: string;
+    dataUsage: string;
+    humor: string;
+    hashtags: string;
+    fingerprint: string;
+    avoidWords: string;
+    preferredTerms: string;
+    sampleTweets: string;
+    job: string;
+    laterStages: string;
+    deAiChecklist: string;
+    maxLength: number;
+    lengthUnit: string;
+    outputFormat: string;
+  };
+  "generate-output-single": { maxLength: number };
+  "generate-output-thread": { maxLength: number };
+  "generate-user": {
+    intro: string;
+    data: string;
+    brief: string;
+    highlights: string;
+    recentTopics: string;
+    task: string;
+    handle: string;
+  };
+  "generate-task-single": { count: number; slots: string };
+  "generate-task-thread": { count: number; threadNoun: string; maxLength: number; examples: string };
+  "generate-task-brief": { count: number; noun: string };
+  "generate-task-weekly-recap": { period: string; handle: string; maxPosts: number; maxLength: number };
+  "generate-task-monthly-report": { period: string; handle: string; maxPosts: number; maxLength: number };
+  "reply-system": {
+    handle: string;
+    style: string;
+    avoidWords: string;
+    sampleTweets: string;
+    deAiChecklist: string;
+    maxLength: number;
+  };
+  "reply-user": { targets: string; handle: string };
+  "variants-system": {
+    handle: string;
+    style: string;
+    avoidWords: string;
+    sampleTweets: string;
+    angles: string;
+    deAiChecklist: string;
+    maxLength: number;
+  };
+  "variants-user": { original: string; context: string; data: string; count: number };
+  revise: {
+    originalContent: string;
+    feedback: string;
+    maxLength: number;
+    handle: string;
+  };
+}
+
+export type PromptTemplateName = keyof PromptTemplateVariables;
+
+// ===========================================
+// LLM PROVIDER TYPES
+// ===========================================
+
+export type LLMProviderName = "anthropic" | "fake";
+
+/**
+ * What a completion is for. Lets providers (and the fake in particular)
+ * shape their answer without sniffing prompt text.
+ */
+export type LLMFeature =
+  | "generate"
+  | "generate-thread"
+  | "critique"
+  | "rewrite"
+  | "revise"
+  | "reply"
+  | "variants";
+
+export interface LLMMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface LLMRequest {
+  feature: LLMFeature;
+  /** Set on follow-up calls that ask the model to fix invalid output (1 = first repair) */
+  repairAttempt?: number;
+  system?: string;
+  messages: LLMMessage[];
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  usage: LLMUsage;
+  model: string;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  complete(request: LLMRequest): Promise<Result<LLMResponse>>;
+}
+
+// ===========================================
+// USAGE / COST TYPES
+// ===========================================
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * One completion call, as stored in the usage ledger
+ */
+export interface UsageRecord {
+  timestamp: string;
+  /** What triggered the call, e.g. "/api/drafts" or "cli" */
+  route: string;
+  feature: LLMFeature;
+  provider: LLMProviderName;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** 0 when the model has no entry in the price table */
+  costUsd: number;
+  repairAttempt?: number;
+  /** Set when the call failed; tokens are whatever the provider reported using */
+  error?: { code: ErrorCode; message: string };
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  /** First day covered (YYYY-MM-DD, UTC) */
+  since: string;
+  byDay: Array<UsageTotals & { date: string }>;
+  byFeature: Array<UsageTotals & { feature: LLMFeature }>;
+  byRoute: Array<UsageTotals & { route: string }>;
+  todayUsd: number;
+  monthUsd: number;
+  /** Configured limits; undefined = no limit */
+  budget: { dailyUsd?: number; monthlyUsd?: number };
+  /** Models seen in the ledger without a price */
+  unpricedModels: string[];
+}
+
+// ===========================================
+// PREFERENCE TYPES
+// ===========================================
+
+/**
+ * Where a preference came from; "variant-pick" = choosing between A/B
+ * variants, "edit" = our hand edit of a draft, "revision" = an accepted AI
+ * revision
+ */
+export type PreferenceSource = "variant-pick" | "edit" | "revision";
+
+/**
+ * One side of a preference pair, as it read when the choice was made
+ */
+export interface PreferenceSide {
+  draftId: string;
+  content: string;
+  posts?: string[];
+  angle?: VariantAngle;
+}
+
+/**
+ * "We preferred `chosen` over `rejected`", as stored in the preference ledger
+ */
+export interface PreferencePair {
+  timestamp: string;
+  source: PreferenceSource;
+  chosen: PreferenceSide;
+  rejected: PreferenceSide;
+  variantGroup?: string;
+  promptVersion?: string;
+  /** Voice profile the draft was written as; unset = the default profile */
+  profileId?: string;
+}
+
+/**
+ * avoid-word: a word our edits keep deleting; preferred-term: a
+ * substitution they keep making; sample: a final text worth keeping as a
+ * voice sample
+ */
+export type RefinementKind = "avoid-word" | "preferred-term" | "sample";
+
+export interface RefinementSuggestion {
+  /** Stable across runs, e.g. "avoid-word:leverage" */
+  id: string;
+  kind: RefinementKind;
+  /** The word, the term to replace, or the sample text */
+  text: string;
+  /** preferred-term: what we write instead */
+  replacement?: string;
+  /** Edits backing it up */
+  count: number;
+  /** Draft ids of those edits */
+  draftIds: string[];
+}
+
+/**
+ * A refinement run's suggestions for one profile, waiting for review
+ */
+export interface ProfileRefinement {
+  profileId: string;
+  generatedAt: string;
+  /** Edit and revision pairs the run looked at */
+  pairCount: number;
+  suggestions: RefinementSuggestion[];
+  /** Suggestion ids turned down in review; never offered again */
+  dismissed: string[];
 }
 
 // ===========================================
 // VOICE PROFILE TYPES
 // ===========================================
 
+/**
+ * Kinds of tweet the sample set should cover; "engagement" = asks the
+ * audience something
+ */
+export type VoiceCategory = "news" | "data" | "humor" | "engagement" | "thread";
+
 export interface VoiceSample {
   text: string;
   topics?: string[];
   engagement?: {
     likes: number;
     retweets: number;
+    replies?: number;
+    impressions?: number;
+  };
+  postedAt?: string;
+  categories?: VoiceCategory[];
+  /** Hand-picked: kept first and never dropped when the profile is rebuilt */
+  pinned?: boolean;
+  /** Why the profile builder picked it; unset on hand-added samples */
+  selection?: {
+    /** Engagement per impression, decayed by age */
+    score: number;
+    reasons: string[];
   };
 }
 
+/**
+ * What a profile rebuild measured across the account's tweets
+ */
+export interface VoiceStats {
+  totalTweets: number;
+  avgLength: number;
+  avgLikes: number;
+  avgRetweets: number;
+  topTopics: string[];
+  emojiCount: number;
+  hashtagCount: number;
+  questionCount: number;
+}
+
+export type EmojiPosition = "none" | "start" | "middle" | "end";
+
+export interface FingerprintPhrase {
+  text: string;
+  /** Share of tweets (0-1) using it */
+  share: number;
+}
+
+/**
+ * Writing habits measured across an account's tweets. Ratios are shares of
+ * tweets (0-1).
+ */
+export interface VoiceFingerprint {
+  tweetCount: number;
+  /** Words per sentence */
+  sentenceLength: { p25: number; median: number; p75: number };
+  lowercaseStartRatio: number;
+  /** Tweets using "..." or "…" */
+  ellipsisRatio: number;
+  lineBreaksPerTweet: number;
+  mentionsPerTweet: number;
+  /** Where a tweet's emoji sits ("none" = no emoji), as shares of tweets */
+  emojiPosition: Record<EmojiPosition, number>;
+  /** Most common first and last words */
+  openers: FingerprintPhrase[];
+  closers: FingerprintPhrase[];
+}
+
+export interface VoiceDistance {
+  /** 0 = typical of the account, 1 = nothing like it */
+  distance: number;
+  /** Habits the draft breaks, e.g. "sentences average 24 words (usually 6-13)" */
+  deviations: string[];
+}
+
 export interface StyleGuidelines {
   usesEmojis: boolean;
   emojiFrequency: "none" | "light" | "moderate" | "heavy";
@@ -163,3 +776,49 @@ export interface StyleGuidelines {
   avoidWords: string[];
   preferredTerms: Record<string, string>;
 }
+
+/**
+ * A persona to draft for: its account, tone and example tweets. Profiles
+ * are JSON files in config.voice.profilesDir, written by `npm run
+ * build:voice` or by hand.
+ */
+export interface VoiceProfile {
+  id: string;
+  /** Shown in the dashboard, e.g. "Brian (personal)" */
+  name: string;
+  handle: string;
+  /** Short tone descriptors, e.g. ["casual", "data-driven"] */
+  style: string[];
+  /** How the voice sounds, for the rewrite stage; omit for the built-in personal voice */
+  traits?: string[];
+  samples: VoiceSample[];
+  guidelines: StyleGuidelines;
+  /** Bumped on every save; earlier versions are kept in the profile's history */
+  version: number;
+  updatedAt?: string;
+  /** From the last rebuild; unset on hand-written profiles */
+  stats?: VoiceStats;
+  /** Best-scoring tweets of each kind, from the last rebuild; matched to the topic slots a prompt asks for */
+  examplesByCategory?: Partial<Record<VoiceCategory, string[]>>;
+  /** From the last rebuild; hand-written profiles are measured from their samples */
+  fingerprint?: VoiceFingerprint;
+  /** Sample texts removed by hand; rebuilds never pick them again */
+  excludedSamples?: string[];
+}
+
+/**
+ * Hand curation from the voice page. Samples are addressed by their text;
+ * avoidWords and preferredTerms replace the current lists when set.
+ */
+export interface VoiceProfileUpdate {
+  pin?: string[];
+  unpin?: string[];
+  exclude?: string[];
+  avoidWords?: string[];
+  preferredTerms?: Record<string, string>;
+}
+
+/**
+ * What the dashboard needs to list a profile and lint its drafts
+ */
+export type VoiceProfileSummary = Omit<VoiceProfile, "samples"> & { sampleCount: number };
@@ -0,0 +1,243 @@
+/**
+ * Voice Fingerprint
+ *
+ * Writing habits measured across an account's tweets (sentence length,
+ * lowercase starts, "...", line breaks, @mentions, emoji placement, common
+ * openers and closers), the prompt lines built from them, and a distance
+ * score for drafts. Shared by the generator and the dashboard, so this
+ * module must stay free of server-only imports (config, fs, SDKs).
+ */
+
+import { EMOJI_REGEX, URL_REGEX } from "../lib/tweet-text";
+import type {
+  EmojiPosition,
+  FingerprintPhrase,
+  TweetDraft,
+  VoiceDistance,
+  VoiceFingerprint,
+  VoiceProfile,
+} from "../types";
+
+/** Fewer samples than this say more about the sample picker than the voice */
+const MIN_FINGERPRINT_TWEETS = 10;
+
+/** Openers/closers kept, and how many tweets must share one */
+const MAX_PHRASES = 5;
+const MIN_PHRASE_TWEETS = 2;
+
+/** Habits a draft misses by at least this much (0-1) are reported */
+const DEVIATION_THRESHOLD = 0.6;
+
+const EMOJI_POSITIONS: EmojiPosition[] = ["none", "start", "middle", "end"];
+
+interface TextFeatures {
+  sentenceWords: number[];
+  lowercaseStart: boolean;
+  ellipsis: boolean;
+  lineBreaks: number;
+  mentions: number;
+  emojiPosition: EmojiPosition;
+  opener?: string;
+  closer?: string;
+}
+
+function round(value: number, digits = 2): number {
+  return Number(value.toFixed(digits));
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round((sorted.length - 1) * p)));
+  return sorted[index];
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/**
+ * A first or last word, lowercased and without surrounding punctuation
+ * (emoji-only words are kept as they are)
+ */
+function normalizeWord(word: string | undefined): string | undefined {
+  if (!word) return undefined;
+  const trimmed = word.toLowerCase().replace(/^[("'“‘]+|[)"'”’.,!?:;…]+$/gu, "");
+  return trimmed || undefined;
+}
+
+function emojiPosition(text: string): EmojiPosition {
+  const matches = [...text.matchAll(EMOJI_REGEX)];
+  if (matches.length === 0) return "none";
+  const first = matches[0];
+  const last = matches[matches.length - 1];
+  if (first.index === 0) return "start";
+  if (last.index! + last[0].length === text.length) return "end";
+  return "middle";
+}
+
+function measureText(raw: string): TextFeatures {
+  const text = raw.replace(URL_REGEX, "").trim();
+  const sentenceWords = text
+    .split(/[.!?…]+(?:\s+|$)|\n+/)
+    .map((sentence) => sentence.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length)
+    .filter((count) => count > 0);
+  const words = text.split(/\s+/).filter(Boolean);
+
+  return {
+    sentenceWords,
+    lowercaseStart: /^\p{Ll}/u.test(text),
+    ellipsis: /\.\.\.|…/.test(text),
+    lineBreaks: (text.match(/\n/g) || []).length,
+    mentions: (text.match(/(^|[^\w])@\w+/g) || []).length,
+    emojiPosition: emojiPosition(text),
+    opener: normalizeWord(words[0]),
+    closer: words.length > 1 ? normalizeWord(words[words.length - 1]) : undefined,
+  };
+}
+
+function topPhrases(phrases: Array<string | undefined>, total: number): FingerprintPhrase[] {
+  const counts = new Map<string, number>();
+  for (const phrase of phrases) {
+    if (phrase) counts.set(phrase, (counts.get(phrase) || 0) + 1);
+  }
+  return [...counts]
+    .filter(([, count]) => count >= MIN_PHRASE_TWEETS)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_PHRASES)
+    .map(([text, count]) => ({ text, share: round(count / total) }));
+}
+
+/**
+ * Measure the fingerprint of a set of tweets
+ */
+export function measureFingerprint(texts: string[]): VoiceFingerprint {
+  const features = texts.map(measureText);
+  const total = Math.max(1, features.length);
+  const sentences = features.flatMap((f) => f.sentenceWords).sort((a, b) => a - b);
+  const share = (predicate: (f: TextFeatures) => boolean) => round(features.filter(predicate).length / total);
+
+  return {
+    tweetCount: features.length,
+    sentenceLength: {
+      p25: percentile(sentences, 0.25),
+      median: percentile(sentences, 0.5),
+      p75: percentile(sentences, 0.75),
+    },
+    lowercaseStartRatio: share((f) => f.lowercaseStart),
+    ellipsisRatio: share((f) => f.ellipsis),
+    lineBreaksPerTweet: round(mean(features.map((f) => f.lineBreaks))),
+    mentionsPerTweet: round(mean(features.map((f) => f.mentions))),
+    emojiPosition: Object.fromEntries(
+      EMOJI_POSITIONS.map((position) => [position, share((f) => f.emojiPosition === position)])
+    ) as Record<EmojiPosition, number>,
+    openers: topPhrases(features.map((f) => f.opener), total),
+    closers: topPhrases(features.map((f) => f.closer), total),
+  };
+}
+
+/**
+ * The profile's fingerprint: the one from its last rebuild, or measured
+ * from its samples. Undefined when there's too little to measure.
+ */
+export function profileFingerprint(profile: Pick<VoiceProfile, "fingerprint" | "samples">): VoiceFingerprint | undefined {
+  if (profile.fingerprint) return profile.fingerprint;
+  if (profile.samples.length < MIN_FINGERPRINT_TWEETS) return undefined;
+  return measureFingerprint(profile.samples.map((sample) => sample.text));
+}
+
+function percent(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`;
+}
+
+function phraseList(phrases: FingerprintPhrase[]): string {
+  return phrases.map((p) => `"${p.text}" (${percent(p.share)})`).join(", ");
+}
+
+/**
+ * Prompt lines describing the fingerprint, one habit per line
+ */
+export function describeFingerprint(fingerprint: VoiceFingerprint): string[] {
+  const { sentenceLength: s, emojiPosition: emoji } = fingerprint;
+  const placed = EMOJI_POSITIONS.slice(1).sort((a, b) => emoji[b] - emoji[a])[0];
+
+  return [
+    `Sentences run ${s.p25}-${s.p75} words (median ${s.median})`,
+    `${percent(fingerprint.lowercaseStartRatio)} of tweets start with a lowercase letter`,
+    `${percent(fingerprint.ellipsisRatio)} of tweets use "..."`,
+    `${fingerprint.lineBreaksPerTweet} line breaks per tweet on average`,
+    `${fingerprint.mentionsPerTweet} @mentions per tweet on average`,
+    emoji.none >= 1
+      ? "No emojis"
+      : `Emojis in ${percent(1 - emoji.none)} of tweets, usually at the ${placed}`,
+    ...(fingerprint.openers.length > 0 ? [`Common first words: ${phraseList(fingerprint.openers)}`] : []),
+    ...(fingerprint.closers.length > 0 ? [`Common last words: ${phraseList(fingerprint.closers)}`] : []),
+  ];
+}
+
+/**
+ * How far one post is from the fingerprint, habit by habit (0-1 each), with
+ * a message for the ones it misses
+ */
+function postDistances(text: string, fingerprint: VoiceFingerprint): Array<{ distance: number; message: string }> {
+  const f = measureText(text);
+  const { p25, p75 } = fingerprint.sentenceLength;
+  const words = Math.round(mean(f.sentenceWords));
+  const gap = words < p25 ? p25 - words : words > p75 ? words - p75 : 0;
+  const relative = (value: number, typical: number) => Math.min(1, Math.abs(value - typical) / Math.max(1, typical));
+
+  return [
+    {
+      distance: Math.min(1, gap / Math.max(1, p75 - p25)),
+      message: `sentences average ${words} words (usually ${p25}-${p75})`,
+    },
+    {
+      distance: Math.abs(Number(f.lowercaseStart) - fingerprint.lowercaseStartRatio),
+      message: f.lowercaseStart
+        ? `starts lowercase (${percent(fingerprint.lowercaseStartRatio)} of tweets do)`
+        : `doesn't start lowercase (${percent(fingerprint.lowercaseStartRatio)} of tweets do)`,
+    },
+    {
+      distance: Math.abs(Number(f.ellipsis) - fingerprint.ellipsisRatio),
+      message: f.ellipsis
+        ? `uses "..." (${percent(fingerprint.ellipsisRatio)} of tweets do)`
+        : `no "..." (${percent(fingerprint.ellipsisRatio)} of tweets use one)`,
+    },
+    {
+      distance: relative(f.lineBreaks, fingerprint.lineBreaksPerTweet),
+      message: `${f.lineBreaks} line breaks (usually ${fingerprint.lineBreaksPerTweet})`,
+    },
+    {
+      distance: relative(f.mentions, fingerprint.mentionsPerTweet),
+      message: `${f.mentions} @mentions (usually ${fingerprint.mentionsPerTweet})`,
+    },
+    {
+      distance: 1 - fingerprint.emojiPosition[f.emojiPosition],
+      message: f.emojiPosition === "none"
+        ? `no emoji (${percent(1 - fingerprint.emojiPosition.none)} of tweets have one)`
+        : `emoji at the ${f.emojiPosition} (${percent(fingerprint.emojiPosition[f.emojiPosition])} of tweets)`,
+    },
+  ];
+}
+
+/**
+ * Score a draft against a fingerprint: the mean distance over its habits
+ * (and posts, for threads) plus the habits it misses most
+ */
+export function scoreVoiceDistance(
+  draft: Pick<TweetDraft, "content" | "format" | "posts">,
+  fingerprint: VoiceFingerprint
+): VoiceDistance {
+  const posts = draft.format === "thread" && draft.posts?.length ? draft.posts : [draft.content];
+  const scored = posts.map((post) => postDistances(post, fingerprint));
+
+  const deviations = scored.flatMap((habits, i) =>
+    habits
+      .filter((habit) => habit.distance >= DEVIATION_THRESHOLD)
+      .map((habit) => (posts.length > 1 ? `Post ${i + 1}: ${habit.message}` : habit.message))
+  );
+
+  return {
+    distance: round(mean(scored.map((habits) => mean(habits.map((habit) => habit.distance))))),
+    deviations,
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Default Style Guidelines
+ *
+ * Starting point for new voice profiles, and what the dashboard lints
+ * with before the profiles have loaded. Kept free of Node imports so
+ * client components can use it.
+ */
+
+import type { StyleGuidelines } from "../types";
+
+export const DEFAULT_GUIDELINES: StyleGuidelines = {
+  // Tone
+  usesEmojis: true,
+  emojiFrequency: "light",
+
+  // Structure
+  usesThreads: false,
+  averageLength: "medium",
+  usesHashtags: false,
+
+  // Content style
+  dataFirst: true,
+  includesHumor: false,
+  asksQuestions: false,
+  usesCTA: false,
+
+  // Vocabulary - common crypto terms to avoid
+  avoidWords: [
+    "bullish",
+    "bearish",
+    "to the moon",
+    "wagmi",
+    "ngmi",
+    "wen",
+    "ser",
+    "fren",
+    "probably nothing",
+    "few understand",
+    "this is huge",
+    "game changer",
+    "revolutionary",
+  ],
+  preferredTerms: {
+    "cryptocurrency": "crypto",
+    "decentralized finance": "DeFi",
+    "non-fungible token": "NFT",
+    "layer 1": "L1",
+    "layer 2": "L2",
+  },
+};
@@ -0,0 +1,388 @@
+/**
+ * Voice Profiles
+ *
+ * Each persona we draft for (a personal account, the company account, ...)
+ * is a validated JSON file in config.voice.profilesDir. Files are read per
+ * call, so rebuilding or editing a profile doesn't need a redeploy. Every
+ * save bumps the version and keeps the previous file under
+ * history/<id>/v<N>.json.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import { config } from "../lib/config";
+import { success, fail } from "../lib/errors";
+import { DEFAULT_GUIDELINES } from "./guidelines";
+import { profileFingerprint } from "./fingerprint";
+import type { VoiceAnalysis } from "../scrapers/voice-profile";
+import type { Result, VoiceProfile, VoiceProfileSummary, VoiceProfileUpdate } from "../types";
+import { ErrorCode } from "../types";
+
+/** Id of the profile drafts without a profileId were written as */
+export const DEFAULT_PROFILE_ID = "default";
+
+const categorySchema = z.enum(["news", "data", "humor", "engagement", "thread"]);
+
+const sampleSchema = z.object({
+  text: z.string().trim().min(1),
+  topics: z.array(z.string()).optional(),
+  engagement: z
+    .object({
+      likes: z.number(),
+      retweets: z.number(),
+      replies: z.number().optional(),
+      impressions: z.number().optional(),
+    })
+    .optional(),
+  postedAt: z.string().optional(),
+  categories: z.array(categorySchema).optional(),
+  pinned: z.boolean().optional(),
+  selection: z.object({ score: z.number(), reasons: z.array(z.string()) }).optional(),
+});
+
+const guidelinesSchema = z.object({
+  usesEmojis: z.boolean(),
+  emojiFrequency: z.enum(["none", "light", "moderate", "heavy"]),
+  usesThreads: z.boolean(),
+  averageLength: z.enum(["short", "medium", "long"]),
+  usesHashtags: z.boolean(),
+  dataFirst: z.boolean(),
+  includesHumor: z.boolean(),
+  asksQuestions: z.boolean(),
+  usesCTA: z.boolean(),
+  avoidWords: z.array(z.string()).default([]),
+  preferredTerms: z.record(z.string()).default({}),
+});
+
+const statsSchema = z.object({
+  totalTweets: z.number(),
+  avgLength: z.number(),
+  avgLikes: z.number(),
+  avgRetweets: z.number(),
+  topTopics: z.array(z.string()),
+  emojiCount: z.number(),
+  hashtagCount: z.number(),
+  questionCount: z.number(),
+});
+
+const phraseSchema = z.object({ text: z.string(), share: z.number() });
+
+const fingerprintSchema = z.object({
+  tweetCount: z.number(),
+  sentenceLength: z.object({ p25: z.number(), median: z.number(), p75: z.number() }),
+  lowercaseStartRatio: z.number(),
+  ellipsisRatio: z.number(),
+  lineBreaksPerTweet: z.number(),
+  mentionsPerTweet: z.number(),
+  emojiPosition: z.object({ none: z.number(), start: z.number(), middle: z.number(), end: z.number() }),
+  openers: z.array(phraseSchema),
+  closers: z.array(phraseSchema),
+});
+
+const profileSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "id must be lowercase letters, digits and dashes"),
+  name: z.string().trim().min(1),
+  handle: z.string().trim().min(1).transform((handle) => handle.replace(/^@/, "")),
+  style: z.array(z.string()).default([]),
+  traits: z.array(z.string()).optional(),
+  samples: z.array(sampleSchema).default([]),
+  guidelines: guidelinesSchema,
+  version: z.number().int().min(1).default(1),
+  updatedAt: z.string().optional(),
+  stats: statsSchema.optional(),
+  examplesByCategory: z.record(categorySchema, z.array(z.string().trim().min(1))).optional(),
+  fingerprint: fingerprintSchema.optional(),
+  excludedSamples: z.array(z.string()).optional(),
+});
+
+/**
+ * Stand-in for the default profile until one is built: the VOICE_* env
+ * vars, default guidelines and no samples
+ */
+function builtInProfile(): VoiceProfile {
+  return {
+    id: DEFAULT_PROFILE_ID,
+    name: `@${config.voice.twitterHandle}`,
+    handle: config.voice.twitterHandle,
+    style: config.voice.style,
+    samples: [],
+    guidelines: DEFAULT_GUIDELINES,
+    version: 1,
+  };
+}
+
+/** Logged once per process, not on every lookup */
+let missingDefaultLogged = false;
+
+function historyDir(id: string): string {
+  return path.join(config.voice.profilesDir, "history", id);
+}
+
+function validateProfile(raw: unknown): Result<VoiceProfile> {
+  const parsed = profileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return fail(ErrorCode.INVALID_DATA_FORMAT, `${issue.path.join(".") || "profile"} - ${issue.message}`, {
+      issues: parsed.error.issues,
+    });
+  }
+  return success(parsed.data);
+}
+
+function readProfileFile(filePath: string): Result<VoiceProfile> {
+  try {
+    return validateProfile(JSON.parse(fs.readFileSync(filePath, "utf-8")));
+  } catch (error) {
+    return fail(ErrorCode.INVALID_DATA_FORMAT, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Profiles from config.voice.profilesDir. Invalid files are skipped with a
+ * warning rather than taking every profile down with them.
+ */
+function readProfileFiles(): VoiceProfile[] {
+  const dir = config.voice.profilesDir;
+  if (!fs.existsSync(dir)) return [];
+
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .flatMap((file) => {
+      const profile = readProfileFile(path.join(dir, file));
+      if (profile.success) return [profile.data];
+      console.warn(`⚠️  Skipping voice profile ${file}: ${profile.error.message}`);
+      return [];
+    });
+}
+
+/**
+ * Every profile, "default" first (the built-in stand-in until one is built,
+ * logged as an error since it has no samples)
+ */
+export function listVoiceProfiles(): VoiceProfile[] {
+  const byId = new Map<string, VoiceProfile>();
+  for (const profile of readProfileFiles()) {
+    if (byId.has(profile.id)) {
+      console.warn(`⚠️  Duplicate voice profile id "${profile.id}"; keeping the first`);
+      continue;
+    }
+    byId.set(profile.id, profile);
+  }
+  if (!byId.has(DEFAULT_PROFILE_ID) && !missingDefaultLogged) {
+    missingDefaultLogged = true;
+    console.error(
+      `❌ No ${DEFAULT_PROFILE_ID}.json voice profile in ${path.resolve(config.voice.profilesDir)}: ` +
+        "drafts are written from the built-in profile, without samples. Run npm run build:voice, " +
+        "or check the profile files are deployed with the build."
+    );
+  }
+  const defaultProfile = byId.get(DEFAULT_PROFILE_ID) ?? builtInProfile();
+  byId.delete(DEFAULT_PROFILE_ID);
+  return [defaultProfile, ...byId.values()];
+}
+
+/**
+ * Look up a profile by id (config.voice.defaultProfile when omitted)
+ */
+export function getVoiceProfile(id: string = config.voice.defaultProfile): Result<VoiceProfile> {
+  const profile = listVoiceProfiles().find((p) => p.id === id);
+  if (!profile) {
+    return fail(ErrorCode.PROFILE_NOT_FOUND, `Voice profile "${id}" not found`);
+  }
+  return success(profile);
+}
+
+/**
+ * The configured default profile, falling back to "default" if the
+ * configured id doesn't exist
+ */
+export function getDefaultVoiceProfile(): VoiceProfile {
+  const profile = getVoiceProfile();
+  if (profile.success) return profile.data;
+
+  console.warn(`⚠️  ${profile.error.message}; using "${DEFAULT_PROFILE_ID}"`);
+  return listVoiceProfiles()[0];
+}
+
+/**
+ * The profile a stored draft was written as (default when untagged or deleted)
+ */
+export function getDraftProfile(profileId: string | undefined): VoiceProfile {
+  const profile = getVoiceProfile(profileId ?? DEFAULT_PROFILE_ID);
+  return profile.success ? profile.data : getDefaultVoiceProfile();
+}
+
+/**
+ * Validate and write a profile as the next version of <id>.json, moving the
+ * current file into its history first
+ */
+export function saveVoiceProfile(profile: VoiceProfile): Result<VoiceProfile> {
+  const filePath = path.join(config.voice.profilesDir, `${profile.id}.json`);
+  const current = fs.existsSync(filePath) ? readProfileFile(filePath) : undefined;
+  // Don't bury a hand edit that broke the file under a new version
+  if (current && !current.success) {
+    return fail(current.error.code, `${filePath} is invalid (${current.error.message}); fix or remove it first`);
+  }
+
+  const validated = validateProfile({
+    ...profile,
+    version: current ? current.data.version + 1 : profile.version,
+    updatedAt: new Date().toISOString(),
+  });
+  if (!validated.success) {
+    return validated;
+  }
+
+  try {
+    if (current) {
+      fs.mkdirSync(historyDir(profile.id), { recursive: true });
+      fs.copyFileSync(filePath, path.join(historyDir(profile.id), `v${current.data.version}.json`));
+    }
+    fs.mkdirSync(config.voice.profilesDir, { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(validated.data, null, 2) + "\n");
+    return success(validated.data);
+  } catch (error) {
+    return fail(ErrorCode.UNKNOWN_ERROR, `Failed to save voice profile "${profile.id}"`, error);
+  }
+}
+
+/**
+ * Earlier saved versions of a profile, newest first
+ */
+export function listVoiceProfileVersions(id: string): VoiceProfile[] {
+  const dir = historyDir(id);
+  if (!fs.existsSync(dir)) return [];
+
+  return fs
+    .readdirSync(dir)
+    .filter((file) => /^v\d+\.json$/.test(file))
+    .flatMap((file) => {
+      const profile = readProfileFile(path.join(dir, file));
+      return profile.success ? [profile.data] : [];
+    })
+    .sort((a, b) => b.version - a.version);
+}
+
+function withoutExamples(
+  examplesByCategory: NonNullable<VoiceProfile["examplesByCategory"]>,
+  texts: Set<string>
+): NonNullable<VoiceProfile["examplesByCategory"]> {
+  return Object.fromEntries(
+    Object.entries(examplesByCategory).map(([category, examples]) => [category, examples.filter((text) => !texts.has(text))])
+  );
+}
+
+/**
+ * Apply hand curation to a profile without saving it. Excluded samples are
+ * dropped (from the category examples too) and remembered so rebuilds skip
+ * them; sample texts the profile doesn't have are rejected.
+ */
+export function applyProfileUpdate(profile: VoiceProfile, update: VoiceProfileUpdate): Result<VoiceProfile> {
+  const { pin = [], unpin = [], exclude = [] } = update;
+  const texts = new Set(profile.samples.map((sample) => sample.text));
+  const unknown = [...pin, ...unpin, ...exclude].filter((text) => !texts.has(text));
+  if (unknown.length > 0) {
+    return fail(
+      ErrorCode.INVALID_DATA_FORMAT,
+      `Profile "${profile.id}" has no sample${unknown.length === 1 ? "" : "s"}: ${unknown.map((text) => `"${text.slice(0, 40)}"`).join(", ")}`
+    );
+  }
+
+  const excluded = new Set(exclude);
+
+  return success({
+    ...profile,
+    samples: profile.samples
+      .filter((sample) => !excluded.has(sample.text))
+      .map((sample) =>
+        pin.includes(sample.text)
+          ? { ...sample, pinned: true }
+          : unpin.includes(sample.text)
+          ? { ...sample, pinned: undefined }
+          : sample
+      ),
+    guidelines: {
+      ...profile.guidelines,
+      avoidWords: update.avoidWords ?? profile.guidelines.avoidWords,
+      preferredTerms: update.preferredTerms ?? profile.guidelines.preferredTerms,
+    },
+    ...(profile.examplesByCategory && { examplesByCategory: withoutExamples(profile.examplesByCategory, excluded) }),
+    ...(excluded.size > 0 && { excludedSamples: [...new Set([...(profile.excludedSamples ?? []), ...excluded])] }),
+  });
+}
+
+/**
+ * Apply hand curation to a stored profile and save it as a new version
+ */
+export function updateVoiceProfile(id: string, update: VoiceProfileUpdate): Result<VoiceProfile> {
+  const profile = getVoiceProfile(id);
+  if (!profile.success) {
+    return profile;
+  }
+  const updated = applyProfileUpdate(profile.data, update);
+  if (!updated.success) {
+    return updated;
+  }
+  return saveVoiceProfile(updated.data);
+}
+
+/**
+ * Fold a fresh analysis into a profile. Measured fields (samples, tone and
+ * structure flags, stats, examplesByCategory, fingerprint) are replaced; hand-curated ones (name, style,
+ * traits, avoidWords, preferredTerms, usesCTA, pinned samples) are kept,
+ * and excluded samples aren't picked again.
+ */
+export function mergeRebuild(profile: VoiceProfile, analysis: VoiceAnalysis): VoiceProfile {
+  const pinned = profile.samples.filter((sample) => sample.pinned);
+  const skipped = new Set([...pinned.map((sample) => sample.text), ...(profile.excludedSamples ?? [])]);
+  const fresh = analysis.samples.filter((sample) => !skipped.has(sample.text));
+  const excluded = new Set(profile.excludedSamples);
+
+  return {
+    ...profile,
+    samples: [...pinned, ...fresh.slice(0, Math.max(0, config.voice.sampleSelection.count - pinned.length))],
+    guidelines: {
+      ...profile.guidelines,
+      ...analysis.guidelines,
+      // Never measured; always curated by hand
+      avoidWords: profile.guidelines.avoidWords,
+      preferredTerms: profile.guidelines.preferredTerms,
+      usesCTA: profile.guidelines.usesCTA,
+    },
+    stats: analysis.stats,
+    examplesByCategory: withoutExamples(analysis.examplesByCategory, excluded),
+    fingerprint: analysis.fingerprint,
+  };
+}
+
+/**
+ * The profile a rebuild from @handle merges into: the existing one, or a
+ * new one named after the handle
+ */
+export function profileForRebuild(id: string, handle: string): VoiceProfile {
+  const existing = getVoiceProfile(id);
+  if (existing.success) return { ...existing.data, handle };
+
+  return {
+    id,
+    name: `@${handle}`,
+    handle,
+    style: id === DEFAULT_PROFILE_ID ? config.voice.style : [],
+    samples: [],
+    guidelines: DEFAULT_GUIDELINES,
+    version: 1,
+  };
+}
+
+/**
+ * A profile without its samples; the fingerprint is measured from them when
+ * the profile has none, so the dashboard can score edits
+ */
+export function toProfileSummary(profile: VoiceProfile): VoiceProfileSummary {
+  const { samples, ...summary } = profile;
+  const fingerprint = profileFingerprint(profile);
+  return { ...summary, ...(fingerprint && { fingerprint }), sampleCount: samples.length };
+}
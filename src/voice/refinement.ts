@@ -0,0 +1,290 @@
+/**
+ * Voice Profile Refinement
+ *
+ * Mines the edit and revision pairs in the preference ledger for changes
+ * we keep making by hand: words we delete (avoidWords candidates), words
+ * we swap for others (preferredTerms candidates) and final texts worth
+ * keeping as samples. A run writes its suggestions to
+ * config.preferences.refinementsDir/<profile id>.json; nothing touches the
+ * profile until a suggestion is applied in review.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import { config } from "../lib/config";
+import { success, fail } from "../lib/errors";
+import { tokenize } from "../lib/similarity";
+import { URL_REGEX } from "../lib/tweet-text";
+import { readPreferences } from "../generator/preferences";
+import { draftText } from "../generator/history";
+import { DEFAULT_PROFILE_ID, getVoiceProfile, saveVoiceProfile } from "./profiles";
+import type {
+  PreferencePair,
+  ProfileRefinement,
+  RefinementSuggestion,
+  Result,
+  VoiceProfile,
+} from "../types";
+import { ErrorCode } from "../types";
+
+/** Removed and added words at one spot of an edit */
+interface Hunk {
+  removed: string[];
+  added: string[];
+}
+
+/** Longest phrase on either side that still counts as a substitution */
+const MAX_SUBSTITUTION_WORDS = 3;
+
+function words(text: string): string[] {
+  return text.replace(URL_REGEX, " ").toLowerCase().match(/[\p{L}\p{N}@#$%'’-]+/gu) ?? [];
+}
+
+/**
+ * A word worth suggesting: not a stopword, number, @mention or hashtag
+ * (numbers change because the facts did, not the voice)
+ */
+function isVoiceWord(word: string): boolean {
+  return !/^[@#]/.test(word) && !/\d/.test(word) && tokenize(word).length > 0;
+}
+
+/**
+ * Word-level diff (longest common subsequence), as the spots where the
+ * texts differ
+ */
+function diffHunks(before: string[], after: string[]): Hunk[] {
+  const lcs = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const hunks: Hunk[] = [];
+  let current: Hunk = { removed: [], added: [] };
+  const flush = () => {
+    if (current.removed.length || current.added.length) hunks.push(current);
+    current = { removed: [], added: [] };
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      flush();
+      i++;
+      j++;
+    } else if (j >= after.length || (i < before.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      current.removed.push(before[i++]);
+    } else {
+      current.added.push(after[j++]);
+    }
+  }
+  flush();
+
+  return hunks;
+}
+
+/**
+ * Count, per key, the pairs it shows up in
+ */
+function tally(counts: Map<string, Set<string>>, key: string, draftId: string): void {
+  const ids = counts.get(key) ?? new Set<string>();
+  ids.add(draftId);
+  counts.set(key, ids);
+}
+
+function sampleId(text: string): string {
+  return `sample:${createHash("sha1").update(text).digest("hex").slice(0, 12)}`;
+}
+
+/**
+ * Suggestions from a profile's edit and revision pairs (oldest first),
+ * leaving out what the profile already has. Each pair holds a draft's
+ * generated text and its text after that edit, so only a draft's latest
+ * pair counts.
+ */
+export function mineRefinements(profile: VoiceProfile, pairs: PreferencePair[]): RefinementSuggestion[] {
+  const { minOccurrences, maxSampleSuggestions } = config.preferences;
+  const deleted = new Map<string, Set<string>>();
+  const added = new Map<string, Set<string>>();
+  const substituted = new Map<string, Set<string>>();
+
+  const lastIndex = new Map(pairs.map((pair, index) => [pair.chosen.draftId, index]));
+  const latest = pairs.filter((pair, index) => lastIndex.get(pair.chosen.draftId) === index);
+
+  latest.forEach((pair) => {
+    const key = pair.chosen.draftId;
+    const before = words(draftText(pair.rejected));
+    const after = words(draftText(pair.chosen));
+    const beforeSet = new Set(before);
+    const afterSet = new Set(after);
+
+    for (const hunk of diffHunks(before, after)) {
+      hunk.removed.filter((w) => !afterSet.has(w) && isVoiceWord(w)).forEach((w) => tally(deleted, w, key));
+      hunk.added.filter((w) => !beforeSet.has(w) && isVoiceWord(w)).forEach((w) => tally(added, w, key));
+
+      const isSubstitution =
+        hunk.removed.length > 0 && hunk.removed.length <= MAX_SUBSTITUTION_WORDS &&
+        hunk.added.length > 0 && hunk.added.length <= MAX_SUBSTITUTION_WORDS;
+      if (isSubstitution && hunk.removed.some(isVoiceWord) && ![...hunk.removed, ...hunk.added].some((w) => /\d/.test(w))) {
+        tally(substituted, `${hunk.removed.join(" ")}→${hunk.added.join(" ")}`, key);
+      }
+    }
+  });
+
+  const draftIds = (keys: Set<string>) => [...keys];
+  const avoided = new Set(profile.guidelines.avoidWords.map((w) => w.toLowerCase()));
+  const replaced = new Set(Object.keys(profile.guidelines.preferredTerms).map((t) => t.toLowerCase()));
+
+  const preferredTerms: RefinementSuggestion[] = [...substituted]
+    .filter(([key, keys]) => keys.size >= minOccurrences && !replaced.has(key.split("→")[0]))
+    .map(([key, keys]) => {
+      const [from, to] = key.split("→");
+      return { id: `preferred-term:${key}`, kind: "preferred-term", text: from, replacement: to, count: keys.size, draftIds: draftIds(keys) };
+    });
+  const substitutedFrom = new Set(preferredTerms.flatMap((s) => s.text.split(" ")));
+
+  // Deleted more often than written back in
+  const avoidWords: RefinementSuggestion[] = [...deleted]
+    .filter(([word, keys]) =>
+      keys.size >= minOccurrences &&
+      keys.size > (added.get(word)?.size ?? 0) &&
+      !avoided.has(word) &&
+      !replaced.has(word) &&
+      !substitutedFrom.has(word)
+    )
+    .map(([word, keys]) => ({ id: `avoid-word:${word}`, kind: "avoid-word", text: word, count: keys.size, draftIds: draftIds(keys) }));
+
+  // Newest final texts of single tweets first
+  const sampleTexts = new Set(profile.samples.map((s) => s.text.trim()));
+  const samples: RefinementSuggestion[] = [];
+  for (const pair of [...latest].reverse()) {
+    if (samples.length >= maxSampleSuggestions) break;
+    const text = pair.chosen.content.trim();
+    if (pair.chosen.posts?.length || !text || sampleTexts.has(text)) continue;
+    sampleTexts.add(text);
+    samples.push({ id: sampleId(text), kind: "sample", text, count: 1, draftIds: [pair.chosen.draftId] });
+  }
+
+  const byCount = (a: RefinementSuggestion, b: RefinementSuggestion) => b.count - a.count;
+  return [...avoidWords.sort(byCount), ...preferredTerms.sort(byCount), ...samples];
+}
+
+function refinementPath(profileId: string): string {
+  return path.join(config.preferences.refinementsDir, `${profileId}.json`);
+}
+
+/**
+ * The profile's pending refinement, if a run has written one
+ */
+export function readRefinement(profileId: string): ProfileRefinement | undefined {
+  const filePath = refinementPath(profileId);
+  if (!fs.existsSync(filePath)) return undefined;
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as ProfileRefinement;
+  } catch {
+    console.warn(`⚠️  Ignoring unreadable refinement file: ${filePath}`);
+    return undefined;
+  }
+}
+
+function writeRefinement(refinement: ProfileRefinement): Result<ProfileRefinement> {
+  try {
+    fs.mkdirSync(config.preferences.refinementsDir, { recursive: true });
+    fs.writeFileSync(refinementPath(refinement.profileId), JSON.stringify(refinement, null, 2) + "\n");
+    return success(refinement);
+  } catch (error) {
+    return fail(ErrorCode.UNKNOWN_ERROR, `Failed to save refinement for "${refinement.profileId}"`, error);
+  }
+}
+
+/**
+ * Mine the ledger for a profile and replace its pending suggestions.
+ * Suggestions dismissed in an earlier review stay dismissed.
+ */
+export function runRefinement(profileId: string = config.voice.defaultProfile): Result<ProfileRefinement> {
+  const profile = getVoiceProfile(profileId);
+  if (!profile.success) {
+    return profile;
+  }
+
+  const pairs = readPreferences().filter(
+    (pair) =>
+      (pair.source === "edit" || pair.source === "revision") &&
+      (pair.profileId ?? DEFAULT_PROFILE_ID) === profile.data.id
+  );
+  const dismissed = readRefinement(profile.data.id)?.dismissed ?? [];
+
+  return writeRefinement({
+    profileId: profile.data.id,
+    generatedAt: new Date().toISOString(),
+    pairCount: pairs.length,
+    suggestions: mineRefinements(profile.data, pairs).filter((s) => !dismissed.includes(s.id)),
+    dismissed,
+  });
+}
+
+/**
+ * Apply the reviewed suggestions to the profile (as a new version) and
+ * dismiss others. Promoted samples are pinned so rebuilds keep them.
+ */
+export function reviewRefinement(
+  profileId: string,
+  apply: string[],
+  dismiss: string[] = []
+): Result<{ profile: VoiceProfile; refinement: ProfileRefinement }> {
+  const refinement = readRefinement(profileId);
+  if (!refinement) {
+    return fail(ErrorCode.NO_DATA_AVAILABLE, `No pending refinement for "${profileId}"; run one first`);
+  }
+  const unknown = [...apply, ...dismiss].filter((id) => !refinement.suggestions.some((s) => s.id === id));
+  if (unknown.length > 0) {
+    return fail(ErrorCode.INVALID_DATA_FORMAT, `Unknown suggestion${unknown.length === 1 ? "" : "s"}: ${unknown.join(", ")}`);
+  }
+
+  const profile = getVoiceProfile(profileId);
+  if (!profile.success) {
+    return profile;
+  }
+
+  let updated = profile.data;
+  const applied = refinement.suggestions.filter((s) => apply.includes(s.id));
+  if (applied.length > 0) {
+    const { guidelines } = profile.data;
+    const saved = saveVoiceProfile({
+      ...profile.data,
+      guidelines: {
+        ...guidelines,
+        avoidWords: [...guidelines.avoidWords, ...applied.filter((s) => s.kind === "avoid-word").map((s) => s.text)],
+        preferredTerms: {
+          ...guidelines.preferredTerms,
+          ...Object.fromEntries(
+            applied.filter((s) => s.kind === "preferred-term").map((s) => [s.text, s.replacement ?? ""])
+          ),
+        },
+      },
+      samples: [
+        ...profile.data.samples,
+        ...applied.filter((s) => s.kind === "sample").map((s) => ({ text: s.text, pinned: true })),
+      ],
+    });
+    if (!saved.success) {
+      return saved;
+    }
+    updated = saved.data;
+  }
+
+  const written = writeRefinement({
+    ...refinement,
+    suggestions: refinement.suggestions.filter((s) => !apply.includes(s.id) && !dismiss.includes(s.id)),
+    dismissed: [...new Set([...refinement.dismissed, ...dismiss])],
+  });
+  if (!written.success) {
+    return written;
+  }
+
+  return success({ profile: updated, refinement: written.data });
+}
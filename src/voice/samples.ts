@@ -1,305 +0,0 @@
-/**
- * Voice Samples & Style Guidelines
- *
- * Auto-generated from @brianman1's tweets
- * Generated at: 2026-01-31T18:13:12.352Z
- * Tweets analyzed: 168
- */
-
-import type { VoiceSample, StyleGuidelines } from "../types";
-
-/**
- * Top-performing tweets from @brianman1
- * These are used to teach the AI your writing style.
- */
-export const voiceSamples: VoiceSample[] = [
-  {
-    "text": "🔺The Unofficial @avax August Recap 🔺\n\n1/ @DinariGlobal  launched the Dinari Financial Network, an @AvaCloud -powered L1 bringing 24/7 trading of 150+ US equities on Avalanche \n\n2/ @SkyBridge  Capital tokenized $300M in hedge funds on @avax  with @TokenySolutions  + https://t.co/tWmqUcR0bJ",
-    "topics": [
-      "@avax",
-      "avalanche",
-      "capital",
-      "global"
-    ],
-    "engagement": {
-      "likes": 118,
-      "retweets": 33
-    }
-  },
-  {
-    "text": "Free shit it good for bitcoin \n\n@CryptoHayes @Scaramucci \n\n@SALTConference https://t.co/ThsmUVpeaM",
-    "topics": [],
-    "engagement": {
-      "likes": 97,
-      "retweets": 17
-    }
-  },
-  {
-    "text": "In honour of tukey day tomorrow \n\n@avax x @Securitize with a banger european announcement \n\nhere we come regulated trading infra across the EU https://t.co/XoZhFrBmAq",
-    "topics": [
-      "@avax"
-    ],
-    "engagement": {
-      "likes": 105,
-      "retweets": 12
-    }
-  },
-  {
-    "text": "🧵 Avalanche Investor Report — November 2025\n\n1/\nNovember was a high-momentum month for Avalanche across network activity, gaming, RWAs, payments, and institutional adoption.\nHere are the top highlights 👇",
-    "topics": [
-      "avalanche",
-      "payments"
-    ],
-    "engagement": {
-      "likes": 56,
-      "retweets": 16
-    }
-  },
-  {
-    "text": "I knew about this last night, still almost made me spit out my coffee this morning \n\n@avax &lt;&gt; @miraeasset 🤝\n\nMore funds tokenized with one of the largest institutional players in the world. \n\nThe initiative focuses on three areas: \n🔺Fund tokenization research (fractional https://t.co/ty67O1c2Hj",
-    "topics": [
-      "@avax",
-      "one"
-    ],
-    "engagement": {
-      "likes": 72,
-      "retweets": 7
-    }
-  },
-  {
-    "text": "all for one, and one for all \n\n@avax https://t.co/YVxBgUjyUY",
-    "topics": [
-      "@avax",
-      "one"
-    ],
-    "engagement": {
-      "likes": 65,
-      "retweets": 6
-    }
-  },
-  {
-    "text": "Very smart people work here \n\n@avax \n\nA populated GitHub https://t.co/ojP61UIik1",
-    "topics": [
-      "@avax"
-    ],
-    "engagement": {
-      "likes": 61,
-      "retweets": 7
-    }
-  },
-  {
-    "text": "Huge win for the @avax ecosystem and @GoKiteAI \n\nExcited to have @PayPal Ventures and @generalcatalyst more ingrained in the @avax Ecosystem \n\nNow why should you, anon, give a shit \n\nBreaking down what Makes Kite AI Tick and why it is awesomesauce: \n\n1. TAILOR-MADE L1 BLOCKCHAIN https://t.co/G7274KWCBq",
-    "topics": [
-      "@avax"
-    ],
-    "engagement": {
-      "likes": 50,
-      "retweets": 11
-    }
-  },
-  {
-    "text": "Friendly PSA to my founder friends \n\nInvestors aren’t buying features. They’re buying the chance your company can return their fund.\n\nFounders: most of you are pitching investors the wrong way.\nYou’re pitching like you’re selling to a customer.\nBut investors aren’t buying your",
-    "topics": [
-      "founders",
-      "investors",
-      "their"
-    ],
-    "engagement": {
-      "likes": 49,
-      "retweets": 9
-    }
-  },
-  {
-    "text": "The pleasure is mine, DeFi Team\n\n🔺 @turtledotxyz  is live on @avax , distributing 25,000 AVAX in liquid rewards across three curated vaults for Stables, BTC, and AVAX\n\n🔺 @KelpDAO's rsETH is now live with boosted rates on @BlackholeDex (2× Kernel Points, AVAX rewards, Black",
-    "topics": [
-      "@avax",
-      "team",
-      "live"
-    ],
-    "engagement": {
-      "likes": 40,
-      "retweets": 10
-    }
-  },
-  {
-    "text": "Spent past 48h with @dantwany getting ready for big September push \n\n23 companies in the @avax ecosystem going out for capital in the near term \n\nIncredible opportunities all over the place \n\nInvestors, you will see me in your inbox ;) https://t.co/HIsaAWrm7c",
-    "topics": [
-      "@avax",
-      "capital",
-      "investors",
-      "get"
-    ],
-    "engagement": {
-      "likes": 38,
-      "retweets": 9
-    }
-  },
-  {
-    "text": "Will be dropping founder VC thoughts more often. I am Enjoying crystallizing alot of what is inside my noodle. \n\nFounders, too many pitches drag on forever without getting to the point.\n\nIf you want to capture an investor’s attention, you need to refine, refine, refine.\n\nGet to",
-    "topics": [
-      "founders",
-      "get",
-      "need"
-    ],
-    "engagement": {
-      "likes": 51,
-      "retweets": 2
-    }
-  },
-  {
-    "text": "Biggest market in the world using @DinariGlobal powered by @avax \n\nCapital connecting \n\nConnecting capital \n\nConnecting connecting \nCapital capital https://t.co/vHyNYRWo1z",
-    "topics": [
-      "@avax",
-      "capital",
-      "global"
-    ],
-    "engagement": {
-      "likes": 47,
-      "retweets": 3
-    }
-  },
-  {
-    "text": "Institutions are already using @avax  as an operating layer for private credit.\n\nWhere it shows up most clearly 👇\n\nOriginate more: embedded lending &amp; payment-linked credit (OatFi, Valinor, Axiym)\nDistribute faster: tokenized issuance, syndication &amp; capital markets rails (Intain,",
-    "topics": [
-      "@avax",
-      "capital",
-      "where"
-    ],
-    "engagement": {
-      "likes": 37,
-      "retweets": 6
-    }
-  },
-  {
-    "text": "Amazing visuals to start your thursday \n\n@avax @AvalancheFDN \n\nmay need to start everyday with this and a coffee https://t.co/VojxbFiA4i",
-    "topics": [
-      "@avax",
-      "avalanche",
-      "need"
-    ],
-    "engagement": {
-      "likes": 39,
-      "retweets": 5
-    }
-  },
-  {
-    "text": "Dont sleep on @avax BD team in 26. https://t.co/PDh4Y5dlGr",
-    "topics": [
-      "@avax",
-      "team",
-      "dont"
-    ],
-    "engagement": {
-      "likes": 39,
-      "retweets": 4
-    }
-  },
-  {
-    "text": "🔺I will no longer be bullposting about @avax 🔺\n\ninstead, i will resort to providing information only and people can interpret this in any manner in which they choose \n\nI will not be held liable if the information is overwhelmingly positive, results in anons changing their point",
-    "topics": [
-      "@avax",
-      "their"
-    ],
-    "engagement": {
-      "likes": 47,
-      "retweets": 0
-    }
-  },
-  {
-    "text": "Some nice news to wake up to \n\n1B mark hit \n\n@avax continuing our push \n10B &gt; to 1T next https://t.co/4RFNVj0iDj",
-    "topics": [
-      "@avax",
-      "next"
-    ],
-    "engagement": {
-      "likes": 34,
-      "retweets": 4
-    }
-  },
-  {
-    "text": "6 weeks \nLets gooooo! \n\n@avax  just went live with Build Games, a global builder competition with $1,000,000 in prizes and incentives for the next wave of apps and founders on Avalanche.\n\nWe’re looking for founders and small teams with big ideas who can ship and want to compete. https://t.co/Bt68ySKFnI https://t.co/mqhDppWuVq",
-    "topics": [
-      "@avax",
-      "avalanche",
-      "founders",
-      "team",
-      "live"
-    ],
-    "engagement": {
-      "likes": 27,
-      "retweets": 6
-    }
-  },
-  {
-    "text": "Transparent jackpots, provable outcomes, and real-time settlement. All on @avax. \n\nThis is the blueprint for social gaming onchain. It’s about making familiar things work better, while providing the same user experience for players.\n\nLet’s roll \n\n@myprizecom https://t.co/QRxvpvemYN",
-    "topics": [
-      "@avax",
-      "onchain"
-    ],
-    "engagement": {
-      "likes": 35,
-      "retweets": 2
-    }
-  }
-];
-
-/**
- * Style guidelines extracted from @brianman1's tweets
- *
- * Stats:
- * - Average tweet length: 173 chars
- * - Average likes: 12
- * - Average retweets: 2
- * - Top topics: @avax, avalanche, founders, capital, investors, their, get, team, one, where
- */
-export const styleGuidelines: StyleGuidelines = {
-  // Tone
-  usesEmojis: true,
-  emojiFrequency: "moderate",
-
-  // Structure
-  usesThreads: false,
-  averageLength: "medium",
-  usesHashtags: false,
-
-  // Content style
-  dataFirst: true,
-  includesHumor: false,
-  asksQuestions: true,
-  usesCTA: false,
-
-  // Vocabulary - common crypto terms to avoid
-  avoidWords: [
-    "bullish",
-    "bearish",
-    "to the moon",
-    "wagmi",
-    "ngmi",
-    "wen",
-    "ser",
-    "fren",
-    "probably nothing",
-    "few understand",
-    "this is huge",
-    "game changer",
-    "revolutionary",
-  ],
-  preferredTerms: {
-    "cryptocurrency": "crypto",
-    "decentralized finance": "DeFi",
-    "non-fungible token": "NFT",
-    "layer 1": "L1",
-    "layer 2": "L2",
-  },
-};
-
-/**
- * Example tweets by category (for AI reference)
- */
-export const examplesByCategory: Record<string, string[]> = {
-  // Categorized samples could be added here
-  news: [],
-  data: [],
-  humor: [],
-  engagement: [],
-};